@@ -14,11 +14,16 @@ function showUsage() {
   console.log("==========================================");
   console.log("");
   console.log("Usage:");
-  console.log("  node scripts/init-mention-checkpoint.js <tweet_id>");
+  console.log(
+    "  node scripts/init-mention-checkpoint.js <tweet_id> [--account <id>]"
+  );
   console.log("");
   console.log("Examples:");
   console.log("  node scripts/init-mention-checkpoint.js 1952105100731969704");
   console.log("  npm run init:checkpoint 1952105100731969704");
+  console.log(
+    "  npm run init:checkpoint -- 1952105100731969704 --account curator"
+  );
   console.log("");
   console.log("What this does:");
   console.log("  • Sets the last_since_id in mention_state table");
@@ -67,7 +72,7 @@ function validateTweetId(tweetId) {
   return { valid: true };
 }
 
-async function initializeCheckpoint(tweetId) {
+async function initializeCheckpoint(tweetId, accountId) {
   console.log("🔄 GlitchBot Mention Checkpoint Initializer");
   console.log("==========================================");
   console.log("");
@@ -84,16 +89,12 @@ async function initializeCheckpoint(tweetId) {
   try {
     // Initialize database
     console.log("📊 Initializing database...");
-    const dbManager = new DatabaseManager("./glitchbot.db");
-    const db = new GlitchBotDB(dbManager);
+    const dbManager = new DatabaseManager();
+    const db = new GlitchBotDB(dbManager, accountId);
 
     // Check current state
-    console.log("🔍 Checking current mention state...");
-    const currentSinceId =
-      db.getCadence("last_since_id") ||
-      db.database
-        .prepare("SELECT value FROM mention_state WHERE key = ?")
-        .get("last_since_id")?.value;
+    console.log(`🔍 Checking current mention state (account: ${accountId})...`);
+    const currentSinceId = db.getLastMentionSinceId();
 
     if (currentSinceId) {
       console.log(`   📍 Current since_id: ${currentSinceId}`);
@@ -110,29 +111,9 @@ async function initializeCheckpoint(tweetId) {
     );
     console.log("   ℹ️  Future mentions will only be fetched AFTER this tweet");
 
-    // Update the checkpoint
+    // Update the checkpoint (last_since_id + last_fetch_time)
     const now = new Date().toISOString();
-
-    // Update both possible locations for compatibility
-    db.database
-      .prepare(
-        `
-      INSERT OR REPLACE INTO mention_state 
-      (key, value, updated_at)
-      VALUES ('last_since_id', ?, ?)
-    `
-      )
-      .run(tweetId, now);
-
-    db.database
-      .prepare(
-        `
-      INSERT OR REPLACE INTO mention_state 
-      (key, value, updated_at)
-      VALUES ('last_fetch_time', ?, ?)
-    `
-      )
-      .run(now, now);
+    db.setMentionCheckpoint(tweetId);
 
     console.log("");
     console.log("✅ Checkpoint initialized successfully!");
@@ -165,9 +146,11 @@ if (args.length === 0 || args[0] === "--help" || args[0] === "-h") {
 }
 
 const tweetId = args[0];
+const accountIndex = args.indexOf("--account");
+const accountId = accountIndex >= 0 ? args[accountIndex + 1] : "default";
 
 // Run the initialization
-initializeCheckpoint(tweetId).catch((error) => {
+initializeCheckpoint(tweetId, accountId).catch((error) => {
   console.error("💥 Script failed:", error);
   process.exit(1);
 });
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * Database Migration Script
+ * Shows schema status and applies (or rolls back) numbered migrations.
+ *
+ * Usage:
+ *   npm run db:migrate                     # apply all pending migrations
+ *   npm run db:migrate -- --status         # list applied/pending migrations
+ *   npm run db:migrate -- --dry-run        # show the plan without applying it
+ *   npm run db:migrate -- --to 2           # migrate up or down to version 2
+ *   npm run db:migrate -- --db ./other.db  # use another database file
+ *
+ * Without --db the app's own resolution applies: GLITCHBOT_DB_PATH (or
+ * DATABASE_PATH, also read from .env), else ./glitchbot.db.
+ */
+
+require("dotenv").config();
+const path = require("path");
+const Database = require("better-sqlite3");
+const {
+  getMigrationStatus,
+  getSchemaVersion,
+  getLatestSchemaVersion,
+  runMigrations,
+} = require("../dist/lib/migrations");
+const { resolveDatabasePath } = require("../dist/lib/database-manager");
+
+function argValue(flag) {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const dbPath = path.resolve(resolveDatabasePath(argValue("--db")));
+const statusOnly = process.argv.includes("--status");
+const dryRun = process.argv.includes("--dry-run");
+const target = argValue("--to");
+
+console.log("🗄️  GlitchBot Database Migrations");
+console.log("=================================");
+console.log(`Database: ${dbPath}`);
+
+try {
+  const db = new Database(dbPath);
+  db.pragma("busy_timeout = 5000");
+
+  console.log(
+    `Schema version: ${getSchemaVersion(db)} (latest: ${getLatestSchemaVersion()})`
+  );
+  console.log("");
+
+  if (statusOnly) {
+    for (const m of getMigrationStatus(db)) {
+      const state = m.applied_at ? `applied ${m.applied_at}` : "pending";
+      console.log(
+        `  ${m.applied_at ? "✅" : "⏳"} ${String(m.version).padStart(3, "0")} ${m.name} - ${state}`
+      );
+    }
+    db.close();
+    process.exit(0);
+  }
+
+  const options = { dryRun };
+  if (target !== undefined) options.targetVersion = parseInt(target, 10);
+  const result = runMigrations(db, options);
+
+  if (result.steps.length === 0) {
+    console.log("✅ Schema is up to date");
+  } else {
+    for (const step of result.steps) {
+      const arrow = step.direction === "up" ? "⬆️ " : "⬇️ ";
+      console.log(
+        `  ${arrow} ${String(step.version).padStart(3, "0")} ${step.name}`
+      );
+    }
+    console.log("");
+    console.log(
+      dryRun
+        ? `📝 Dry run: would migrate ${result.fromVersion} → ${result.toVersion}`
+        : `✅ Migrated ${result.fromVersion} → ${result.toVersion}`
+    );
+  }
+  db.close();
+} catch (error) {
+  console.error("❌ Migration failed:", error.message);
+  process.exit(1);
+}
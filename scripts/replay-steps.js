@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * Replay Agent Steps Script
+ * Re-runs a recording made with AGENT_RECORD_PATH against a copy of its
+ * database snapshot, with Twitter responses served from the file.
+ *
+ * Usage: npm run replay -- <recording.jsonl>
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const recordingPath = process.argv[2];
+if (!recordingPath) {
+  console.error("Usage: npm run replay -- <recording.jsonl>");
+  process.exit(1);
+}
+
+const absoluteRecording = path.resolve(recordingPath);
+const snapshotPath = `${absoluteRecording}.db`;
+const distDir = path.resolve(__dirname, "../dist");
+
+console.log("🎬 GlitchBot Step Replay");
+console.log("========================");
+console.log(`Recording: ${absoluteRecording}`);
+
+// Work on a throwaway copy so the snapshot stays reusable
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "glitchbot-replay-"));
+const dbPath = path.join(workDir, "glitchbot.db");
+if (fs.existsSync(snapshotPath)) {
+  fs.copyFileSync(snapshotPath, dbPath);
+  console.log(`Snapshot:  ${snapshotPath}`);
+} else {
+  console.log("Snapshot:  none (starting from an empty database)");
+}
+process.env.GAME_TWITTER_TOKEN = process.env.GAME_TWITTER_TOKEN || "replay";
+
+async function main() {
+  const { loadReplayRecording, replayRecording } = require(
+    `${distDir}/lib/replay`
+  );
+  const { createAppContext } = require(`${distDir}/lib/app-context`);
+  const { createMentionsWorker } = require(
+    `${distDir}/workers/mentions-worker`
+  );
+  const { createTimelineWorker } = require(
+    `${distDir}/workers/timeline-worker`
+  );
+
+  const recording = loadReplayRecording(absoluteRecording);
+  if (recording.header.bot_username) {
+    process.env.BOT_TWITTER_USERNAME = recording.header.bot_username;
+  }
+
+  const context = createAppContext({ dbPath });
+  const report = await replayRecording(
+    recording,
+    [createMentionsWorker(context), createTimelineWorker(context)],
+    { database: context.dbManager.database }
+  );
+
+  console.log("");
+  console.log(`Steps replayed: ${report.steps_replayed}`);
+  console.log(`Calls replayed: ${report.calls_replayed}`);
+
+  if (report.ok) {
+    console.log("✅ Replay matched the recording");
+    return 0;
+  }
+
+  console.log(`❌ ${report.mismatches.length} mismatch(es):`);
+  for (const m of report.mismatches) {
+    console.log(`  step ${m.step} ${m.function_name} [${m.field}]`);
+    console.log(`    expected: ${JSON.stringify(m.expected)}`);
+    console.log(`    actual:   ${JSON.stringify(m.actual)}`);
+  }
+  return 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("❌ Replay failed:", error.message);
+    process.exit(1);
+  });
@@ -5,9 +5,12 @@ require("dotenv").config();
 const {
   createRateLimitedTwitterClient,
 } = require("../src/lib/rate-limited-twitter-client");
-const { globalRateLimiter } = require("../src/persistence/global/rate-limiter");
+const {
+  getGlobalRateLimiter,
+} = require("../src/persistence/global/rate-limiter");
 
 async function testRateLimiter() {
+  const globalRateLimiter = getGlobalRateLimiter();
   console.log("🧪 Rate Limiter Comprehensive Test Suite");
   console.log("=".repeat(50));
 
@@ -16,7 +19,6 @@ async function testRateLimiter() {
   const client = createRateLimitedTwitterClient({
     gameTwitterAccessToken: process.env.GAME_TWITTER_TOKEN,
     workerId: "test-worker",
-    defaultPriority: "medium",
   });
 
   console.log("Cache status before:", client.getCacheStatus());
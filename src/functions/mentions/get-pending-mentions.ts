@@ -13,8 +13,9 @@ import {
   ExecutableGameFunctionResponse,
   ExecutableGameFunctionStatus,
 } from "@virtuals-protocol/game";
-import GlitchBotDB from "../../lib/db";
 import appLogger from "../../lib/log";
+import { AppContext, resolveAppContext } from "../../lib/app-context";
+import { getLeaseOwnerId } from "../../lib/db";
 
 // Define the structure for suggested tweet data
 export interface SuggestedTweet {
@@ -42,6 +43,10 @@ export interface PendingMention {
   fetched_at: string;
   processed_at?: string;
   referenced_tweets?: string; // JSON string of referenced tweets data
+  last_error?: string | null; // Last reply failure (kept for failed mentions)
+  next_attempt_at?: string | null; // Retry backoff deadline for pending mentions
+  intent_type?: string | null; // question, content_share, bare_tag, spam, owner_command, conversation
+  confidence?: number | null; // Intent classifier confidence (0-1)
   suggested_tweets?: SuggestedTweet[]; // Related suggested tweets discovered via this mention
 }
 
@@ -53,206 +58,223 @@ export interface GetPendingMentionsResult {
   suggested_tweets_count: number; // Total suggested tweets linked to these mentions
 }
 
-export const getPendingMentionsFunction = new GameFunction({
-  name: "get_pending_mentions",
-  description:
-    "Retrieve pending mentions from database for worker processing with related suggested tweets context. Returns mentions sorted by priority (high to low) and creation time (oldest first), including any suggested tweets that were discovered via each mention. This provides full context about what content users shared when tagging @glitchbot_ai.",
-  args: [
-    {
-      name: "limit",
-      description:
-        "Maximum number of mentions to retrieve (default: 10, max: 100)",
-    },
-    {
-      name: "status",
-      description:
-        "Filter by status: 'pending', 'processing', 'completed', 'failed' (default: 'pending')",
-    },
-    {
-      name: "include_stats",
-      description: "Include statistics about total counts (default: true)",
-    },
-    {
-      name: "include_suggested_tweets",
-      description:
-        "Include related suggested tweets for each mention (default: true)",
-    },
-  ] as const,
-  executable: async (args, logger) => {
-    const startTime = Date.now();
+export function createGetPendingMentionsFunction(context?: AppContext) {
+  return new GameFunction({
+    name: "get_pending_mentions",
+    description:
+      "Retrieve pending mentions from database for worker processing with related suggested tweets context. Returns mentions sorted by priority (high to low) and creation time (oldest first), including any suggested tweets that were discovered via each mention. This provides full context about what content users shared when tagging @glitchbot_ai. Each mention carries intent_type (owner_command, question, content_share, conversation, bare_tag, spam) and a confidence; priority is derived from intent and author reach. Pending mentions returned are claimed for this worker (status 'processing') until replied to or their lease runs out, so other workers won't answer them too.",
+    args: [
+      {
+        name: "limit",
+        description:
+          "Maximum number of mentions to retrieve (default: 10, max: 100)",
+      },
+      {
+        name: "status",
+        description:
+          "Filter by status: 'pending', 'processing', 'completed', 'failed' (default: 'pending'). 'failed' lists mentions whose replies gave up, with last_error.",
+      },
+      {
+        name: "include_stats",
+        description: "Include statistics about total counts (default: true)",
+      },
+      {
+        name: "include_suggested_tweets",
+        description:
+          "Include related suggested tweets for each mention (default: true)",
+      },
+    ] as const,
+    executable: async (args, logger) => {
+      const startTime = Date.now();
 
-    try {
-      logger("Retrieving pending mentions from database");
-      appLogger.info(
-        {
-          limit: args.limit,
-          status: args.status,
-          include_stats: args.include_stats,
-          include_suggested_tweets: args.include_suggested_tweets,
-        },
-        "get_pending_mentions: Starting operation"
-      );
+      try {
+        logger("Retrieving pending mentions from database");
+        appLogger.info(
+          {
+            limit: args.limit,
+            status: args.status,
+            include_stats: args.include_stats,
+            include_suggested_tweets: args.include_suggested_tweets,
+          },
+          "get_pending_mentions: Starting operation"
+        );
 
-      // Parse and validate arguments
-      const limit = Math.min(Math.max(parseInt(args.limit || "10"), 1), 100);
-      const status = args.status || "pending";
-      const includeStats = args.include_stats !== "false";
-      const includeSuggestedTweets = args.include_suggested_tweets !== "false";
+        // Parse and validate arguments
+        const limit = Math.min(Math.max(parseInt(args.limit || "10"), 1), 100);
+        const status = args.status || "pending";
+        const includeStats = args.include_stats !== "false";
+        const includeSuggestedTweets =
+          args.include_suggested_tweets !== "false";
 
-      // Validate status
-      const validStatuses = ["pending", "processing", "completed", "failed"];
-      if (!validStatuses.includes(status)) {
-        appLogger.error(
-          { status, valid_statuses: validStatuses },
-          "get_pending_mentions: Invalid status parameter"
-        );
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          `Invalid status '${status}'. Must be one of: ${validStatuses.join(
-            ", "
-          )}`
+        // Validate status
+        const validStatuses = ["pending", "processing", "completed", "failed"];
+        if (!validStatuses.includes(status)) {
+          appLogger.error(
+            { status, valid_statuses: validStatuses },
+            "get_pending_mentions: Invalid status parameter"
+          );
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Failed,
+            `Invalid status '${status}'. Must be one of: ${validStatuses.join(
+              ", "
+            )}`
+          );
+        }
+
+        const db = resolveAppContext(context).db;
+
+        // Recover mentions left in 'processing' by a crashed worker
+        db.reapExpiredMentionLeases();
+
+        // Pending mentions are claimed for this worker so other processes
+        // don't pick the same batch; reply_mention renews the lease. Other
+        // statuses are listed as they are.
+        const mentions = (status === "pending"
+          ? db
+              .claimMentions(getLeaseOwnerId("mentions-worker"), limit)
+              .map(({ worker_id, lease_expires_at, ...mention }) => mention)
+          : db.getPendingMentions(
+              status,
+              limit
+            )) as unknown as PendingMention[];
+
+        appLogger.info(
+          {
+            found_count: mentions.length,
+            status,
+            limit,
+          },
+          "get_pending_mentions: Retrieved mentions from database"
         );
-      }
 
-      const db = new GlitchBotDB();
+        // Fetch related suggested tweets if requested
+        let totalCandidateTweetsCount = 0;
+        if (includeSuggestedTweets && mentions.length > 0) {
+          const mentionIds = mentions.map((m) => m.mention_id);
+
+          // Get all suggested tweets discovered via these mentions
+          const candidateTweets = db.getSuggestedTweetsForMentions(
+            mentionIds
+          ) as (SuggestedTweet & {
+            discovered_via_mention_id: string;
+          })[];
+
+          totalCandidateTweetsCount = candidateTweets.length;
 
-      // Get mentions with the specified status
-      const mentions = db.getPendingMentions(
-        status,
-        limit
-      ) as unknown as PendingMention[];
+          // Group suggested tweets by mention ID
+          const candidateTweetsByMention = new Map<string, SuggestedTweet[]>();
+          candidateTweets.forEach((tweet) => {
+            const mentionId = tweet.discovered_via_mention_id;
+            if (!candidateTweetsByMention.has(mentionId)) {
+              candidateTweetsByMention.set(mentionId, []);
+            }
+            // Remove the discovered_via_mention_id from the tweet object before adding to mention
+            const { discovered_via_mention_id, ...tweetWithoutMentionId } =
+              tweet;
+            candidateTweetsByMention
+              .get(mentionId)!
+              .push(tweetWithoutMentionId);
+          });
 
-      appLogger.info(
-        {
-          found_count: mentions.length,
-          status,
-          limit,
-        },
-        "get_pending_mentions: Retrieved mentions from database"
-      );
+          // Attach suggested tweets to their respective mentions
+          mentions.forEach((mention) => {
+            mention.suggested_tweets =
+              candidateTweetsByMention.get(mention.mention_id) || [];
+          });
 
-      // Fetch related suggested tweets if requested
-      let totalCandidateTweetsCount = 0;
-      if (includeSuggestedTweets && mentions.length > 0) {
-        const mentionIds = mentions.map((m) => m.mention_id);
+          appLogger.info(
+            {
+              mentions_with_tweets: mentions.filter(
+                (m) => m.suggested_tweets && m.suggested_tweets.length > 0
+              ).length,
+              total_suggested_tweets: totalCandidateTweetsCount,
+            },
+            "get_pending_mentions: Linked suggested tweets to mentions"
+          );
+        }
 
-        // Get all suggested tweets discovered via these mentions
-        const candidateTweets = db.getSuggestedTweetsForMentions(
-          mentionIds
-        ) as (SuggestedTweet & {
-          discovered_via_mention_id: string;
-        })[];
+        // Get statistics if requested
+        let totalCount = 0;
+        let pendingCount = 0;
+        let processingCount = 0;
 
-        totalCandidateTweetsCount = candidateTweets.length;
+        if (includeStats) {
+          // Get count statistics
+          const stats = db.getPendingStats();
+          totalCount = stats.total;
+          pendingCount = stats.pending;
+          processingCount = stats.processing;
 
-        // Group suggested tweets by mention ID
-        const candidateTweetsByMention = new Map<string, SuggestedTweet[]>();
-        candidateTweets.forEach((tweet) => {
-          const mentionId = tweet.discovered_via_mention_id;
-          if (!candidateTweetsByMention.has(mentionId)) {
-            candidateTweetsByMention.set(mentionId, []);
-          }
-          // Remove the discovered_via_mention_id from the tweet object before adding to mention
-          const { discovered_via_mention_id, ...tweetWithoutMentionId } = tweet;
-          candidateTweetsByMention.get(mentionId)!.push(tweetWithoutMentionId);
-        });
+          appLogger.debug(
+            {
+              total_count: totalCount,
+              pending_count: pendingCount,
+              processing_count: processingCount,
+            },
+            "get_pending_mentions: Retrieved database statistics"
+          );
+        }
 
-        // Attach suggested tweets to their respective mentions
-        mentions.forEach((mention) => {
-          mention.suggested_tweets =
-            candidateTweetsByMention.get(mention.mention_id) || [];
-        });
+        const executionTime = Date.now() - startTime;
+
+        const result: GetPendingMentionsResult = {
+          mentions,
+          total_count: totalCount,
+          pending_count: pendingCount,
+          processing_count: processingCount,
+          suggested_tweets_count: totalCandidateTweetsCount,
+        };
 
         appLogger.info(
           {
-            mentions_with_tweets: mentions.filter(
+            mentions_count: mentions.length,
+            suggested_tweets_count: totalCandidateTweetsCount,
+            mentions_with_context: mentions.filter(
               (m) => m.suggested_tweets && m.suggested_tweets.length > 0
             ).length,
-            total_suggested_tweets: totalCandidateTweetsCount,
+            status,
+            execution_time_ms: executionTime,
+            total_count: totalCount,
+            pending_count: pendingCount,
+            include_suggested_tweets: includeSuggestedTweets,
           },
-          "get_pending_mentions: Linked suggested tweets to mentions"
+          "get_pending_mentions: Operation completed with suggested tweet context"
         );
-      }
 
-      // Get statistics if requested
-      let totalCount = 0;
-      let pendingCount = 0;
-      let processingCount = 0;
+        logger(
+          `Retrieved ${mentions.length} ${status} mentions with ${totalCandidateTweetsCount} related suggested tweets in ${executionTime}ms`
+        );
 
-      if (includeStats) {
-        // Get count statistics
-        const stats = db.getPendingStats();
-        totalCount = stats.total;
-        pendingCount = stats.pending;
-        processingCount = stats.processing;
+        return new ExecutableGameFunctionResponse(
+          ExecutableGameFunctionStatus.Done,
+          JSON.stringify(result)
+        );
+      } catch (error: any) {
+        const executionTime = Date.now() - startTime;
 
-        appLogger.debug(
+        appLogger.error(
           {
-            total_count: totalCount,
-            pending_count: pendingCount,
-            processing_count: processingCount,
+            error: error.message,
+            stack: error.stack,
+            execution_time_ms: executionTime,
+            limit: args.limit,
+            status: args.status,
+            include_suggested_tweets: args.include_suggested_tweets,
           },
-          "get_pending_mentions: Retrieved database statistics"
+          "get_pending_mentions: Unexpected error occurred"
         );
-      }
-
-      const executionTime = Date.now() - startTime;
 
-      const result: GetPendingMentionsResult = {
-        mentions,
-        total_count: totalCount,
-        pending_count: pendingCount,
-        processing_count: processingCount,
-        suggested_tweets_count: totalCandidateTweetsCount,
-      };
+        logger(`Failed to retrieve pending mentions: ${error.message}`);
 
-      appLogger.info(
-        {
-          mentions_count: mentions.length,
-          suggested_tweets_count: totalCandidateTweetsCount,
-          mentions_with_context: mentions.filter(
-            (m) => m.suggested_tweets && m.suggested_tweets.length > 0
-          ).length,
-          status,
-          execution_time_ms: executionTime,
-          total_count: totalCount,
-          pending_count: pendingCount,
-          include_suggested_tweets: includeSuggestedTweets,
-        },
-        "get_pending_mentions: Operation completed with suggested tweet context"
-      );
-
-      logger(
-        `Retrieved ${mentions.length} ${status} mentions with ${totalCandidateTweetsCount} related suggested tweets in ${executionTime}ms`
-      );
-
-      return new ExecutableGameFunctionResponse(
-        ExecutableGameFunctionStatus.Done,
-        JSON.stringify(result)
-      );
-    } catch (error: any) {
-      const executionTime = Date.now() - startTime;
-
-      appLogger.error(
-        {
-          error: error.message,
-          stack: error.stack,
-          execution_time_ms: executionTime,
-          limit: args.limit,
-          status: args.status,
-          include_suggested_tweets: args.include_suggested_tweets,
-        },
-        "get_pending_mentions: Unexpected error occurred"
-      );
-
-      logger(`Failed to retrieve pending mentions: ${error.message}`);
+        return new ExecutableGameFunctionResponse(
+          ExecutableGameFunctionStatus.Failed,
+          `Unexpected error: ${error.message}`
+        );
+      }
+    },
+  });
+}
 
-      return new ExecutableGameFunctionResponse(
-        ExecutableGameFunctionStatus.Failed,
-        `Unexpected error: ${error.message}`
-      );
-    }
-  },
-});
+export const getPendingMentionsFunction = createGetPendingMentionsFunction();
 
 export default getPendingMentionsFunction;
@@ -6,8 +6,26 @@ import {
 } from "@virtuals-protocol/game";
 import { createRateLimitedTwitterClient } from "../../lib/rate-limited-twitter-client";
 import appLogger from "../../lib/log";
-import GlitchBotDB from "../../lib/db";
+import { getLeaseOwnerId } from "../../lib/db";
+import { getConfig } from "../../lib/config";
 import { updateReplyTimestamp } from "../../lib/cadence";
+import {
+  classifyReplyError,
+  computeBackoffMs,
+  computeRateLimitDelayMs,
+  getRetryPolicy,
+} from "../../lib/retry-policy";
+import { AppContext, resolveAppContext } from "../../lib/app-context";
+import {
+  checkOutboundContent,
+  describeViolations,
+} from "../../lib/content-policy";
+import type GlitchBotDB from "../../lib/db";
+import {
+  MAX_TWEET_LENGTH,
+  getTweetLength,
+  validateTweetLength,
+} from "../../lib/tweet-length";
 
 export interface ReplyMentionResult {
   success: boolean;
@@ -19,292 +37,487 @@ export interface ReplyMentionResult {
   storage_reason?: string;
 }
 
-export const replyMentionFunction = new GameFunction({
-  name: "reply_mention",
-  description:
-    "Reply to a specific mention and mark it as processed in the database. This is the final step in the mentions workflow. Referenced tweets are automatically fetched and stored as suggested tweets during the mention fetch process, so this function focuses solely on posting the reply and updating the mention status to 'completed'.",
-  args: [
-    { name: "mention_id", description: "ID of mention/tweet to reply to" },
-    { name: "reply_text", description: "The reply content (max 280 chars)" },
-  ] as const,
-  executable: async (args, logger) => {
-    const startTime = Date.now();
-
-    try {
-      logger("Starting reply to mention");
-      appLogger.info(
-        {
-          mention_id: args.mention_id,
-          reply_length: args.reply_text?.length || 0,
-        },
-        "reply_mention: Starting operation"
-      );
-
-      // Validate inputs
-      if (!args.mention_id || !args.reply_text) {
-        appLogger.error("reply_mention: Missing required parameters");
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          "mention_id and reply_text are required"
-        );
-      }
-
-      if (args.reply_text.length > 280) {
-        appLogger.error(
-          { text_length: args.reply_text.length },
-          "reply_mention: Reply text exceeds Twitter limit"
-        );
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          `Reply text too long: ${args.reply_text.length}/280 characters`
-        );
-      }
-
-      // Initialize Twitter client
-      const gameToken = process.env.GAME_TWITTER_TOKEN;
-      if (!gameToken) {
-        appLogger.error("reply_mention: GAME_TWITTER_TOKEN not found");
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          "GAME_TWITTER_TOKEN is required"
-        );
-      }
-
-      const twitterClient = createRateLimitedTwitterClient({
-        gameTwitterAccessToken: gameToken,
-        workerId: "mentions-worker",
-        defaultPriority: "high", // Replies have high priority
-      });
-
-      // Initialize database
-      const db = new GlitchBotDB();
+export function createReplyMentionFunction(context?: AppContext) {
+  return new GameFunction({
+    name: "reply_mention",
+    description:
+      "Reply to a specific mention and mark it as processed in the database. This is the final step in the mentions workflow. Referenced tweets are automatically fetched and stored as suggested tweets during the mention fetch process, so this function focuses solely on posting the reply and updating the mention status to 'completed'.",
+    args: [
+      { name: "mention_id", description: "ID of mention/tweet to reply to" },
+      {
+        name: "reply_text",
+        description:
+          "The reply content (max 280 chars; no links, financial advice or @-mentions of people outside the conversation)",
+      },
+    ] as const,
+    executable: async (args, logger) => {
+      const startTime = Date.now();
 
-      // Post the reply
-      let apiResponse;
       try {
-        apiResponse = await twitterClient.v2.reply(
-          args.reply_text,
-          args.mention_id
-        );
-
+        logger("Starting reply to mention");
         appLogger.info(
           {
-            original_mention_id: args.mention_id,
-            reply_id: apiResponse.data.id,
-            reply_text: args.reply_text,
+            mention_id: args.mention_id,
+            reply_length: args.reply_text ? getTweetLength(args.reply_text) : 0,
           },
-          "reply_mention: Reply posted successfully"
+          "reply_mention: Starting operation"
         );
-      } catch (apiError: any) {
-        // Handle Twitter API errors
-        if (apiError.code === 429) {
-          appLogger.warn(
-            {
-              error: apiError.message,
-              mention_id: args.mention_id,
-            },
-            "reply_mention: Rate limit exceeded"
-          );
+
+        // Validate inputs
+        if (!args.mention_id || !args.reply_text) {
+          appLogger.error("reply_mention: Missing required parameters");
           return new ExecutableGameFunctionResponse(
             ExecutableGameFunctionStatus.Failed,
-            "Rate limit exceeded for replies"
+            "mention_id and reply_text are required"
           );
-        } else if (apiError.code >= 500) {
+        }
+
+        const replyLength = validateTweetLength(args.reply_text);
+        if (!replyLength.valid) {
           appLogger.error(
-            { error: apiError.message, code: apiError.code },
-            "reply_mention: Twitter API server error"
+            { text_length: replyLength.weightedLength },
+            "reply_mention: Reply text exceeds Twitter limit"
           );
           return new ExecutableGameFunctionResponse(
             ExecutableGameFunctionStatus.Failed,
-            `Twitter server error: ${apiError.message}`
+            `Reply text too long: ${replyLength.weightedLength}/${MAX_TWEET_LENGTH} characters (URLs count as 23, CJK characters and emojis as 2)`
           );
-        } else if (apiError.code === 401) {
-          appLogger.error(
-            { error: apiError.message },
-            "reply_mention: Authentication failed"
+        }
+
+        // Content policy: only people already in the conversation may be
+        // @-mentioned (just the bot for mentions we have no record of)
+        const violations = checkOutboundContent(args.reply_text, {
+          allowedHandles: getConversationHandles(
+            resolveAppContext(context).db,
+            args.mention_id,
+            resolveAppContext(context).account.botUsername
+          ),
+        });
+        if (violations.length > 0) {
+          appLogger.warn(
+            { mention_id: args.mention_id, violations },
+            "reply_mention: Reply rejected by content policy"
           );
           return new ExecutableGameFunctionResponse(
             ExecutableGameFunctionStatus.Failed,
-            `Authentication failed: ${apiError.message}`
+            describeViolations(violations)
           );
-        } else {
-          // Log detailed Twitter API error information
-          appLogger.error(
-            {
-              error: apiError.message,
-              code: apiError.code,
-              data: apiError.data || null,
-              errors: apiError.errors || null,
-              detail: apiError.detail || null,
-              title: apiError.title || null,
-              type: apiError.type || null,
-              full_error: JSON.stringify(apiError, null, 2),
-            },
-            "reply_mention: Twitter API error with detailed response"
+        }
+
+        // Initialize Twitter client
+        const gameToken = resolveAppContext(context).account.gameTwitterToken;
+        if (!gameToken) {
+          appLogger.error("reply_mention: GAME_TWITTER_TOKEN not found");
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Failed,
+            "GAME_TWITTER_TOKEN is required"
           );
+        }
+
+        const twitterClient = createRateLimitedTwitterClient({
+          gameTwitterAccessToken: gameToken,
+          workerId: "mentions-worker",
+          rateLimiter: resolveAppContext(context).rateLimiter,
+        });
+
+        // Initialize database
+        const db = resolveAppContext(context).db;
+        const workerId = getLeaseOwnerId("mentions-worker");
+
+        // Claim the mention so no other worker process replies to it too.
+        // Mentions outside the queue are still replied to (legacy behaviour).
+        const queued = db.getPendingMentionById(args.mention_id);
+        let claimed = false;
+        if (queued) {
+          claimed = db.claimMention(args.mention_id, workerId);
+          if (!claimed) {
+            appLogger.warn(
+              { mention_id: args.mention_id, status: queued.status },
+              "reply_mention: Mention is not claimable"
+            );
+            let reason = `Mention ${args.mention_id} is already ${queued.status}`;
+            if (queued.status === "processing") {
+              reason = `Mention ${args.mention_id} is being processed by another worker`;
+            } else if (queued.status === "pending") {
+              reason = `Mention ${args.mention_id} is backing off until ${queued.next_attempt_at}`;
+            }
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              reason
+            );
+          }
+        }
+
+        // Lock the mention tweet so no other process replies to it too,
+        // including ones that never saw it in their queue
+        const tracker = resolveAppContext(context).engagementTracker;
+        if (!(await tracker.requestLock(args.mention_id, workerId, "reply"))) {
+          const lock = tracker.getLock(args.mention_id);
+          if (claimed) {
+            if (lock?.status === "completed") {
+              db.markMentionProcessed(
+                args.mention_id,
+                new Date().toISOString(),
+                workerId
+              );
+            } else {
+              db.releaseMention(args.mention_id, workerId);
+            }
+          }
           return new ExecutableGameFunctionResponse(
             ExecutableGameFunctionStatus.Failed,
-            `Twitter API error: ${apiError.message}${
-              apiError.detail ? ` - ${apiError.detail}` : ""
-            }`
+            lock?.status === "completed"
+              ? `Mention ${args.mention_id} was already replied to`
+              : `Mention ${args.mention_id} is being engaged by another worker`
           );
         }
-      }
 
-      // Store the mentioned tweet as a suggested tweet and mark mention as processed
-      let processed = false;
-      let storedAsCandidate = false;
-      let storageReason = "";
+        // Post the reply, renewing the lease while it waits for capacity so
+        // the reaper can't hand the mention to another worker meanwhile
+        const stopLeaseRenewal = claimed
+          ? renewMentionLease(db, args.mention_id, workerId)
+          : () => {};
+        let apiResponse;
+        try {
+          apiResponse = await twitterClient.v2.reply(
+            args.reply_text,
+            args.mention_id
+          );
+        } catch (apiError: any) {
+          stopLeaseRenewal();
+          await tracker.releaseLock(args.mention_id, workerId, false, {
+            error: apiError.message,
+          });
 
-      try {
-        const now = new Date().toISOString();
-
-        // Get full mention data from pending_mentions table
-        const mention = db.getPendingMentionById(args.mention_id) as any;
-
-        if (mention) {
-          // Referenced tweets are now automatically stored during fetch-mentions
-          // Just check if we have referenced tweets for logging purposes
-          try {
-            if (mention.referenced_tweets) {
-              let referencedTweets;
-              try {
-                referencedTweets = JSON.parse(mention.referenced_tweets);
-              } catch (parseError) {
-                referencedTweets = null;
-              }
+          // Schedule a retry or dead-letter the mention (queued mentions only)
+          let retryNote = "";
+          if (claimed) {
+            const classification = classifyReplyError(apiError);
+            const policy = getRetryPolicy();
+            const attempt = (queued?.retry_count || 0) + 1;
+            const deferred = classification.kind === "deferred";
+            const outcome = db.recordMentionFailure(args.mention_id, workerId, {
+              error: `${classification.reason}: ${apiError.message}${
+                apiError.detail ? ` - ${apiError.detail}` : ""
+              }`,
+              permanent: classification.kind === "permanent",
+              deferred,
+              maxAttempts: policy.maxAttempts,
+              backoffMs: deferred
+                ? computeRateLimitDelayMs(apiError, policy)
+                : computeBackoffMs(attempt, policy),
+            });
+            if (outcome?.status === "failed") {
+              retryNote = ` (mention moved to failed after ${outcome.retry_count} attempt(s): ${classification.reason})`;
+            } else if (outcome && deferred) {
+              retryNote = ` (retry scheduled at ${outcome.next_attempt_at}; rate limits don't count as attempts)`;
+            } else if (outcome) {
+              retryNote = ` (retry ${outcome.retry_count}/${policy.maxAttempts} scheduled at ${outcome.next_attempt_at})`;
+            }
+          }
 
-              if (
-                referencedTweets &&
-                Array.isArray(referencedTweets) &&
-                referencedTweets.length > 0
-              ) {
-                storedAsCandidate = true;
-                storageReason = "referenced_tweets_stored_during_fetch";
-                appLogger.info(
-                  {
-                    mention_id: mention.mention_id,
-                    referenced_tweet_count: referencedTweets.length,
-                    referenced_tweet_ids: referencedTweets.map((rt) => rt.id),
-                  },
-                  "reply_mention: Referenced tweets were already stored during fetch"
-                );
+          // Handle Twitter API errors
+          if (apiError.code === 429) {
+            appLogger.warn(
+              {
+                error: apiError.message,
+                mention_id: args.mention_id,
+              },
+              "reply_mention: Rate limit exceeded"
+            );
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              `Rate limit exceeded for replies${retryNote}`
+            );
+          } else if (apiError.code >= 500) {
+            appLogger.error(
+              { error: apiError.message, code: apiError.code },
+              "reply_mention: Twitter API server error"
+            );
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              `Twitter server error: ${apiError.message}${retryNote}`
+            );
+          } else if (apiError.code === 401) {
+            appLogger.error(
+              { error: apiError.message },
+              "reply_mention: Authentication failed"
+            );
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              `Authentication failed: ${apiError.message}${retryNote}`
+            );
+          } else {
+            // Log detailed Twitter API error information
+            appLogger.error(
+              {
+                error: apiError.message,
+                code: apiError.code,
+                data: apiError.data || null,
+                errors: apiError.errors || null,
+                detail: apiError.detail || null,
+                title: apiError.title || null,
+                type: apiError.type || null,
+                full_error: JSON.stringify(apiError, null, 2),
+              },
+              "reply_mention: Twitter API error with detailed response"
+            );
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              `Twitter API error: ${apiError.message}${
+                apiError.detail ? ` - ${apiError.detail}` : ""
+              }${retryNote}`
+            );
+          }
+        }
+
+        stopLeaseRenewal();
+        appLogger.info(
+          {
+            original_mention_id: args.mention_id,
+            reply_id: apiResponse.data.id,
+            reply_text: args.reply_text,
+          },
+          "reply_mention: Reply posted successfully"
+        );
+
+        // The reply is out: bookkeeping failures below are logged, never
+        // reported as a failed reply (that would schedule a second one)
+        try {
+          await tracker.releaseLock(args.mention_id, workerId, true, {
+            reply_id: apiResponse.data.id,
+          });
+        } catch (lockError: any) {
+          appLogger.error(
+            {
+              mention_id: args.mention_id,
+              reply_id: apiResponse.data.id,
+              error: lockError.message,
+            },
+            "reply_mention: Failed to complete engagement lock, but reply was successful"
+          );
+        }
+
+        // Store the mentioned tweet as a suggested tweet and mark mention as processed
+        let processed = false;
+        let storedAsCandidate = false;
+        let storageReason = "";
+
+        try {
+          const now = new Date().toISOString();
+
+          // Get full mention data from pending_mentions table
+          const mention = db.getPendingMentionById(args.mention_id) as any;
+
+          if (mention) {
+            // Referenced tweets are now automatically stored during fetch-mentions
+            // Just check if we have referenced tweets for logging purposes
+            try {
+              if (mention.referenced_tweets) {
+                let referencedTweets;
+                try {
+                  referencedTweets = JSON.parse(mention.referenced_tweets);
+                } catch (parseError) {
+                  referencedTweets = null;
+                }
+
+                if (
+                  referencedTweets &&
+                  Array.isArray(referencedTweets) &&
+                  referencedTweets.length > 0
+                ) {
+                  storedAsCandidate = true;
+                  storageReason = "referenced_tweets_stored_during_fetch";
+                  appLogger.info(
+                    {
+                      mention_id: mention.mention_id,
+                      referenced_tweet_count: referencedTweets.length,
+                      referenced_tweet_ids: referencedTweets.map((rt) => rt.id),
+                    },
+                    "reply_mention: Referenced tweets were already stored during fetch"
+                  );
+                } else {
+                  storageReason = "no_referenced_tweets_found";
+                  appLogger.info(
+                    { mention_id: mention.mention_id },
+                    "reply_mention: No referenced tweets found in mention"
+                  );
+                }
               } else {
-                storageReason = "no_referenced_tweets_found";
+                storageReason = "no_referenced_tweets_data";
                 appLogger.info(
                   { mention_id: mention.mention_id },
-                  "reply_mention: No referenced tweets found in mention"
+                  "reply_mention: No referenced_tweets data found in mention"
                 );
               }
-            } else {
-              storageReason = "no_referenced_tweets_data";
-              appLogger.info(
-                { mention_id: mention.mention_id },
-                "reply_mention: No referenced_tweets data found in mention"
+            } catch (storageError: any) {
+              storageReason = `storage_failed: ${storageError.message}`;
+              appLogger.error(
+                {
+                  mention_id: mention.mention_id,
+                  error: storageError.message,
+                },
+                "reply_mention: Failed to detect/store referenced tweet context"
               );
+              // Don't fail the function since the reply was successful
             }
-          } catch (storageError: any) {
-            storageReason = `storage_failed: ${storageError.message}`;
-            appLogger.error(
-              {
-                mention_id: mention.mention_id,
-                error: storageError.message,
-              },
-              "reply_mention: Failed to detect/store referenced tweet context"
-            );
-            // Don't fail the function since the reply was successful
-          }
 
-          // Update pending_mentions table
-          db.markMentionProcessed(args.mention_id, now, "mentions-worker");
+            // Update pending_mentions table
+            db.markMentionProcessed(args.mention_id, now, workerId);
 
-          // Add to engaged_mentions table for tracking
-          db.recordMentionEngagement(args.mention_id, "reply");
+            // Add to engaged_mentions table for tracking
+            db.recordMentionEngagement(args.mention_id, "reply");
 
-          // Update reply timestamp for cadence tracking
-          updateReplyTimestamp(db);
+            // Update reply timestamp for cadence tracking
+            updateReplyTimestamp(db);
 
-          processed = true;
-          appLogger.info(
+            processed = true;
+            appLogger.info(
+              {
+                mention_id: args.mention_id,
+                reply_id: apiResponse.data.id,
+                previous_status: mention.status,
+                stored_as_candidate: storedAsCandidate,
+                storage_reason: storageReason,
+              },
+              "reply_mention: Mention marked as processed successfully"
+            );
+          } else {
+            storageReason = "mention_not_found_in_pending_queue";
+            appLogger.warn(
+              { mention_id: args.mention_id },
+              "reply_mention: Mention not found in pending queue, but reply was successful"
+            );
+          }
+        } catch (processingError: any) {
+          storageReason = `processing_failed: ${processingError.message}`;
+          appLogger.error(
             {
               mention_id: args.mention_id,
               reply_id: apiResponse.data.id,
-              previous_status: mention.status,
-              stored_as_candidate: storedAsCandidate,
-              storage_reason: storageReason,
+              error: processingError.message,
             },
-            "reply_mention: Mention marked as processed successfully"
-          );
-        } else {
-          storageReason = "mention_not_found_in_pending_queue";
-          appLogger.warn(
-            { mention_id: args.mention_id },
-            "reply_mention: Mention not found in pending queue, but reply was successful"
+            "reply_mention: Failed to mark mention as processed, but reply was successful"
           );
+          // Don't fail the function since the reply was successful
         }
-      } catch (processingError: any) {
-        storageReason = `processing_failed: ${processingError.message}`;
+
+        const executionTime = Date.now() - startTime;
+        const result: ReplyMentionResult = {
+          success: true,
+          mention_id: args.mention_id,
+          reply_id: apiResponse.data.id,
+          message: "Reply posted successfully",
+          processed: processed,
+          stored_as_candidate: storedAsCandidate,
+          storage_reason: storageReason,
+        };
+
+        appLogger.info(
+          {
+            result,
+            execution_time_ms: executionTime,
+          },
+          "reply_mention: Operation completed successfully"
+        );
+
+        logger(
+          `Posted reply to mention ${args.mention_id} successfully${
+            processed ? " and marked as processed" : ""
+          }${storedAsCandidate ? " (referenced tweets already stored)" : ""}`
+        );
+
+        return new ExecutableGameFunctionResponse(
+          ExecutableGameFunctionStatus.Done,
+          JSON.stringify(result)
+        );
+      } catch (error: any) {
+        const executionTime = Date.now() - startTime;
+
         appLogger.error(
           {
+            error: error.message,
+            stack: error.stack,
             mention_id: args.mention_id,
-            reply_id: apiResponse.data.id,
-            error: processingError.message,
+            execution_time_ms: executionTime,
           },
-          "reply_mention: Failed to mark mention as processed, but reply was successful"
+          "reply_mention: Unexpected error occurred"
         );
-        // Don't fail the function since the reply was successful
-      }
 
-      const executionTime = Date.now() - startTime;
-      const result: ReplyMentionResult = {
-        success: true,
-        mention_id: args.mention_id,
-        reply_id: apiResponse.data.id,
-        message: "Reply posted successfully",
-        processed: processed,
-        stored_as_candidate: storedAsCandidate,
-        storage_reason: storageReason,
-      };
-
-      appLogger.info(
-        {
-          result,
-          execution_time_ms: executionTime,
-        },
-        "reply_mention: Operation completed successfully"
-      );
+        logger(`Failed to reply to mention: ${error.message}`);
 
-      logger(
-        `Posted reply to mention ${args.mention_id} successfully${
-          processed ? " and marked as processed" : ""
-        }${storedAsCandidate ? " (referenced tweets already stored)" : ""}`
-      );
+        return new ExecutableGameFunctionResponse(
+          ExecutableGameFunctionStatus.Failed,
+          `Unexpected error: ${error.message}`
+        );
+      }
+    },
+  });
+}
 
-      return new ExecutableGameFunctionResponse(
-        ExecutableGameFunctionStatus.Done,
-        JSON.stringify(result)
-      );
+/**
+ * Heartbeat the mention's lease every third of its length until the
+ * returned function is called
+ */
+function renewMentionLease(
+  db: GlitchBotDB,
+  mentionId: string,
+  workerId: string
+): () => void {
+  const leaseSeconds = getConfig().mentions.lease_seconds;
+  const renew = () => {
+    try {
+      if (!db.heartbeatMentionLease(mentionId, workerId, leaseSeconds)) {
+        appLogger.warn(
+          { mention_id: mentionId, worker_id: workerId },
+          "reply_mention: Mention lease lost while posting"
+        );
+      }
     } catch (error: any) {
-      const executionTime = Date.now() - startTime;
-
       appLogger.error(
-        {
-          error: error.message,
-          stack: error.stack,
-          mention_id: args.mention_id,
-          execution_time_ms: executionTime,
-        },
-        "reply_mention: Unexpected error occurred"
+        { mention_id: mentionId, error: error.message },
+        "reply_mention: Failed to renew mention lease"
       );
+    }
+  };
 
-      logger(`Failed to reply to mention: ${error.message}`);
+  // claimMention() just started a full lease
+  const timer = setInterval(renew, (leaseSeconds * 1000) / 3);
+  timer.unref();
+  return () => clearInterval(timer);
+}
 
-      return new ExecutableGameFunctionResponse(
-        ExecutableGameFunctionStatus.Failed,
-        `Unexpected error: ${error.message}`
-      );
-    }
-  },
-});
+/**
+ * Handles a reply to this mention may tag: its author, anyone the mention
+ * itself tags, authors of the tweets it references, and the bot. Only the
+ * bot when the mention is neither cached nor queued.
+ */
+function getConversationHandles(
+  db: GlitchBotDB,
+  mentionId: string,
+  botUsername: string | undefined
+): string[] {
+  const handles = new Set<string>();
+  if (botUsername) handles.add(botUsername.replace(/^@/, ""));
+
+  const cached = db.getCachedTweet(mentionId);
+  const queued = cached ? undefined : db.getPendingMentionById(mentionId);
+  if (!cached && !queued) return [...handles];
+
+  const author = cached?.author?.username || queued?.author_username;
+  if (author) handles.add(author);
+
+  const text = cached?.text || queued?.text || "";
+  for (const match of text.matchAll(/@(\w{1,15})/g)) handles.add(match[1]!);
+
+  for (const ref of cached?.referenced_tweets || []) {
+    const refAuthor = db.getCachedTweet(ref.id)?.author?.username;
+    if (refAuthor) handles.add(refAuthor);
+  }
+
+  return [...handles];
+}
+
+export const replyMentionFunction = createReplyMentionFunction();
 
 export default replyMentionFunction;
@@ -6,6 +6,11 @@ import {
 } from "@virtuals-protocol/game";
 import { createRateLimitedTwitterClient } from "../../../lib/rate-limited-twitter-client";
 import appLogger from "../../../lib/log";
+import {
+  MAX_TWEET_LENGTH,
+  getTweetLength,
+  validateTweetLength,
+} from "../../../lib/tweet-length";
 
 export interface ReplyResult {
   success: boolean;
@@ -30,7 +35,7 @@ export const replyToTweetFunction = new GameFunction({
       appLogger.info(
         {
           tweet_id: args.tweet_id,
-          reply_length: args.reply_text?.length || 0,
+          reply_length: args.reply_text ? getTweetLength(args.reply_text) : 0,
         },
         "reply_to_tweet: Starting operation"
       );
@@ -44,14 +49,15 @@ export const replyToTweetFunction = new GameFunction({
         );
       }
 
-      if (args.reply_text.length > 280) {
+      const replyLength = validateTweetLength(args.reply_text);
+      if (!replyLength.valid) {
         appLogger.error(
-          { text_length: args.reply_text.length },
+          { text_length: replyLength.weightedLength },
           "reply_to_tweet: Reply text exceeds Twitter limit"
         );
         return new ExecutableGameFunctionResponse(
           ExecutableGameFunctionStatus.Failed,
-          `Reply text too long: ${args.reply_text.length}/280 characters`
+          `Reply text too long: ${replyLength.weightedLength}/${MAX_TWEET_LENGTH} characters (URLs count as 23, CJK characters and emojis as 2)`
         );
       }
 
@@ -68,7 +74,6 @@ export const replyToTweetFunction = new GameFunction({
       const twitterClient = createRateLimitedTwitterClient({
         gameTwitterAccessToken: gameToken,
         workerId: "mentions-worker",
-        defaultPriority: "high", // Replies have high priority
       });
 
       // Post the reply
@@ -4,226 +4,376 @@ import {
   ExecutableGameFunctionStatus,
 } from "@virtuals-protocol/game";
 import { createRateLimitedTwitterClient } from "../../lib/rate-limited-twitter-client";
-import GlitchBotDB from "../../lib/db";
 import appLogger from "../../lib/log";
 import { checkAllGuards, updateQuoteTimestamp } from "../../lib/cadence";
+import { AppContext, resolveAppContext } from "../../lib/app-context";
+import { getLeaseOwnerId } from "../../lib/db";
+import { getConfig } from "../../lib/config";
+import type { PostTweetPayloadV2 } from "../../lib/twitter-v2";
+import { classifyTopic, describeOffTopic } from "../../lib/topics";
+import { extractFeatures } from "../../lib/ranking";
+import { RankingFeedback } from "../../persistence/global/ranking-feedback";
+import {
+  MAX_TWEET_LENGTH,
+  TWEET_URL_LENGTH,
+  getTweetLength,
+  validateTweetLength,
+} from "../../lib/tweet-length";
+import {
+  checkOutboundContent,
+  describeViolations,
+} from "../../lib/content-policy";
 
 /**
  * Quote-tweet function with engagement tracking.
- * Takes a tweet_id and a comment, checks for duplicates, and posts a real quote tweet via Twitter API.
- * Records engagement in engaged_quotes table to prevent duplicate quotes.
+ * Takes a tweet_id and a comment, checks for duplicates, and posts a real quote tweet via Twitter API:
+ * natively with quote_tweet_id, or with the tweet URL pasted into the text
+ * when timeline.quote_mode is "url". The author comes from the cached tweet,
+ * never from the LLM's username argument.
+ * Records engagement in engaged_quotes table to prevent duplicate quotes, and
+ * holds an engagement lock while posting so no other worker quotes it too.
+ * The quoted tweet's ranking features are saved with our post so its
+ * engagement can train the ranking weights.
+ * Only tweets seen by a fetch (the local tweet cache) whose topic is allowed
+ * can be quoted, and the comment must pass the content policy.
  */
-const quoteTweetFunction = new GameFunction({
-  name: "quote_tweet",
-  description:
-    "Quote-tweets a tweet with a comment using the Twitter API. Arguments must reference the SAME tweet: tweet_id must be the selected tweet, username must be the EXACT author username (without @) of that tweet. Calls may be rejected if arguments don't match. Includes duplicate prevention and rate limiting. Content selection is handled at the agent/worker level.",
-  args: [
-    {
-      name: "tweet_id",
-      description: "The ID of the tweet to quote (required)",
-    },
-    {
-      name: "username",
-      description:
-        "EXACT username of the tweet's author (without @). Must match the author of tweet_id.",
-    },
-    {
-      name: "comment",
-      description:
-        "Your commentary to add to the quote tweet (<= 280 chars including URL)",
-    },
-  ] as const,
-  executable: async (args, logger) => {
-    try {
-      const { tweet_id, username, comment } = args;
-
-      if (!tweet_id || !username || !comment) {
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          "tweet_id, username, and comment are required"
-        );
-      }
-
-      // Create the tweet URL for quoting
-      const tweetUrl = `https://x.com/${username}/status/${tweet_id}`;
-      const fullTweetText = `${comment} ${tweetUrl}`;
-
-      // Validate total tweet length (Twitter limit is 280 characters)
-      if (fullTweetText.length > 280) {
-        appLogger.error(
-          {
-            comment_length: comment.length,
-            url_length: tweetUrl.length,
-            total_length: fullTweetText.length,
-          },
-          "quote_tweet: Tweet with URL exceeds Twitter character limit"
-        );
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          `Tweet too long: ${fullTweetText.length}/280 characters (comment: ${comment.length}, URL: ${tweetUrl.length})`
-        );
-      }
-
-      // Check if tweet was already quoted to avoid duplicates
-      const db = new GlitchBotDB();
-      if (db.isTweetQuoted(tweet_id)) {
-        appLogger.warn(
-          { tweet_id },
-          "quote_tweet: Tweet already quoted, skipping duplicate"
-        );
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          `Tweet ${tweet_id} was already quoted. Avoiding duplicate.`
-        );
-      }
+export function createQuoteTweetFunction(context?: AppContext) {
+  return new GameFunction({
+    name: "quote_tweet",
+    description:
+      "Quote-tweets a tweet with a comment using the Twitter API. tweet_id must be a tweet returned by get_timeline (or a mention); its author is looked up from that fetch, so no username is needed. Includes duplicate prevention, topic and content checks, and rate limiting.",
+    args: [
+      {
+        name: "tweet_id",
+        description: "The ID of the tweet to quote (required)",
+      },
+      {
+        name: "username",
+        description:
+          "Optional author username (without @); the fetched tweet's author is used instead",
+      },
+      {
+        name: "comment",
+        description:
+          "Your commentary to add to the quote tweet (<= 280 chars; CJK characters and emojis count as 2; no links, financial advice or @-mentions besides the author)",
+      },
+    ] as const,
+    executable: async (args, logger) => {
+      try {
+        const { tweet_id, username, comment } = args;
 
-      // Check cadence guards before posting
-      if (!checkAllGuards(db, "quote")) {
-        appLogger.info(
-          { tweet_id },
-          "quote_tweet: Quote cadence not met, skipping"
-        );
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          "Quote cadence not met; skipping"
-        );
-      }
+        if (!tweet_id || !comment) {
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Failed,
+            "tweet_id and comment are required"
+          );
+        }
 
-      // Initialize Twitter client
-      const gameToken = process.env.GAME_TWITTER_TOKEN;
-      if (!gameToken) {
-        appLogger.error("quote_tweet: GAME_TWITTER_TOKEN not found");
-        return new ExecutableGameFunctionResponse(
-          ExecutableGameFunctionStatus.Failed,
-          "GAME_TWITTER_TOKEN is required. Set it in your .env file."
-        );
-      }
+        // The tweet must have come through a fetch: its cached copy supplies
+        // the author and the topic, whatever the arguments say
+        const db = resolveAppContext(context).db;
+        const target = db.getCachedTweet(tweet_id);
+        if (!target) {
+          appLogger.warn(
+            { tweet_id },
+            "quote_tweet: Tweet not in local cache, cannot verify it"
+          );
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Failed,
+            `Tweet ${tweet_id} is unknown. Only tweets returned by get_timeline or mentions can be quoted.`
+          );
+        }
+        const author = target.author?.username;
+        if (
+          username &&
+          author &&
+          username.replace(/^@/, "").toLowerCase() !== author.toLowerCase()
+        ) {
+          appLogger.warn(
+            { tweet_id, username, author },
+            "quote_tweet: username argument doesn't match the tweet's author, using the author"
+          );
+        }
 
-      const twitterClient = createRateLimitedTwitterClient({
-        gameTwitterAccessToken: gameToken,
-        workerId: "timeline-worker",
-        defaultPriority: "medium",
-      });
+        // Native quotes attach the tweet with quote_tweet_id; url mode pastes
+        // its link instead (x.com/i/status/<id> resolves without the author)
+        const quoteMode = getConfig().timeline.quote_mode;
+        const tweetUrl = `https://x.com/${author || "i"}/status/${tweet_id}`;
+        const payload: PostTweetPayloadV2 =
+          quoteMode === "native"
+            ? { text: comment, quote_tweet_id: tweet_id }
+            : { text: `${comment} ${tweetUrl}` };
 
-      // Content selection is enforced at the agent/worker level; no topic guard here
+        // Validate weighted length (a pasted URL counts as 23 characters)
+        const { weightedLength, valid } = validateTweetLength(payload.text);
+        if (!valid) {
+          const urlLength = quoteMode === "url" ? TWEET_URL_LENGTH : 0;
+          appLogger.error(
+            {
+              quote_mode: quoteMode,
+              comment_length: getTweetLength(comment),
+              url_length: urlLength,
+              total_length: weightedLength,
+            },
+            "quote_tweet: Quote tweet exceeds Twitter character limit"
+          );
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Failed,
+            `Tweet too long: ${weightedLength}/${MAX_TWEET_LENGTH} characters (${
+              urlLength
+                ? `comment: ${getTweetLength(comment)}, URL: ${urlLength}; `
+                : ""
+            }CJK characters and emojis count as 2)`
+          );
+        }
 
-      // Post the quote tweet using Twitter API (with URL in text)
-      let apiResponse;
-      try {
-        apiResponse = await twitterClient.v2.tweet(fullTweetText);
+        // Content policy: the comment may tag the quoted author (or the bot)
+        // and link only to the quoted tweet
+        const botUsername = resolveAppContext(context).account.botUsername;
+        const violations = checkOutboundContent(comment, {
+          allowedHandles: [author, botUsername].filter(
+            (handle): handle is string => !!handle
+          ),
+          quotedTweetId: tweet_id,
+        });
+        if (violations.length > 0) {
+          appLogger.warn(
+            { tweet_id, violations },
+            "quote_tweet: Comment rejected by content policy"
+          );
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Failed,
+            describeViolations(violations)
+          );
+        }
 
-        appLogger.info(
-          {
-            original_tweet_id: tweet_id,
-            original_username: username,
-            quote_tweet_id: apiResponse.data.id,
-            comment: comment,
-            tweet_url: tweetUrl,
-            full_tweet_text: fullTweetText,
-            total_length: fullTweetText.length,
-          },
-          "quote_tweet: Quote tweet posted successfully via Twitter API"
-        );
-      } catch (apiError: any) {
-        // Handle Twitter API errors
-        if (apiError.code === 429) {
+        // Check if tweet was already quoted to avoid duplicates
+        if (db.isTweetQuoted(tweet_id)) {
           appLogger.warn(
+            { tweet_id },
+            "quote_tweet: Tweet already quoted, skipping duplicate"
+          );
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Failed,
+            `Tweet ${tweet_id} was already quoted. Avoiding duplicate.`
+          );
+        }
+
+        // Topic guard: classify the tweet as we fetched it, not as described
+        const classification = classifyTopic(target);
+        if (!classification.allowed) {
+          appLogger.info(
             {
-              error: apiError.message,
-              tweet_id: tweet_id,
-              reset_time: apiError.rateLimit?.reset
-                ? new Date(apiError.rateLimit.reset * 1000).toISOString()
-                : "unknown",
+              tweet_id,
+              topic: classification.topic,
+              matched: classification.matched,
             },
-            "quote_tweet: Twitter API rate limit exceeded"
+            "quote_tweet: Off-topic tweet rejected"
           );
           return new ExecutableGameFunctionResponse(
             ExecutableGameFunctionStatus.Failed,
-            `Rate limit exceeded. Reset at: ${
-              apiError.rateLimit?.reset
-                ? new Date(apiError.rateLimit.reset * 1000).toISOString()
-                : "unknown"
-            }`
+            `Tweet ${tweet_id} is ${describeOffTopic(classification)}. Only AI, crypto, devtools and research tweets can be quoted.`
           );
-        } else if (apiError.code >= 500) {
-          appLogger.error(
-            { error: apiError.message, code: apiError.code },
-            "quote_tweet: Twitter API server error"
+        }
+
+        // Check cadence guards before posting
+        if (!checkAllGuards(db, "quote")) {
+          appLogger.info(
+            { tweet_id },
+            "quote_tweet: Quote cadence not met, skipping"
           );
           return new ExecutableGameFunctionResponse(
             ExecutableGameFunctionStatus.Failed,
-            `Twitter API server error: ${apiError.message}`
+            "Quote cadence not met; skipping"
           );
-        } else if (apiError.code === 401) {
-          appLogger.error(
-            { error: apiError.message },
-            "quote_tweet: Twitter API authentication failed"
+        }
+
+        // Initialize Twitter client
+        const gameToken = resolveAppContext(context).account.gameTwitterToken;
+        if (!gameToken) {
+          appLogger.error("quote_tweet: GAME_TWITTER_TOKEN not found");
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Failed,
+            "GAME_TWITTER_TOKEN is required. Set it in your .env file."
           );
+        }
+
+        const twitterClient = createRateLimitedTwitterClient({
+          gameTwitterAccessToken: gameToken,
+          workerId: "timeline-worker",
+          rateLimiter: resolveAppContext(context).rateLimiter,
+        });
+
+        // Lock the tweet so a concurrent worker/process can't quote it too
+        const tracker = resolveAppContext(context).engagementTracker;
+        const lockOwner = getLeaseOwnerId("timeline-worker");
+        if (!(await tracker.requestLock(tweet_id, lockOwner, "quote"))) {
           return new ExecutableGameFunctionResponse(
             ExecutableGameFunctionStatus.Failed,
-            `Authentication failed: ${apiError.message}. Check your Twitter API credentials.`
+            `Tweet ${tweet_id} is already being engaged by another worker. Avoiding duplicate.`
           );
-        } else {
+        }
+
+        // Post the quote tweet using Twitter API
+        let apiResponse;
+        try {
+          apiResponse = await twitterClient.v2.tweet(payload);
+        } catch (apiError: any) {
+          await tracker.releaseLock(tweet_id, lockOwner, false, {
+            error: apiError.message,
+          });
+
+          // Handle Twitter API errors
+          if (apiError.code === 429) {
+            appLogger.warn(
+              {
+                error: apiError.message,
+                tweet_id: tweet_id,
+                reset_time: apiError.rateLimit?.reset
+                  ? new Date(apiError.rateLimit.reset * 1000).toISOString()
+                  : "unknown",
+              },
+              "quote_tweet: Twitter API rate limit exceeded"
+            );
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              `Rate limit exceeded. Reset at: ${
+                apiError.rateLimit?.reset
+                  ? new Date(apiError.rateLimit.reset * 1000).toISOString()
+                  : "unknown"
+              }`
+            );
+          } else if (apiError.code >= 500) {
+            appLogger.error(
+              { error: apiError.message, code: apiError.code },
+              "quote_tweet: Twitter API server error"
+            );
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              `Twitter API server error: ${apiError.message}`
+            );
+          } else if (apiError.code === 401) {
+            appLogger.error(
+              { error: apiError.message },
+              "quote_tweet: Twitter API authentication failed"
+            );
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              `Authentication failed: ${apiError.message}. Check your Twitter API credentials.`
+            );
+          } else {
+            appLogger.error(
+              {
+                error: apiError.message,
+                code: apiError.code,
+                data: apiError.data || null,
+                errors: apiError.errors || null,
+                detail: apiError.detail || null,
+                title: apiError.title || null,
+                type: apiError.type || null,
+              },
+              "quote_tweet: Twitter API error with detailed response"
+            );
+            return new ExecutableGameFunctionResponse(
+              ExecutableGameFunctionStatus.Failed,
+              `Twitter API error: ${apiError.message}${
+                apiError.detail ? ` - ${apiError.detail}` : ""
+              }`
+            );
+          }
+        }
+
+        appLogger.info(
+          {
+            original_tweet_id: tweet_id,
+            original_username: author,
+            quote_tweet_id: apiResponse.data.id,
+            quote_mode: quoteMode,
+            comment: comment,
+            full_tweet_text: payload.text,
+            total_length: weightedLength,
+          },
+          "quote_tweet: Quote tweet posted successfully via Twitter API"
+        );
+
+        // The quote is out: bookkeeping failures below are logged, never
+        // reported as a failed quote (the planner would try it again)
+        try {
+          await tracker.releaseLock(tweet_id, lockOwner, true, {
+            quote_tweet_id: apiResponse.data.id,
+          });
+        } catch (lockError: any) {
           appLogger.error(
             {
-              error: apiError.message,
-              code: apiError.code,
-              data: apiError.data || null,
-              errors: apiError.errors || null,
-              detail: apiError.detail || null,
-              title: apiError.title || null,
-              type: apiError.type || null,
+              tweet_id,
+              quote_tweet_id: apiResponse.data.id,
+              error: lockError.message,
             },
-            "quote_tweet: Twitter API error with detailed response"
+            "quote_tweet: Failed to complete engagement lock, but quote was posted"
           );
-          return new ExecutableGameFunctionResponse(
-            ExecutableGameFunctionStatus.Failed,
-            `Twitter API error: ${apiError.message}${
-              apiError.detail ? ` - ${apiError.detail}` : ""
-            }`
+        }
+
+        try {
+          // Record the engagement to prevent future duplicates
+          db.recordQuoteEngagement(tweet_id);
+
+          // Update quote timestamp for cadence tracking
+          updateQuoteTimestamp(db);
+
+          // Our quote's engagement feeds back into the ranking weights
+          const { dbManager, account } = resolveAppContext(context);
+          new RankingFeedback(dbManager, account.id).recordPost(
+            tweet_id,
+            apiResponse.data.id,
+            extractFeatures(target)
+          );
+        } catch (recordError: any) {
+          appLogger.error(
+            {
+              tweet_id,
+              quote_tweet_id: apiResponse.data.id,
+              error: recordError.message,
+            },
+            "quote_tweet: Failed to record engagement, but quote was posted"
           );
         }
+
+        appLogger.info(
+          {
+            tweet_id,
+            username: author,
+            quote_tweet_id: apiResponse.data.id,
+            quote_mode: quoteMode,
+            total_length: weightedLength,
+          },
+          "quote_tweet: Successfully quote-tweeted and recorded engagement"
+        );
+
+        logger(
+          `Quote-tweeted: ${tweet_id} (${author || "unknown author"}) -> ${apiResponse.data.id} | ${comment}`
+        );
+
+        return new ExecutableGameFunctionResponse(
+          ExecutableGameFunctionStatus.Done,
+          `Successfully quote-tweeted ${author ? `@${author}'s` : "the"} tweet ${tweet_id} with comment: "${comment}". New tweet ID: ${apiResponse.data.id}`
+        );
+      } catch (error: any) {
+        appLogger.error(
+          { error: error.message, tweet_id: args.tweet_id },
+          "quote_tweet: Error occurred during quote-tweet operation"
+        );
+
+        logger(`Failed to quote-tweet (dummy): ${error.message}`);
+
+        return new ExecutableGameFunctionResponse(
+          ExecutableGameFunctionStatus.Failed,
+          `Failed to quote-tweet (dummy): ${error.message}`
+        );
       }
+    },
+  });
+}
 
-      // Record the engagement to prevent future duplicates
-      db.recordQuoteEngagement(tweet_id);
-
-      // Update quote timestamp for cadence tracking
-      updateQuoteTimestamp(db);
-
-      appLogger.info(
-        {
-          tweet_id,
-          username,
-          quote_tweet_id: apiResponse.data.id,
-          tweet_url: tweetUrl,
-          total_length: fullTweetText.length,
-        },
-        "quote_tweet: Successfully quote-tweeted and recorded engagement"
-      );
-
-      logger(
-        `Quote-tweeted: ${tweet_id} (${username}) -> ${apiResponse.data.id} | ${comment}`
-      );
-
-      return new ExecutableGameFunctionResponse(
-        ExecutableGameFunctionStatus.Done,
-        `Successfully quote-tweeted @${username}'s tweet ${tweet_id} with comment: "${comment}". New tweet ID: ${apiResponse.data.id}`
-      );
-    } catch (error: any) {
-      appLogger.error(
-        { error: error.message, tweet_id: args.tweet_id },
-        "quote_tweet: Error occurred during quote-tweet operation"
-      );
-
-      logger(`Failed to quote-tweet (dummy): ${error.message}`);
-
-      return new ExecutableGameFunctionResponse(
-        ExecutableGameFunctionStatus.Failed,
-        `Failed to quote-tweet (dummy): ${error.message}`
-      );
-    }
-  },
-});
+const quoteTweetFunction = createQuoteTweetFunction();
 
 export default quoteTweetFunction;
@@ -1,26 +1,31 @@
 import { GameAgent } from "@virtuals-protocol/game";
 import dotenv from "dotenv";
-import mentionsWorker from "./workers/mentions-worker";
-import timelineWorker from "./workers/timeline-worker";
+import { createMentionsWorker } from "./workers/mentions-worker";
+import { createTimelineWorker } from "./workers/timeline-worker";
+import { readAccountDescription } from "./lib/accounts";
+import { AppContext, createAppContext } from "./lib/app-context";
+import { getConfig, printEffectiveConfig } from "./lib/config";
+import { startRuntimeReloader } from "./lib/hot-reload";
+import { createReplayRecorder, ReplayRecorder } from "./lib/replay";
+import {
+  getAgentLoopSettings,
+  printAgentLoopSettings,
+  runAgentLoop,
+} from "./lib/agent-loop";
 
 dotenv.config();
 
-async function main() {
-  console.log("🤖 Starting GlitchBot...");
-
-  const apiKey = process.env.VIRTUALS_API_KEY || process.env.GAME_API_KEY;
-  if (!apiKey) {
-    console.error(
-      "❌ Please set VIRTUALS_API_KEY or GAME_API_KEY in your .env file"
-    );
-    process.exit(1);
-  }
+export const GLITCHBOT_AGENT_GOAL =
+  "Respond to mentions and periodically share high-signal AI/crypto/software/tech content";
 
-  // Create the agent
-  const agent = new GameAgent(apiKey, {
-    name: "GlitchBot",
-    goal: "Respond to mentions and periodically share high-signal AI/crypto/software/tech content",
-    description: `
+/**
+ * Built-in persona; the quote cadence follows the runtime config so the
+ * planner is told the same interval the cadence guard enforces
+ */
+export function getGlitchBotAgentDescription(): string {
+  const quoteMinutes = getConfig().cadence.quote_interval_minutes;
+  const maxEmojis = getConfig().content_policy.max_emojis_per_tweet;
+  return `
       I am GlitchBot — this is my twitter account (@glitchbot_ai). I engage directly with the community and share the most valuable technical content in AI, crypto, software, and tech.
 
       MENTIONS (Primary)
@@ -32,7 +37,7 @@ async function main() {
         * Always address and engage the mentioning user; do not address the original tweet author in mentions
         * If there’s no extra context, still thank the user and ask a brief, relevant follow-up
       - Answer the mention text: If the mention is a question or request, provide a brief, direct answer addressing it. If it’s an opinion/claim, offer a short, relevant take. If it’s only a tag (no substance), acknowledge and optionally ask a follow-up.
-      - Reply guidelines: Thank the user, be concise (< 280 chars), friendly and technical; 1–2 tasteful emojis; acknowledge their curation effort; avoid generic replies; do not over-claim; always @-mention the user who tagged me.
+      - Reply guidelines: Thank the user, be concise (< 280 chars), friendly and technical; at most ${maxEmojis} tasteful emoji(s); acknowledge their curation effort; avoid generic replies; do not over-claim; always @-mention the user who tagged me.
       - Simple examples:
         • Original: "We just open-sourced VectorDB 2.0"
           Mention: "@dev_user hey @glitchbot_ai check this out!"
@@ -61,55 +66,99 @@ async function main() {
       - Strict exclusions: Politics/policy, general news, non‑tech topics.
       - Commentary style: Technical, specific (e.g., “solid cryptographic analysis”, “notable inference-time optimization”), invites discussion.
       - Quoting call discipline:
-        • tweet_id: the selected tweet’s ID
-        • username: EXACT author username from includes.users (user.id == tweet.author_id;) (if you see a retweet use original author username)
+        • tweet_id: the selected tweet’s ID (the author is looked up from the fetched tweet; no username needed)
         • comment: concise technical commentary
-        • Never guess username; skip quoting if not resolvable. Never self-quote.
-      - Cadence: At most one quote per hour.
+        • Never self-quote.
+      - Cadence: At most one quote every ${quoteMinutes} minutes.
 
       SEQUENCING RULES (per step)
       1) Handle mentions first (process one pending, or fetch)
-      2) If more than 1 hour since last quote, fetch timeline and optionally perform one quote using strict topic filtering
+      2) If more than ${quoteMinutes} minutes since last quote, fetch timeline and optionally perform one quote using strict topic filtering
       3) Respect rate limits and never exceed 280 chars
-    `,
-    workers: [mentionsWorker, timelineWorker],
+    `;
+}
+
+/**
+ * GlitchBot persona: mentions + timeline workers for one account. The
+ * account's own description, when configured, replaces the built-in one.
+ */
+export function createGlitchBotAgent(
+  apiKey: string,
+  context: AppContext
+): GameAgent {
+  return new GameAgent(apiKey, {
+    name: "GlitchBot",
+    goal: GLITCHBOT_AGENT_GOAL,
+    description:
+      readAccountDescription(context.account) || getGlitchBotAgentDescription(),
+    workers: [createMentionsWorker(context), createTimelineWorker(context)],
   });
+}
+
+async function main() {
+  console.log("🤖 Starting GlitchBot...");
+
+  const apiKey = process.env.VIRTUALS_API_KEY || process.env.GAME_API_KEY;
+  if (!apiKey) {
+    console.error(
+      "❌ Please set VIRTUALS_API_KEY or GAME_API_KEY in your .env file"
+    );
+    process.exit(1);
+  }
+
+  try {
+    printEffectiveConfig();
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  // One database connection + rate limiter shared by every worker
+  const context = createAppContext();
+  const agent = createGlitchBotAgent(apiKey, context);
+
+  // Optional step recording for deterministic replay (npm run replay)
+  let recorder: ReplayRecorder | undefined;
+  const recordPath = process.env.AGENT_RECORD_PATH;
+  if (recordPath) {
+    recorder = createReplayRecorder(recordPath, {
+      agent: "GlitchBot",
+      botUsername: context.account.botUsername,
+    });
+    await recorder.install({
+      workers: agent.workers,
+      gameToken: context.account.gameTwitterToken,
+      database: context.dbManager.database,
+      snapshotPath: `${recordPath}.db`,
+    });
+    console.log(`🎥 Recording agent steps to ${recordPath}`);
+  }
 
   // Initialize and start
   await agent.init();
   console.log("✅ GlitchBot initialized! Running continuously...");
   console.log("Press Ctrl+C to stop");
 
-  // Get timeout values from environment variables
-  const stepInterval = parseInt(process.env.AGENT_STEP_INTERVAL || "180000"); // Default: 3 minutes
-  const errorInterval = parseInt(process.env.AGENT_ERROR_INTERVAL || "180000"); // Default: 3 minutes
-  const verboseLogging = process.env.AGENT_VERBOSE === "true"; // Default: false
-
-  console.log(`⚙️ Agent configuration:`);
-  console.log(`   Step interval: ${stepInterval / 1000}s`);
-  console.log(`   Error interval: ${errorInterval / 1000}s`);
-  console.log(`   Verbose logging: ${verboseLogging}`);
-
-  // Use step method with proper error handling and throttling
-  let stepCount = 0;
-  while (true) {
-    console.log("--------------------------------");
-    console.log("Step #", stepCount); // Before every step!
-    stepCount++;
-    try {
-      await agent.step({ verbose: verboseLogging });
-      await new Promise((r) => setTimeout(r, stepInterval)); // configurable delay
-    } catch (err) {
-      console.error("Agent step error:", err);
-      await new Promise((r) => setTimeout(r, errorInterval)); // configurable error delay
-    }
-  }
+  // Expire stale engagement locks and prune old history
+  context.engagementTracker.startCleanupJob();
+
+  const settings = getAgentLoopSettings();
+  printAgentLoopSettings(settings);
+
+  const reloader = startRuntimeReloader([context.account]);
+  await runAgentLoop(agent, settings, {
+    ...(recorder ? { recorder } : {}),
+    ...(reloader ? { reloader } : {}),
+    rebuild: () => createGlitchBotAgent(apiKey, context),
+  });
 }
 
-// Graceful shutdown
-process.on("SIGINT", () => {
-  console.log("\n👋 GlitchBot shutting down...");
-  process.exit(0);
-});
+if (require.main === module) {
+  // Graceful shutdown
+  process.on("SIGINT", () => {
+    console.log("\n👋 GlitchBot shutting down...");
+    process.exit(0);
+  });
 
-main().catch(console.error);
+  main().catch(console.error);
+}
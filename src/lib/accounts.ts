@@ -0,0 +1,171 @@
+import * as fs from "fs";
+import * as path from "path";
+import appLogger from "./log";
+
+/**
+ * Account Registry
+ *
+ * A bot persona = one Twitter account. Each account has its own GAME token,
+ * agent description and id; the id scopes its rows in pending_mentions,
+ * engaged_*, mention_state, timeline_state, cadence and rate_limits, so
+ * several personas can share one process and one database.
+ *
+ * Without GLITCHBOT_ACCOUNTS_FILE there is a single "default" account built
+ * from GAME_TWITTER_TOKEN / BOT_TWITTER_USERNAME (the pre-registry setup).
+ */
+
+export type AgentPersona = "glitchbot" | "timeline";
+
+export interface AccountConfig {
+  id: string;
+  agent: AgentPersona;
+  gameTwitterToken: string;
+  botUsername?: string;
+  description?: string; // Replaces the persona's built-in GameAgent description
+  descriptionFile?: string; // Source of description, re-read on reload
+}
+
+// Rows written before accounts existed belong to this id
+export const DEFAULT_ACCOUNT_ID = "default";
+
+const ACCOUNT_ID_PATTERN = /^[a-z0-9_-]+$/i;
+const PERSONAS: AgentPersona[] = ["glitchbot", "timeline"];
+
+/**
+ * Single-account setup from the classic env variables
+ */
+export function getDefaultAccount(
+  env: NodeJS.ProcessEnv = process.env
+): AccountConfig {
+  const account: AccountConfig = {
+    id: DEFAULT_ACCOUNT_ID,
+    agent: "glitchbot",
+    gameTwitterToken: env.GAME_TWITTER_TOKEN || "",
+  };
+  const botUsername = env.BOT_TWITTER_USERNAME || env.SELF_TWITTER_USERNAME;
+  if (botUsername) account.botUsername = botUsername;
+  return account;
+}
+
+// Shape of one entry in the accounts file
+interface AccountFileEntry {
+  id?: unknown;
+  agent?: unknown;
+  game_twitter_token?: unknown;
+  game_twitter_token_env?: unknown;
+  bot_username?: unknown;
+  description?: unknown;
+  description_file?: unknown;
+}
+
+function parseAccountEntry(
+  entry: AccountFileEntry,
+  index: number,
+  baseDir: string,
+  env: NodeJS.ProcessEnv
+): AccountConfig {
+  const where = `accounts[${index}]`;
+  if (typeof entry.id !== "string" || !ACCOUNT_ID_PATTERN.test(entry.id)) {
+    throw new Error(
+      `${where}: "id" must be a non-empty string of letters, digits, "_" or "-"`
+    );
+  }
+  const agent = entry.agent ?? "glitchbot";
+  if (!PERSONAS.includes(agent as AgentPersona)) {
+    throw new Error(
+      `${where} (${entry.id}): "agent" must be one of ${PERSONAS.join(", ")}`
+    );
+  }
+
+  // Tokens normally come from the environment so the file can be committed
+  let token = "";
+  if (typeof entry.game_twitter_token_env === "string") {
+    token = env[entry.game_twitter_token_env] || "";
+  } else if (typeof entry.game_twitter_token === "string") {
+    token = entry.game_twitter_token;
+  }
+  if (!token) {
+    throw new Error(
+      `${where} (${entry.id}): no GAME Twitter token (set "game_twitter_token_env" to a populated variable)`
+    );
+  }
+
+  const account: AccountConfig = {
+    id: entry.id,
+    agent: agent as AgentPersona,
+    gameTwitterToken: token,
+  };
+  if (typeof entry.bot_username === "string") {
+    account.botUsername = entry.bot_username.replace(/^@/, "");
+  }
+  if (typeof entry.description_file === "string") {
+    account.descriptionFile = path.resolve(baseDir, entry.description_file);
+    account.description = fs.readFileSync(account.descriptionFile, "utf8");
+  } else if (typeof entry.description === "string") {
+    account.description = entry.description;
+  }
+  return account;
+}
+
+/**
+ * Parse and validate an accounts file (JSON array of account entries)
+ */
+export function loadAccountsFile(
+  filePath: string,
+  env: NodeJS.ProcessEnv = process.env
+): AccountConfig[] {
+  const absolute = path.resolve(filePath);
+  const raw = JSON.parse(fs.readFileSync(absolute, "utf8"));
+  const entries = Array.isArray(raw) ? raw : raw?.accounts;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`${absolute}: expected a non-empty array of accounts`);
+  }
+
+  const accounts = entries.map((entry: AccountFileEntry, index: number) =>
+    parseAccountEntry(entry, index, path.dirname(absolute), env)
+  );
+  const seen = new Set<string>();
+  for (const account of accounts) {
+    if (seen.has(account.id)) {
+      throw new Error(`${absolute}: duplicate account id "${account.id}"`);
+    }
+    seen.add(account.id);
+  }
+  return accounts;
+}
+
+/**
+ * Accounts this process should run: the accounts file when configured,
+ * otherwise the single default account
+ */
+export function loadAccounts(
+  env: NodeJS.ProcessEnv = process.env
+): AccountConfig[] {
+  const file = env.GLITCHBOT_ACCOUNTS_FILE;
+  return file ? loadAccountsFile(file, env) : [getDefaultAccount(env)];
+}
+
+/**
+ * Current agent description for an account: re-reads description_file so
+ * persona edits apply when the agent is rebuilt, keeping the last good text
+ * if the file cannot be read
+ */
+export function readAccountDescription(
+  account: AccountConfig
+): string | undefined {
+  if (account.descriptionFile) {
+    try {
+      account.description = fs.readFileSync(account.descriptionFile, "utf8");
+    } catch (error: any) {
+      appLogger.warn(
+        {
+          accountId: account.id,
+          file: account.descriptionFile,
+          error: error.message,
+        },
+        "Could not re-read account description, keeping previous text"
+      );
+    }
+  }
+  return account.description;
+}
@@ -0,0 +1,146 @@
+import { GameAgent } from "@virtuals-protocol/game";
+import { RuntimeReloader } from "./hot-reload";
+import appLogger from "./log";
+import { ReplayRecorder } from "./replay";
+
+/**
+ * Step Loop
+ *
+ * The endless step/sleep loop every agent entry point runs. Intervals come
+ * from AGENT_STEP_INTERVAL / AGENT_ERROR_INTERVAL / AGENT_VERBOSE. With a
+ * reloader, pending config/persona edits are applied between steps and the
+ * agent's descriptions are refreshed from a freshly built copy.
+ */
+
+export interface AgentLoopOptions {
+  label?: string; // Prefix for log lines when several agents share a process
+  recorder?: ReplayRecorder;
+  reloader?: RuntimeReloader;
+  rebuild?: () => GameAgent; // Builds the agent from current config/persona
+}
+
+export interface AgentLoopSettings {
+  stepInterval: number;
+  errorInterval: number;
+  verboseLogging: boolean;
+}
+
+export function getAgentLoopSettings(): AgentLoopSettings {
+  return {
+    stepInterval: parseInt(process.env.AGENT_STEP_INTERVAL || "180000"), // Default: 3 minutes
+    errorInterval: parseInt(process.env.AGENT_ERROR_INTERVAL || "180000"), // Default: 3 minutes
+    verboseLogging: process.env.AGENT_VERBOSE === "true", // Default: false
+  };
+}
+
+export function printAgentLoopSettings(settings: AgentLoopSettings): void {
+  console.log(`⚙️ Agent configuration:`);
+  console.log(`   Step interval: ${settings.stepInterval / 1000}s`);
+  console.log(`   Error interval: ${settings.errorInterval / 1000}s`);
+  console.log(`   Verbose logging: ${settings.verboseLogging}`);
+}
+
+/**
+ * Copy agent, worker and function descriptions from a freshly built agent
+ * onto the running one. Workers and functions are matched by id/name and the
+ * running objects are kept (the replay recorder wraps their executables).
+ * Returns what changed.
+ */
+export function applyAgentDescriptions(
+  agent: GameAgent,
+  fresh: GameAgent
+): string[] {
+  const changed: string[] = [];
+  if (agent.description !== fresh.description) {
+    agent.description = fresh.description;
+    changed.push("agent");
+  }
+  for (const worker of agent.workers) {
+    const freshWorker = fresh.workers.find((w) => w.id === worker.id);
+    if (!freshWorker) continue;
+    if (worker.description !== freshWorker.description) {
+      worker.description = freshWorker.description;
+      changed.push(`worker ${worker.id}`);
+    }
+    for (const fn of worker.functions) {
+      const freshFn = freshWorker.functions.find((f) => f.name === fn.name);
+      if (freshFn && fn.description !== freshFn.description) {
+        fn.description = freshFn.description;
+        changed.push(`function ${fn.name}`);
+      }
+    }
+  }
+  return changed;
+}
+
+// Agents whose descriptions changed but whose re-init failed; retried next step
+const pendingInit = new WeakSet<GameAgent>();
+
+/**
+ * Step boundary: apply pending reloads and, when this agent has not seen the
+ * latest generation yet, refresh its descriptions and re-register it with
+ * GAME (descriptions are sent on init). Returns the generation now applied.
+ */
+async function refreshAgent(
+  agent: GameAgent,
+  options: AgentLoopOptions,
+  seenGeneration: number,
+  prefix: string
+): Promise<number> {
+  const { reloader, rebuild } = options;
+  if (!reloader) return seenGeneration;
+  reloader.applyPending();
+  if (reloader.generation === seenGeneration) return seenGeneration;
+
+  if (rebuild) {
+    const changed = applyAgentDescriptions(agent, rebuild());
+    if (changed.length > 0 || pendingInit.has(agent)) {
+      pendingInit.add(agent);
+      await agent.init();
+      pendingInit.delete(agent);
+      console.log(
+        `${prefix}🔄 Re-initialized ${agent.name} with updated descriptions: ${changed.join(", ")}`
+      );
+      appLogger.info(
+        { agent: agent.name, generation: reloader.generation, changed },
+        "Agent descriptions reloaded"
+      );
+    }
+  }
+  return reloader.generation;
+}
+
+export async function runAgentLoop(
+  agent: GameAgent,
+  settings: AgentLoopSettings,
+  options: AgentLoopOptions = {}
+): Promise<never> {
+  const prefix = options.label ? `[${options.label}] ` : "";
+  const recorder = options.recorder;
+
+  // Use step method with proper error handling and throttling
+  let stepCount = 0;
+  let generation = options.reloader?.generation ?? 0;
+  while (true) {
+    try {
+      generation = await refreshAgent(agent, options, generation, prefix);
+    } catch (err) {
+      console.error(`${prefix}Reload error:`, err);
+    }
+    console.log("--------------------------------");
+    console.log(`${prefix}Step #`, stepCount); // Before every step!
+    recorder?.beginStep(stepCount);
+    stepCount++;
+    try {
+      const actionType = await agent.step({
+        verbose: settings.verboseLogging,
+      });
+      recorder?.endStep({ action_type: String(actionType) });
+      await new Promise((r) => setTimeout(r, settings.stepInterval)); // configurable delay
+    } catch (err) {
+      recorder?.endStep({ error: String(err) });
+      console.error(`${prefix}Agent step error:`, err);
+      await new Promise((r) => setTimeout(r, settings.errorInterval)); // configurable error delay
+    }
+  }
+}
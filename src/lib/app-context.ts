@@ -0,0 +1,77 @@
+import GlitchBotDB from "./db";
+import appLogger from "./log";
+import { DatabaseManager, getDefaultDatabaseManager } from "./database-manager";
+import { AccountConfig, getDefaultAccount } from "./accounts";
+import {
+  GlobalRateLimiter,
+  getGlobalRateLimiter,
+} from "../persistence/global/rate-limiter";
+import { GlobalEngagementTracker } from "../persistence/global/engagement-tracker";
+
+/**
+ * Application Context
+ *
+ * Everything a worker or GameFunction needs that is backed by the database.
+ * Build one per agent process (or per test) with createAppContext() and pass
+ * it to the worker/function factories; functions created without a context
+ * fall back to the process-wide default, opened lazily on first use.
+ *
+ * A context belongs to one account: its GlitchBotDB, rate limiter and
+ * engagement tracker only see that account's rows. Personas sharing a process share the
+ * DatabaseManager and get one context each.
+ */
+export interface AppContext {
+  account: AccountConfig;
+  dbManager: DatabaseManager;
+  db: GlitchBotDB;
+  rateLimiter: GlobalRateLimiter;
+  engagementTracker: GlobalEngagementTracker;
+}
+
+export interface AppContextOptions {
+  dbPath?: string; // Defaults to GLITCHBOT_DB_PATH / ./glitchbot.db; ":memory:" supported
+  dbManager?: DatabaseManager;
+  account?: AccountConfig; // Defaults to the env-configured default account
+}
+
+/**
+ * Create an isolated context with its own database connection
+ */
+export function createAppContext(options: AppContextOptions = {}): AppContext {
+  const dbManager = options.dbManager || new DatabaseManager(options.dbPath);
+  const account = options.account || getDefaultAccount();
+  appLogger.debug(
+    { dbPath: dbManager.dbPath, account_id: account.id },
+    "App context created"
+  );
+  return {
+    account,
+    dbManager,
+    db: new GlitchBotDB(dbManager, account.id),
+    rateLimiter: new GlobalRateLimiter(dbManager, account.id),
+    engagementTracker: new GlobalEngagementTracker(dbManager, account.id),
+  };
+}
+
+let defaultContext: AppContext | undefined;
+
+/**
+ * Context shared by everything that wasn't given one explicitly
+ */
+export function getDefaultAppContext(): AppContext {
+  if (!defaultContext) {
+    const dbManager = getDefaultDatabaseManager();
+    defaultContext = {
+      account: getDefaultAccount(),
+      dbManager,
+      db: new GlitchBotDB(dbManager),
+      rateLimiter: getGlobalRateLimiter(),
+      engagementTracker: new GlobalEngagementTracker(dbManager),
+    };
+  }
+  return defaultContext;
+}
+
+export function resolveAppContext(context?: AppContext): AppContext {
+  return context || getDefaultAppContext();
+}
@@ -1,32 +1,40 @@
 import GlitchBotDB from "./db";
 import logger from "./log";
+import { getConfig } from "./config";
 
-// Sleep window: 02:00–10:00 UTC-3 (05:00–13:00 UTC)
+// Minimum gaps between posts, from config (cadence.*)
+const quoteIntervalMs = (): number =>
+  getConfig().cadence.quote_interval_minutes * 60 * 1000;
+const replyIntervalMs = (): number =>
+  getConfig().cadence.reply_interval_seconds * 1000;
+
+// Sleep window (UTC), default 02:00–10:00 UTC-3 (05:00–13:00 UTC)
 export const isSleepTime = (d = new Date()): boolean => {
-  const h = d.getUTCHours(); // UTC-3 sleep 02:00–10:00 -> UTC 05:00–13:00
-  return h >= 5 && h < 13;
+  const { sleep_start_hour_utc: start, sleep_end_hour_utc: end } =
+    getConfig().cadence;
+  const h = d.getUTCHours();
+  // Windows may wrap past midnight (e.g. 22 -> 6)
+  return start <= end ? h >= start && h < end : h >= start || h < end;
 };
 
-// Check if enough time has passed since last quote (1 hour)
+// Check if enough time has passed since last quote
 export const canQuoteNow = (db: GlitchBotDB, now = new Date()): boolean => {
   const lastQuoteTs = db.getCadence("last_quote_ts");
   if (!lastQuoteTs) return true;
 
   const timeSinceLastQuote = now.getTime() - new Date(lastQuoteTs).getTime();
-  const oneHourMs = 60 * 60 * 1000;
 
-  return timeSinceLastQuote >= oneHourMs;
+  return timeSinceLastQuote >= quoteIntervalMs();
 };
 
-// Check if enough time has passed since last reply (1 minute)
+// Check if enough time has passed since last reply
 export const canReplyNow = (db: GlitchBotDB, now = new Date()): boolean => {
   const lastReplyTs = db.getCadence("last_reply_ts");
   if (!lastReplyTs) return true;
 
   const timeSinceLastReply = now.getTime() - new Date(lastReplyTs).getTime();
-  const oneMinuteMs = 60 * 1000;
 
-  return timeSinceLastReply >= oneMinuteMs;
+  return timeSinceLastReply >= replyIntervalMs();
 };
 
 // Update quote timestamp after successful quote
@@ -64,12 +72,16 @@ export const checkAllGuards = (
 
   // Check specific action cadence
   if (action === "quote" && !canQuoteNow(db, now)) {
-    logger.info("Quote cadence not met (< 1 hour since last quote)");
+    logger.info(
+      `Quote cadence not met (< ${getConfig().cadence.quote_interval_minutes} min since last quote)`
+    );
     return false;
   }
 
   if (action === "reply" && !canReplyNow(db, now)) {
-    logger.info("Reply cadence not met (< 1 minute since last reply)");
+    logger.info(
+      `Reply cadence not met (< ${getConfig().cadence.reply_interval_seconds}s since last reply)`
+    );
     return false;
   }
 
@@ -86,14 +98,8 @@ export const getTimeUntilNextAction = (
   // If in sleep window, return time until sleep ends
   if (isSleepTime(now)) {
     const currentHour = now.getUTCHours();
-    let hoursUntilWake;
-
-    if (currentHour >= 5 && currentHour < 13) {
-      hoursUntilWake = 13 - currentHour;
-    } else {
-      // This shouldn't happen if isSleepTime() is correct, but just in case
-      hoursUntilWake = 0;
-    }
+    const wakeHour = getConfig().cadence.sleep_end_hour_utc;
+    const hoursUntilWake = (wakeHour - currentHour + 24) % 24;
 
     return hoursUntilWake * 60 * 60 * 1000; // Convert to milliseconds
   }
@@ -103,7 +109,7 @@ export const getTimeUntilNextAction = (
     const lastQuoteTs = db.getCadence("last_quote_ts");
     if (!lastQuoteTs) return 0;
 
-    const nextAllowedTime = new Date(lastQuoteTs).getTime() + 60 * 60 * 1000;
+    const nextAllowedTime = new Date(lastQuoteTs).getTime() + quoteIntervalMs();
     return Math.max(0, nextAllowedTime - now.getTime());
   }
 
@@ -111,7 +117,7 @@ export const getTimeUntilNextAction = (
     const lastReplyTs = db.getCadence("last_reply_ts");
     if (!lastReplyTs) return 0;
 
-    const nextAllowedTime = new Date(lastReplyTs).getTime() + 60 * 1000;
+    const nextAllowedTime = new Date(lastReplyTs).getTime() + replyIntervalMs();
     return Math.max(0, nextAllowedTime - now.getTime());
   }
 
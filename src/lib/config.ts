@@ -0,0 +1,485 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import appLogger from "./log";
+
+/**
+ * Runtime Configuration
+ *
+ * Tunables live in a JSON file (GLITCHBOT_CONFIG_FILE, default
+ * ./glitchbot.config.json when present), validated against the schema below.
+ * Anything missing falls back to the schema default. Environment variables
+ * override the file:
+ *
+ *   GLITCHBOT__<SECTION>__<KEY>=value   e.g. GLITCHBOT__CADENCE__QUOTE_INTERVAL_MINUTES=30
+ *
+ * String settings take the value as is; others are parsed as JSON when
+ * possible (numbers, booleans, arrays), else used as strings. A few older variables (MENTION_MAX_ATTEMPTS, ...) are
+ * still honoured; see LEGACY_ENV_OVERRIDES.
+ */
+
+const DEFAULT_HIGH_PRIORITY_KEYWORDS = [
+  // Crypto/DeFi
+  "bitcoin",
+  "btc",
+  "ethereum",
+  "eth",
+  "defi",
+  "crypto",
+  "blockchain",
+  "solana",
+  "sol",
+  "memecoin",
+  "degen",
+  "yield",
+  "farming",
+  "liquidity",
+  "staking",
+  "airdrop",
+  "dao",
+  "nft",
+  "web3",
+  "tokenomics",
+
+  // AI/ML
+  "ai",
+  "artificial intelligence",
+  "machine learning",
+  "ml",
+  "llm",
+  "gpt",
+  "claude",
+  "openai",
+  "anthropic",
+  "neural",
+  "model",
+  "training",
+  "transformer",
+  "deep learning",
+  "generative",
+  "chatgpt",
+  "automation",
+
+  // Tech/Startups
+  "startup",
+  "funding",
+  "series a",
+  "series b",
+  "vc",
+  "venture capital",
+  "launch",
+  "product hunt",
+  "github",
+  "open source",
+  "api",
+  "developer",
+  "coding",
+  "programming",
+  "typescript",
+  "javascript",
+  "react",
+  "node",
+  "saas",
+  "b2b",
+  "technical",
+  "engineering",
+  "frontend",
+  "backend",
+];
+
+const DEFAULT_MEDIUM_PRIORITY_KEYWORDS = [
+  "tech",
+  "technology",
+  "innovation",
+  "digital",
+  "software",
+  "app",
+  "platform",
+  "data",
+  "analytics",
+  "cloud",
+  "security",
+  "privacy",
+  "mobile",
+  "ios",
+  "android",
+  "productivity",
+  "workflow",
+  "automation",
+];
+
+// Profanity and slurs never posted; extend via content_policy.banned_words
+const DEFAULT_BANNED_WORDS = [
+  "fuck",
+  "shit",
+  "bitch",
+  "cunt",
+  "asshole",
+  "retard",
+  "faggot",
+  "nigger",
+  "nigga",
+  "kike",
+  "chink",
+  "spic",
+  "tranny",
+];
+
+const hour = z.number().int().min(0).max(23);
+const positiveInt = z.number().int().positive();
+
+export const GlitchBotConfigSchema = z
+  .object({
+    // Mentions from this handle are classified as owner commands
+    owner_handle: z.string().min(1).default("lemoncheli"),
+
+    cadence: z
+      .object({
+        quote_interval_minutes: positiveInt.default(60),
+        reply_interval_seconds: positiveInt.default(60),
+        // Read/store-only window (UTC); 02:00–10:00 UTC-3 by default
+        sleep_start_hour_utc: hour.default(5),
+        sleep_end_hour_utc: hour.default(13),
+      })
+      .strict()
+      .default({}),
+
+    timeline: z
+      .object({
+        max_results: z.number().int().min(5).max(100).default(10),
+        suggestion_mix_limit: z.number().int().min(0).default(2),
+        suggestion_window_hours: positiveInt.default(10),
+        // "native" posts quotes with quote_tweet_id; "url" pastes the link
+        quote_mode: z.enum(["native", "url"]).default("native"),
+      })
+      .strict()
+      .default({}),
+
+    mentions: z
+      .object({
+        fetch_max_results: z.number().int().min(5).max(100).default(50),
+        lease_seconds: positiveInt.default(300),
+        max_attempts: positiveInt.default(5),
+        retry_base_seconds: positiveInt.default(60),
+        retry_max_seconds: positiveInt.default(3600),
+      })
+      .strict()
+      .default({}),
+
+    ranking: z
+      .object({
+        min_score: z.number().min(0).default(8),
+        min_length: z.number().int().min(0).default(50),
+        max_length: positiveInt.default(500),
+        high_priority_keywords: z
+          .array(z.string().min(1))
+          .default(DEFAULT_HIGH_PRIORITY_KEYWORDS),
+        medium_priority_keywords: z
+          .array(z.string().min(1))
+          .default(DEFAULT_MEDIUM_PRIORITY_KEYWORDS),
+        // How far one quote's engagement moves the feature weights, and how
+        // long a quote collects engagement before it counts
+        learning_rate: z.number().min(0).max(1).default(0.1),
+        feedback_settle_hours: positiveInt.default(24),
+      })
+      .strict()
+      .default({}),
+
+    // Pre-publish checks on replies and quotes (lib/content-policy)
+    content_policy: z
+      .object({
+        max_emojis_per_tweet: z.number().int().min(0).default(1),
+        banned_words: z.array(z.string().min(1)).default(DEFAULT_BANNED_WORDS),
+      })
+      .strict()
+      .default({}),
+
+    // Which X API tier's budgets to enforce, and whether the token is a
+    // user (OAuth) or app-only (bearer) credential
+    rate_limit_profile: z
+      .object({
+        name: z.enum(["testing", "free", "basic", "pro"]).default("testing"),
+        context: z.enum(["user", "app"]).default("user"),
+      })
+      .strict()
+      .default({}),
+
+    // Wait (up to max_wait_seconds) for rate-limit capacity instead of
+    // failing the call; higher-priority requests are served first
+    request_queue: z
+      .object({
+        enabled: z.boolean().default(false),
+        max_wait_seconds: positiveInt.default(120),
+      })
+      .strict()
+      .default({}),
+
+    // Per-endpoint overrides of the selected profile's budgets
+    rate_limits: z
+      .record(
+        z.string(),
+        z
+          .object({
+            requests_per_15min: positiveInt.optional(),
+            requests_per_hour: positiveInt.optional(),
+            requests_per_day: positiveInt.optional(),
+            worker_fair_share: z.boolean().optional(),
+            algorithm: z
+              .enum(["fixed_window", "sliding_log", "token_bucket"])
+              .optional(),
+          })
+          .strict()
+      )
+      .default({}),
+  })
+  .strict();
+
+export type GlitchBotConfig = z.infer<typeof GlitchBotConfigSchema>;
+
+export interface LoadedConfig {
+  config: GlitchBotConfig;
+  file: string | null; // Config file that was read, if any
+  envOverrides: string[]; // Dotted paths overridden from the environment
+}
+
+export const DEFAULT_CONFIG_FILE = "./glitchbot.config.json";
+
+const ENV_PREFIX = "GLITCHBOT__";
+
+// Pre-config env variables mapped onto config paths
+const LEGACY_ENV_OVERRIDES: Record<string, string> = {
+  OWNER_HANDLE: "owner_handle",
+  MENTION_MAX_ATTEMPTS: "mentions.max_attempts",
+  MENTION_RETRY_BASE_SECONDS: "mentions.retry_base_seconds",
+  MENTION_RETRY_MAX_SECONDS: "mentions.retry_max_seconds",
+};
+
+// Schema node a dotted path points at (defaults/optionals unwrapped), or
+// null when the path isn't in the schema
+function schemaAt(dotted: string): z.ZodTypeAny | null {
+  let node: z.ZodTypeAny = GlitchBotConfigSchema;
+  for (const key of dotted.split(".")) {
+    node = unwrapSchema(node);
+    if (node instanceof z.ZodObject) {
+      const next = (node.shape as Record<string, z.ZodTypeAny>)[key];
+      if (!next) return null;
+      node = next;
+    } else if (node instanceof z.ZodRecord) {
+      node = node.valueSchema;
+    } else {
+      return null;
+    }
+  }
+  return unwrapSchema(node);
+}
+
+function unwrapSchema(node: z.ZodTypeAny): z.ZodTypeAny {
+  while (
+    node instanceof z.ZodDefault ||
+    node instanceof z.ZodOptional ||
+    node instanceof z.ZodNullable
+  ) {
+    node = node instanceof z.ZodDefault ? node.removeDefault() : node.unwrap();
+  }
+  return node;
+}
+
+// String settings keep the raw value ("123" stays a handle, not a number);
+// everything else is parsed as JSON when possible
+function parseEnvValue(dotted: string, raw: string): unknown {
+  const schema = schemaAt(dotted);
+  if (schema instanceof z.ZodString || schema instanceof z.ZodEnum) {
+    return raw;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function setPath(target: Record<string, any>, dotted: string, value: unknown) {
+  const keys = dotted.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+    node = node[key];
+  }
+  node[keys[keys.length - 1]!] = value;
+}
+
+function collectEnvOverrides(env: NodeJS.ProcessEnv): Array<[string, unknown]> {
+  const overrides: Array<[string, unknown]> = [];
+  for (const [name, dotted] of Object.entries(LEGACY_ENV_OVERRIDES)) {
+    const raw = env[name];
+    if (raw !== undefined && raw !== "") {
+      overrides.push([dotted, parseEnvValue(dotted, raw)]);
+    }
+  }
+  for (const [name, raw] of Object.entries(env)) {
+    if (!name.startsWith(ENV_PREFIX) || raw === undefined || raw === "") {
+      continue;
+    }
+    const dotted = name
+      .slice(ENV_PREFIX.length)
+      .split("__")
+      .map((part) => part.toLowerCase())
+      .join(".");
+    overrides.push([dotted, parseEnvValue(dotted, raw)]);
+  }
+  return overrides;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Read the config file (if any), apply env overrides and validate.
+ * Throws with every schema violation listed when the result is invalid.
+ */
+export function loadConfig(
+  options: { file?: string; env?: NodeJS.ProcessEnv } = {}
+): LoadedConfig {
+  const env = options.env || process.env;
+  const explicit = options.file || env.GLITCHBOT_CONFIG_FILE;
+  const candidate = path.resolve(explicit || DEFAULT_CONFIG_FILE);
+
+  let raw: Record<string, any> = {};
+  let file: string | null = null;
+  if (fs.existsSync(candidate)) {
+    try {
+      raw = JSON.parse(fs.readFileSync(candidate, "utf8"));
+    } catch (error: any) {
+      throw new Error(`Invalid config file ${candidate}: ${error.message}`);
+    }
+    file = candidate;
+  } else if (explicit) {
+    throw new Error(`Config file not found: ${candidate}`);
+  }
+
+  const overrides = collectEnvOverrides(env);
+  for (const [dotted, value] of overrides) {
+    setPath(raw, dotted, value);
+  }
+
+  const parsed = GlitchBotConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid configuration${file ? ` (${file})` : ""}: ${formatIssues(parsed.error)}`
+    );
+  }
+
+  return {
+    config: parsed.data,
+    file,
+    envOverrides: overrides.map(([dotted]) => dotted),
+  };
+}
+
+let current: LoadedConfig | undefined;
+
+/**
+ * Effective configuration, loaded on first use
+ */
+export function getConfig(): GlitchBotConfig {
+  if (!current) {
+    current = loadConfig();
+  }
+  return current.config;
+}
+
+export function getLoadedConfig(): LoadedConfig {
+  getConfig();
+  return current!;
+}
+
+/**
+ * Replace the effective configuration (tests, reloads); undefined resets it
+ * so the next getConfig() reads file + env again
+ */
+export function setConfig(loaded: LoadedConfig | undefined): void {
+  current = loaded;
+}
+
+function flatten(
+  value: unknown,
+  prefix: string,
+  out: Map<string, unknown>
+): Map<string, unknown> {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out.set(prefix, value);
+  }
+  return out;
+}
+
+function describeChange(before: unknown, after: unknown): string {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const added = after.filter((item) => !before.includes(item));
+    const removed = before.filter((item) => !after.includes(item));
+    const parts = [];
+    if (added.length > 0) parts.push(`+[${added.join(", ")}]`);
+    if (removed.length > 0) parts.push(`-[${removed.join(", ")}]`);
+    return parts.length > 0 ? parts.join(" ") : "reordered";
+  }
+  const show = (v: unknown) =>
+    v === undefined ? "(unset)" : JSON.stringify(v);
+  return `${show(before)} → ${show(after)}`;
+}
+
+/**
+ * Human-readable differences between two configs, one line per changed key
+ * (keyword lists report added/removed entries)
+ */
+export function diffConfig(
+  before: GlitchBotConfig,
+  after: GlitchBotConfig
+): string[] {
+  const a = flatten(before, "", new Map());
+  const b = flatten(after, "", new Map());
+  const keys = new Set([...a.keys(), ...b.keys()]);
+  const changes: string[] = [];
+  for (const key of [...keys].sort()) {
+    if (JSON.stringify(a.get(key)) !== JSON.stringify(b.get(key))) {
+      changes.push(`${key}: ${describeChange(a.get(key), b.get(key))}`);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Print the effective configuration once at startup
+ */
+export function printEffectiveConfig(loaded = getLoadedConfig()): void {
+  console.log("🧩 Effective configuration:");
+  console.log(`   Source: ${loaded.file || "built-in defaults"}`);
+  if (loaded.envOverrides.length > 0) {
+    console.log(`   Env overrides: ${loaded.envOverrides.join(", ")}`);
+  }
+  const { ranking, content_policy, ...rest } = loaded.config;
+  const summary = {
+    ...rest,
+    ranking: {
+      ...ranking,
+      high_priority_keywords: `${ranking.high_priority_keywords.length} keywords`,
+      medium_priority_keywords: `${ranking.medium_priority_keywords.length} keywords`,
+    },
+    content_policy: {
+      ...content_policy,
+      banned_words: `${content_policy.banned_words.length} words`,
+    },
+  };
+  console.log(
+    JSON.stringify(summary, null, 2)
+      .split("\n")
+      .map((line) => `   ${line}`)
+      .join("\n")
+  );
+  appLogger.debug({ config: loaded.config }, "Effective configuration");
+}
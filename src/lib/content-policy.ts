@@ -0,0 +1,148 @@
+import { getConfig } from "./config";
+import { EMOJI_PATTERN, URL_PATTERN } from "./tweet-length";
+
+/**
+ * Content Policy - Pre-Publish Checks for Outbound Text
+ *
+ * `reply_mention` and `quote_tweet` run LLM-written text through
+ * `checkOutboundContent()` before posting. Every violated rule is reported
+ * (not just the first) so the planner can rewrite the text in one go.
+ * Banned words and the emoji limit come from `content_policy` in config.
+ */
+
+export type PolicyRule =
+  | "banned_word"
+  | "financial_advice"
+  | "unsolicited_mention"
+  | "emoji_limit"
+  | "external_url"
+  | "prompt_leak";
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  detail: string;
+}
+
+export interface OutboundContext {
+  // Handles (without @) the text may mention; undefined skips the check
+  allowedHandles?: string[] | undefined;
+  // The only tweet the text may link to (quote tweets)
+  quotedTweetId?: string | undefined;
+}
+
+// Shilling and advice phrasing; cashtags alone (e.g. "$ETH gas fees") are fine
+const FINANCIAL_ADVICE_PATTERNS: RegExp[] = [
+  /\b(buy|sell|short|long|ape into|load up on|accumulate|grab|dump)\s+(some\s+|more\s+)?\$[a-z][a-z0-9]{1,9}\b/i,
+  /\$[a-z][a-z0-9]{1,9}\b[^.!?]*\b(to the moon|going to moon|will moon|will pump|100x|1000x)\b/i,
+  /\b(not financial advice|nfa|dyor|price target|guaranteed (returns?|gains?|profits?)|easy money)\b/i,
+];
+
+// Worker/function vocabulary and assistant tells that don't belong in a tweet
+const PROMPT_LEAK_PATTERNS: RegExp[] = [
+  /\b(system prompt|my instructions|ignore (all )?previous instructions)\b/i,
+  /\bas an ai (language model|assistant)\b/i,
+  /\b(tweet_id|mention_id|reply_text|get_timeline|quote_tweet|reply_mention|fetch_mentions|get_pending_mentions)\b/,
+  /\b(CORE FUNCTION|ARGUMENTS CONTRACT|STRICT CONTENT FILTERING|QUOTE-TWEET REQUIREMENTS)\b/,
+  /\{\{|\}\}|\$\{/,
+];
+
+const MENTION_PATTERN = /(^|[^\w@])@(\w{1,15})\b/g;
+
+/**
+ * Every policy rule the text breaks; empty when it can be posted
+ */
+export function checkOutboundContent(
+  text: string,
+  context: OutboundContext = {}
+): PolicyViolation[] {
+  const { banned_words, max_emojis_per_tweet } = getConfig().content_policy;
+  const violations: PolicyViolation[] = [];
+
+  const bannedWord = banned_words.find((word) =>
+    new RegExp(`\\b${escapeRegExp(word)}(s|es|ed|ing|er|ers)?\\b`, "i").test(
+      text
+    )
+  );
+  if (bannedWord) {
+    violations.push({
+      rule: "banned_word",
+      detail: `contains a banned word ("${bannedWord}")`,
+    });
+  }
+
+  const advice = FINANCIAL_ADVICE_PATTERNS.map((p) => text.match(p)).find(
+    Boolean
+  );
+  if (advice) {
+    violations.push({
+      rule: "financial_advice",
+      detail: `reads as financial advice ("${advice[0]}")`,
+    });
+  }
+
+  if (context.allowedHandles) {
+    const allowed = new Set(
+      context.allowedHandles.map((h) => h.replace(/^@/, "").toLowerCase())
+    );
+    const unsolicited = [...text.matchAll(MENTION_PATTERN)]
+      .map((m) => m[2]!)
+      .filter((handle) => !allowed.has(handle.toLowerCase()));
+    if (unsolicited.length > 0) {
+      violations.push({
+        rule: "unsolicited_mention",
+        detail: `mentions accounts not in the conversation (${unsolicited
+          .map((h) => `@${h}`)
+          .join(", ")})`,
+      });
+    }
+  }
+
+  const emojis = text.match(EMOJI_PATTERN)?.length || 0;
+  if (emojis > max_emojis_per_tweet) {
+    violations.push({
+      rule: "emoji_limit",
+      detail: `uses ${emojis} emojis (max ${max_emojis_per_tweet})`,
+    });
+  }
+
+  const urls = (text.match(URL_PATTERN) || []).filter(
+    (url) => !isQuotedTweetUrl(url, context.quotedTweetId)
+  );
+  if (urls.length > 0) {
+    violations.push({
+      rule: "external_url",
+      detail: `links to ${urls.join(", ")}`,
+    });
+  }
+
+  const leak = PROMPT_LEAK_PATTERNS.map((p) => text.match(p)).find(Boolean);
+  if (leak) {
+    violations.push({
+      rule: "prompt_leak",
+      detail: `contains prompt/tooling text ("${leak[0]}")`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Feedback for the planner: what to fix before trying again
+ */
+export function describeViolations(violations: PolicyViolation[]): string {
+  return `Content policy violation: ${violations
+    .map((v) => v.detail)
+    .join("; ")}. Rewrite the text without these and try again.`;
+}
+
+function isQuotedTweetUrl(url: string, tweetId: string | undefined): boolean {
+  if (!tweetId) return false;
+  return new RegExp(
+    `^(https?://)?(www\\.)?(x|twitter)\\.com/\\w+/status/${tweetId}\\b`,
+    "i"
+  ).test(url);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -1,6 +1,10 @@
 import Database from "better-sqlite3";
+import { hostname } from "os";
 import logger from "./log";
-import { DatabaseManager, databaseManager } from "./database-manager";
+import { DatabaseManager, getDefaultDatabaseManager } from "./database-manager";
+import { DEFAULT_ACCOUNT_ID } from "./accounts";
+import { getConfig } from "./config";
+import type { Tweet, User } from "./tweet-normalizer";
 
 export interface EngagedMention {
   mention_id: string;
@@ -44,15 +48,66 @@ export interface PendingMentionRow {
   fetched_at: string;
   processed_at?: string;
   referenced_tweets?: string;
+  last_error?: string | null;
+  next_attempt_at?: string | null;
+  intent_type?: string | null;
+  confidence?: number | null;
+}
+
+export interface MentionFailureOutcome {
+  status: "pending" | "failed";
+  retry_count: number;
+  next_attempt_at: string | null;
+}
+
+// Tweet/user cache rows, parsed back into the canonical model
+export interface CachedTweet extends Tweet {
+  first_seen_at: string;
+  last_seen_at: string;
+  metrics_updated_at: string | null; // When public_metrics was captured
+}
+
+export interface CachedUser extends User {
+  first_seen_at: string;
+  last_seen_at: string;
+  metrics_updated_at: string | null;
+}
+
+// Cached tweets and users not seen again for this long are pruned
+const CONTENT_CACHE_RETENTION_DAYS = 30;
+
+export interface ClaimedMentionRow extends PendingMentionRow {
+  worker_id: string;
+  lease_expires_at: string;
+}
+
+/**
+ * Lease owner id for this process; unique across hosts and processes
+ */
+export function getLeaseOwnerId(workerName: string): string {
+  return (
+    process.env.MENTIONS_WORKER_ID ||
+    `${workerName}:${hostname()}:${process.pid}`
+  );
 }
 
 class GlitchBotDB {
   private dbManager: DatabaseManager;
 
-  constructor(dbManager?: DatabaseManager) {
+  // Queue, engagement, checkpoint and cadence rows are scoped to this account
+  readonly accountId: string;
+
+  constructor(
+    dbManager?: DatabaseManager,
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ) {
     // Use provided DatabaseManager or default singleton
-    this.dbManager = dbManager || databaseManager;
-    logger.info("GlitchBotDB initialized with centralized DatabaseManager");
+    this.dbManager = dbManager || getDefaultDatabaseManager();
+    this.accountId = accountId;
+    logger.info(
+      { account_id: accountId },
+      "GlitchBotDB initialized with centralized DatabaseManager"
+    );
   }
 
   // Public getter for database access (needed for specialized queries)
@@ -65,33 +120,33 @@ class GlitchBotDB {
   // Check if a mention was already engaged with
   isMentionEngaged(mentionId: string): boolean {
     const stmt = this.dbManager.database.prepare(
-      "SELECT 1 FROM engaged_mentions WHERE mention_id = ?"
+      "SELECT 1 FROM engaged_mentions WHERE account_id = ? AND mention_id = ?"
     );
-    return !!stmt.get(mentionId);
+    return !!stmt.get(this.accountId, mentionId);
   }
 
   // Record engagement with a mention
   recordMentionEngagement(mentionId: string, action: "reply" | "like"): void {
     const stmt = this.dbManager.database.prepare(
-      "INSERT OR IGNORE INTO engaged_mentions (mention_id, action) VALUES (?, ?)"
+      "INSERT OR IGNORE INTO engaged_mentions (account_id, mention_id, action) VALUES (?, ?, ?)"
     );
-    stmt.run(mentionId, action);
+    stmt.run(this.accountId, mentionId, action);
   }
 
   // Check if a tweet was already quoted
   isTweetQuoted(tweetId: string): boolean {
     const stmt = this.dbManager.database.prepare(
-      "SELECT 1 FROM engaged_quotes WHERE tweet_id = ?"
+      "SELECT 1 FROM engaged_quotes WHERE account_id = ? AND tweet_id = ?"
     );
-    return !!stmt.get(tweetId);
+    return !!stmt.get(this.accountId, tweetId);
   }
 
   // Record quote engagement with a tweet
   recordQuoteEngagement(tweetId: string): void {
     const stmt = this.dbManager.database.prepare(
-      "INSERT OR IGNORE INTO engaged_quotes (tweet_id, action) VALUES (?, 'quote')"
+      "INSERT OR IGNORE INTO engaged_quotes (account_id, tweet_id, action) VALUES (?, ?, 'quote')"
     );
-    stmt.run(tweetId);
+    stmt.run(this.accountId, tweetId);
   }
 
   // Legacy method for backward compatibility - checks both tables
@@ -102,18 +157,18 @@ class GlitchBotDB {
   // Get cadence value (e.g., last_quote_ts, last_reply_ts)
   getCadence(key: string): string | null {
     const stmt = this.dbManager.database.prepare(
-      "SELECT value FROM cadence WHERE key = ?"
+      "SELECT value FROM cadence WHERE account_id = ? AND key = ?"
     );
-    const result = stmt.get(key) as CadenceRecord | undefined;
+    const result = stmt.get(this.accountId, key) as CadenceRecord | undefined;
     return result?.value || null;
   }
 
   // Set cadence value
   setCadence(key: string, value: string): void {
     const stmt = this.dbManager.database.prepare(
-      "INSERT OR REPLACE INTO cadence (key, value) VALUES (?, ?)"
+      "INSERT OR REPLACE INTO cadence (account_id, key, value) VALUES (?, ?, ?)"
     );
-    stmt.run(key, value);
+    stmt.run(this.accountId, key, value);
   }
 
   // Timeline state management methods
@@ -121,9 +176,10 @@ class GlitchBotDB {
   // Get timeline state value (e.g., last_newest_id, last_next_token)
   getTimelineState(key: string): string | null {
     const stmt = this.dbManager.database.prepare(
-      "SELECT value FROM timeline_state WHERE key = ?"
+      "SELECT value FROM timeline_state WHERE account_id = ? AND key = ?"
     );
-    const result = stmt.get(key) as { value: string } | undefined;
+    const result = stmt.get(this.accountId, key) as
+      { value: string } | undefined;
     return result?.value || null;
   }
 
@@ -131,18 +187,19 @@ class GlitchBotDB {
 
   getMentionState(key: string): string | null {
     const stmt = this.dbManager.database.prepare(
-      "SELECT value FROM mention_state WHERE key = ?"
+      "SELECT value FROM mention_state WHERE account_id = ? AND key = ?"
     );
-    const result = stmt.get(key) as { value: string } | undefined;
+    const result = stmt.get(this.accountId, key) as
+      { value: string } | undefined;
     return result?.value || null;
   }
 
   setMentionState(key: string, value: string): void {
     const now = new Date().toISOString();
     const stmt = this.dbManager.database.prepare(
-      "INSERT OR REPLACE INTO mention_state (key, value, updated_at) VALUES (?, ?, ?)"
+      "INSERT OR REPLACE INTO mention_state (account_id, key, value, updated_at) VALUES (?, ?, ?, ?)"
     );
-    stmt.run(key, value, now);
+    stmt.run(this.accountId, key, value, now);
   }
 
   getLastMentionSinceId(): string | null {
@@ -152,27 +209,187 @@ class GlitchBotDB {
   setMentionCheckpoint(newestId: string): void {
     const now = new Date().toISOString();
     const setStmt = this.dbManager.database.prepare(
-      "INSERT OR REPLACE INTO mention_state (key, value, updated_at) VALUES (?, ?, ?)"
+      "INSERT OR REPLACE INTO mention_state (account_id, key, value, updated_at) VALUES (?, ?, ?, ?)"
     );
-    setStmt.run("last_since_id", newestId, now);
-    setStmt.run("last_fetch_time", now, now);
+    setStmt.run(this.accountId, "last_since_id", newestId, now);
+    setStmt.run(this.accountId, "last_fetch_time", now, now);
   }
 
   // Set timeline state value
   setTimelineState(key: string, value: string): void {
     const stmt = this.dbManager.database.prepare(
-      "INSERT OR REPLACE INTO timeline_state (key, value, updated_at) VALUES (?, ?, ?)"
+      "INSERT OR REPLACE INTO timeline_state (account_id, key, value, updated_at) VALUES (?, ?, ?, ?)"
     );
     const now = new Date().toISOString();
-    stmt.run(key, value, now);
+    stmt.run(this.accountId, key, value, now);
   }
 
   // Clear timeline state (useful for resetting pagination)
   clearTimelineState(key: string): void {
     const stmt = this.dbManager.database.prepare(
-      "DELETE FROM timeline_state WHERE key = ?"
+      "DELETE FROM timeline_state WHERE account_id = ? AND key = ?"
     );
-    stmt.run(key);
+    stmt.run(this.accountId, key);
+  }
+
+  // Tweet/user cache
+
+  /**
+   * Upsert fetched tweets with their authors, referenced tweets and those
+   * tweets' authors. Fields missing from a partial payload keep their
+   * cached value; metrics are replaced by the newest snapshot.
+   */
+  cacheTweets(tweets: Tweet[]): void {
+    const now = new Date().toISOString();
+    const upsertTweet = this.dbManager.database.prepare(`
+      INSERT INTO tweets (
+        tweet_id, author_id, text, created_at, referenced_tweets,
+        context_annotations, public_metrics, metrics_updated_at,
+        first_seen_at, last_seen_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(tweet_id) DO UPDATE SET
+        text = excluded.text,
+        referenced_tweets = COALESCE(excluded.referenced_tweets, referenced_tweets),
+        context_annotations = COALESCE(excluded.context_annotations, context_annotations),
+        public_metrics = COALESCE(excluded.public_metrics, public_metrics),
+        metrics_updated_at = COALESCE(excluded.metrics_updated_at, metrics_updated_at),
+        last_seen_at = excluded.last_seen_at
+    `);
+
+    const users: User[] = [];
+    const store = this.dbManager.database.transaction((batch: Tweet[]) => {
+      for (const tweet of batch) {
+        upsertTweet.run(
+          tweet.id,
+          tweet.author_id,
+          tweet.text,
+          tweet.created_at,
+          toJson(tweet.referenced_tweets),
+          toJson(tweet.context_annotations),
+          toJson(tweet.public_metrics),
+          tweet.public_metrics ? now : null,
+          now,
+          now
+        );
+        if (tweet.author) users.push(tweet.author);
+      }
+    });
+
+    const batch = [...tweets];
+    for (const tweet of tweets) {
+      for (const ref of tweet.referenced || []) batch.push(ref.tweet);
+    }
+    store(batch);
+    this.cacheUsers(users);
+  }
+
+  /**
+   * Upsert users; fields missing from a partial payload keep their cached value
+   */
+  cacheUsers(users: User[]): void {
+    const now = new Date().toISOString();
+    const upsertUser = this.dbManager.database.prepare(`
+      INSERT INTO users (
+        user_id, username, name, description, location, profile_image_url,
+        url, verified, verified_type, protected, created_at, pinned_tweet_id,
+        public_metrics, metrics_updated_at, first_seen_at, last_seen_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET
+        username = excluded.username,
+        name = COALESCE(excluded.name, name),
+        description = COALESCE(excluded.description, description),
+        location = COALESCE(excluded.location, location),
+        profile_image_url = COALESCE(excluded.profile_image_url, profile_image_url),
+        url = COALESCE(excluded.url, url),
+        verified = COALESCE(excluded.verified, verified),
+        verified_type = COALESCE(excluded.verified_type, verified_type),
+        protected = COALESCE(excluded.protected, protected),
+        created_at = COALESCE(excluded.created_at, created_at),
+        pinned_tweet_id = COALESCE(excluded.pinned_tweet_id, pinned_tweet_id),
+        public_metrics = COALESCE(excluded.public_metrics, public_metrics),
+        metrics_updated_at = COALESCE(excluded.metrics_updated_at, metrics_updated_at),
+        last_seen_at = excluded.last_seen_at
+    `);
+
+    this.dbManager.database.transaction(() => {
+      for (const user of users) {
+        upsertUser.run(
+          user.id,
+          user.username,
+          user.name ?? null,
+          user.description ?? null,
+          user.location ?? null,
+          user.profile_image_url ?? null,
+          user.url ?? null,
+          toSqlBoolean(user.verified),
+          user.verified_type ?? null,
+          toSqlBoolean(user.protected),
+          user.created_at ?? null,
+          user.pinned_tweet_id ?? null,
+          toJson(user.public_metrics),
+          user.public_metrics ? now : null,
+          now,
+          now
+        );
+      }
+    })();
+  }
+
+  // Cached tweet with its cached author, if we have one
+  getCachedTweet(tweetId: string): CachedTweet | null {
+    const row = this.dbManager.database
+      .prepare("SELECT * FROM tweets WHERE tweet_id = ?")
+      .get(tweetId) as TweetCacheRow | undefined;
+    return row ? this.toCachedTweet(row) : null;
+  }
+
+  // Most recent cached tweets by an author
+  getCachedTweetsByAuthor(authorId: string, limit: number = 20): CachedTweet[] {
+    const rows = this.dbManager.database
+      .prepare(
+        "SELECT * FROM tweets WHERE author_id = ? ORDER BY created_at DESC LIMIT ?"
+      )
+      .all(authorId, limit) as TweetCacheRow[];
+    return rows.map((row) => this.toCachedTweet(row));
+  }
+
+  getCachedUser(userId: string): CachedUser | null {
+    const row = this.dbManager.database
+      .prepare("SELECT * FROM users WHERE user_id = ?")
+      .get(userId) as UserCacheRow | undefined;
+    return row ? toCachedUser(row) : null;
+  }
+
+  // Case-insensitive; a leading @ is ignored
+  getCachedUserByUsername(username: string): CachedUser | null {
+    const row = this.dbManager.database
+      .prepare(
+        "SELECT * FROM users WHERE username = ? COLLATE NOCASE ORDER BY last_seen_at DESC LIMIT 1"
+      )
+      .get(username.replace(/^@/, "")) as UserCacheRow | undefined;
+    return row ? toCachedUser(row) : null;
+  }
+
+  private toCachedTweet(row: TweetCacheRow): CachedTweet {
+    const tweet: CachedTweet = {
+      id: row.tweet_id,
+      text: row.text,
+      author_id: row.author_id,
+      author: this.getCachedUser(row.author_id) ?? undefined,
+      created_at: row.created_at,
+      first_seen_at: row.first_seen_at,
+      last_seen_at: row.last_seen_at,
+      metrics_updated_at: row.metrics_updated_at,
+    };
+    if (row.public_metrics)
+      tweet.public_metrics = JSON.parse(row.public_metrics);
+    if (row.referenced_tweets) {
+      tweet.referenced_tweets = JSON.parse(row.referenced_tweets);
+    }
+    if (row.context_annotations) {
+      tweet.context_annotations = JSON.parse(row.context_annotations);
+    }
+    return tweet;
   }
 
   // Suggested tweet methods for Phase 2B storage
@@ -181,12 +398,13 @@ class GlitchBotDB {
   addSuggestedTweet(suggestedTweet: SuggestedTweet): void {
     const stmt = this.dbManager.database.prepare(`
       INSERT OR REPLACE INTO suggested_tweets (
-        tweet_id, author_id, author_username, content, created_at,
+        account_id, tweet_id, author_id, author_username, content, created_at,
         public_metrics, discovered_via_mention_id, discovery_timestamp, curation_score
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
+      this.accountId,
       suggestedTweet.tweet_id,
       suggestedTweet.author_id,
       suggestedTweet.author_username,
@@ -211,7 +429,7 @@ class GlitchBotDB {
   /**
    * Get recent suggested tweet rows discovered via mentions within the last `windowHours`.
    * Falls back to discovery_timestamp window if mention join yields no rows.
-   * Excludes tweets already in engaged_quotes.
+   * Only this account's suggestions; excludes tweets already in engaged_quotes.
    */
   getRecentSuggestedTweetRowsByMentionWindow(
     windowHours: number,
@@ -243,14 +461,23 @@ class GlitchBotDB {
         FROM suggested_tweets st
         JOIN pending_mentions pm 
           ON pm.mention_id = st.discovered_via_mention_id
-        WHERE pm.created_at >= ?
-          AND st.tweet_id NOT IN (SELECT tweet_id FROM engaged_quotes)
+         AND pm.account_id = st.account_id
+        WHERE st.account_id = ?
+          AND pm.created_at >= ?
+          AND st.tweet_id NOT IN (
+            SELECT tweet_id FROM engaged_quotes WHERE account_id = ?
+          )
         ORDER BY pm.created_at DESC
         LIMIT ?
       `
     );
 
-    let rows = selectSuggestions.all(cutoffIso, limit) as any[];
+    let rows = selectSuggestions.all(
+      this.accountId,
+      cutoffIso,
+      this.accountId,
+      limit
+    ) as any[];
 
     // Fallback: use discovery_timestamp window
     if (!rows || rows.length === 0) {
@@ -265,13 +492,21 @@ class GlitchBotDB {
             st.public_metrics,
             st.discovered_via_mention_id
           FROM suggested_tweets st
-          WHERE st.discovery_timestamp >= ?
-            AND st.tweet_id NOT IN (SELECT tweet_id FROM engaged_quotes)
+          WHERE st.account_id = ?
+            AND st.discovery_timestamp >= ?
+            AND st.tweet_id NOT IN (
+              SELECT tweet_id FROM engaged_quotes WHERE account_id = ?
+            )
           ORDER BY st.discovery_timestamp DESC
           LIMIT ?
         `
       );
-      rows = fallbackSelect.all(cutoffIso, limit) as any[];
+      rows = fallbackSelect.all(
+        this.accountId,
+        cutoffIso,
+        this.accountId,
+        limit
+      ) as any[];
     }
 
     return (rows || []).map((r) => ({
@@ -302,14 +537,27 @@ class GlitchBotDB {
           original_fetch_id,
           fetched_at,
           processed_at,
-          referenced_tweets
+          referenced_tweets,
+          last_error,
+          next_attempt_at,
+          intent_type,
+          confidence
         FROM pending_mentions 
-        WHERE status = ?
+        WHERE account_id = ? AND status = ?
+          AND (status != 'pending'
+               OR next_attempt_at IS NULL
+               OR next_attempt_at <= ?)
         ORDER BY priority DESC, created_at ASC
         LIMIT ?
       `
     );
-    return stmt.all(status, limit) as PendingMentionRow[];
+    // Pending mentions still backing off from a failed reply are hidden
+    return stmt.all(
+      this.accountId,
+      status,
+      new Date().toISOString(),
+      limit
+    ) as PendingMentionRow[];
   }
 
   getSuggestedTweetsForMentions(
@@ -330,11 +578,11 @@ class GlitchBotDB {
           discovery_timestamp,
           discovered_via_mention_id
         FROM suggested_tweets 
-        WHERE discovered_via_mention_id IN (${placeholders})
+        WHERE account_id = ? AND discovered_via_mention_id IN (${placeholders})
         ORDER BY discovery_timestamp DESC
       `
     );
-    return stmt.all(...mentionIds) as Array<
+    return stmt.all(this.accountId, ...mentionIds) as Array<
       SuggestedTweet & { discovered_via_mention_id: string }
     >;
   }
@@ -347,9 +595,10 @@ class GlitchBotDB {
           SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
           SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processing
         FROM pending_mentions
+        WHERE account_id = ?
       `
     );
-    const row = stmt.get() as any;
+    const row = stmt.get(this.accountId) as any;
     return {
       total: row?.total || 0,
       pending: row?.pending || 0,
@@ -372,12 +621,16 @@ class GlitchBotDB {
           original_fetch_id,
           fetched_at,
           processed_at,
-          referenced_tweets
+          referenced_tweets,
+          last_error,
+          next_attempt_at,
+          intent_type,
+          confidence
         FROM pending_mentions
-        WHERE mention_id = ?
+        WHERE account_id = ? AND mention_id = ?
       `
     );
-    return (stmt.get(mentionId) as PendingMentionRow) || null;
+    return (stmt.get(this.accountId, mentionId) as PendingMentionRow) || null;
   }
 
   markMentionProcessed(
@@ -389,46 +642,323 @@ class GlitchBotDB {
       .prepare(
         `
           UPDATE pending_mentions 
-          SET status = 'completed', processed_at = ?, worker_id = ?
-          WHERE mention_id = ?
+          SET status = 'completed', processed_at = ?, worker_id = ?,
+              lease_expires_at = NULL, next_attempt_at = NULL
+          WHERE account_id = ? AND mention_id = ?
         `
       )
-      .run(processedAtIso, workerId, mentionId);
+      .run(processedAtIso, workerId, this.accountId, mentionId);
+  }
+
+  // Mention lease/claim methods
+  //
+  // A claim moves a row to 'processing' with an owner and a lease expiry.
+  // Rows whose lease ran out (crashed worker) are claimable again and are
+  // returned to 'pending' by reapExpiredMentionLeases().
+
+  /**
+   * Atomically claim up to `limit` mentions for `workerId`
+   */
+  claimMentions(
+    workerId: string,
+    limit: number,
+    leaseSeconds: number = getConfig().mentions.lease_seconds
+  ): ClaimedMentionRow[] {
+    const database = this.dbManager.database;
+    const claim = database.transaction(() => {
+      const now = new Date();
+      const nowIso = now.toISOString();
+      const expiresIso = new Date(
+        now.getTime() + leaseSeconds * 1000
+      ).toISOString();
+
+      const candidates = database
+        .prepare(
+          `
+            SELECT mention_id FROM pending_mentions
+            WHERE account_id = ?
+              AND ((status = 'pending'
+                    AND (next_attempt_at IS NULL OR next_attempt_at <= ?))
+                   OR (status = 'processing'
+                       AND (lease_expires_at IS NULL OR lease_expires_at < ?)))
+            ORDER BY priority DESC, created_at ASC
+            LIMIT ?
+          `
+        )
+        .all(this.accountId, nowIso, nowIso, limit) as Array<{
+        mention_id: string;
+      }>;
+
+      if (candidates.length === 0) return [];
+
+      const ids = candidates.map((c) => c.mention_id);
+      const placeholders = ids.map(() => "?").join(",");
+      database
+        .prepare(
+          `
+            UPDATE pending_mentions
+            SET status = 'processing', worker_id = ?, lease_expires_at = ?
+            WHERE account_id = ? AND mention_id IN (${placeholders})
+          `
+        )
+        .run(workerId, expiresIso, this.accountId, ...ids);
+
+      return database
+        .prepare(
+          `
+            SELECT 
+              mention_id,
+              author_id,
+              author_username,
+              text,
+              created_at,
+              status,
+              priority,
+              retry_count,
+              original_fetch_id,
+              fetched_at,
+              processed_at,
+              referenced_tweets,
+              last_error,
+              next_attempt_at,
+              intent_type,
+              confidence,
+              worker_id,
+              lease_expires_at
+            FROM pending_mentions
+            WHERE account_id = ? AND mention_id IN (${placeholders})
+            ORDER BY priority DESC, created_at ASC
+          `
+        )
+        .all(this.accountId, ...ids) as ClaimedMentionRow[];
+    });
+
+    // IMMEDIATE takes the write lock up front so two processes can't pick
+    // the same rows between the SELECT and the UPDATE
+    const claimed = claim.immediate();
+    if (claimed.length > 0) {
+      logger.info(
+        {
+          account_id: this.accountId,
+          worker_id: workerId,
+          count: claimed.length,
+          lease_seconds: leaseSeconds,
+        },
+        "Mentions claimed"
+      );
+    }
+    return claimed;
+  }
+
+  /**
+   * Claim one specific mention; true if `workerId` now holds its lease
+   */
+  claimMention(
+    mentionId: string,
+    workerId: string,
+    leaseSeconds: number = getConfig().mentions.lease_seconds
+  ): boolean {
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const expiresIso = new Date(
+      now.getTime() + leaseSeconds * 1000
+    ).toISOString();
+    const result = this.dbManager.database
+      .prepare(
+        `
+          UPDATE pending_mentions
+          SET status = 'processing', worker_id = ?, lease_expires_at = ?
+          WHERE account_id = ? AND mention_id = ?
+            AND ((status = 'pending'
+                  AND (next_attempt_at IS NULL OR next_attempt_at <= ?))
+                 OR (status = 'processing'
+                     AND (worker_id = ?
+                          OR lease_expires_at IS NULL
+                          OR lease_expires_at < ?)))
+        `
+      )
+      .run(
+        workerId,
+        expiresIso,
+        this.accountId,
+        mentionId,
+        nowIso,
+        workerId,
+        nowIso
+      );
+    return result.changes === 1;
+  }
+
+  /**
+   * Extend a held lease; false if the lease was lost (expired and reclaimed)
+   */
+  heartbeatMentionLease(
+    mentionId: string,
+    workerId: string,
+    leaseSeconds: number = getConfig().mentions.lease_seconds
+  ): boolean {
+    const expiresIso = new Date(Date.now() + leaseSeconds * 1000).toISOString();
+    const result = this.dbManager.database
+      .prepare(
+        `
+          UPDATE pending_mentions
+          SET lease_expires_at = ?
+          WHERE account_id = ? AND mention_id = ?
+            AND status = 'processing' AND worker_id = ?
+        `
+      )
+      .run(expiresIso, this.accountId, mentionId, workerId);
+    return result.changes === 1;
+  }
+
+  /**
+   * Give a claimed mention back to the queue without completing it
+   */
+  releaseMention(mentionId: string, workerId: string): boolean {
+    const result = this.dbManager.database
+      .prepare(
+        `
+          UPDATE pending_mentions
+          SET status = 'pending', worker_id = NULL, lease_expires_at = NULL
+          WHERE account_id = ? AND mention_id = ?
+            AND status = 'processing' AND worker_id = ?
+        `
+      )
+      .run(this.accountId, mentionId, workerId);
+    return result.changes === 1;
+  }
+
+  /**
+   * Record a failed reply: schedule a retry after `backoffMs`, or move the
+   * mention to 'failed' when the error is permanent or attempts are used up
+   */
+  recordMentionFailure(
+    mentionId: string,
+    workerId: string,
+    failure: {
+      error: string;
+      permanent: boolean;
+      deferred?: boolean; // Rate-limited: retry later without using an attempt
+      maxAttempts: number;
+      backoffMs: number;
+    }
+  ): MentionFailureOutcome | null {
+    const database = this.dbManager.database;
+    const record = database.transaction((): MentionFailureOutcome | null => {
+      const row = database
+        .prepare(
+          "SELECT retry_count FROM pending_mentions WHERE account_id = ? AND mention_id = ? AND status = 'processing' AND worker_id = ?"
+        )
+        .get(this.accountId, mentionId, workerId) as
+        { retry_count: number } | undefined;
+      if (!row) return null;
+
+      const retryCount = (row.retry_count || 0) + (failure.deferred ? 0 : 1);
+      const deadLetter =
+        failure.permanent ||
+        (!failure.deferred && retryCount >= failure.maxAttempts);
+      const nextAttemptAt = deadLetter
+        ? null
+        : new Date(Date.now() + failure.backoffMs).toISOString();
+      const status = deadLetter ? "failed" : "pending";
+
+      database
+        .prepare(
+          `
+            UPDATE pending_mentions
+            SET status = ?, retry_count = ?, last_error = ?, next_attempt_at = ?,
+                worker_id = NULL, lease_expires_at = NULL
+            WHERE account_id = ? AND mention_id = ?
+          `
+        )
+        .run(
+          status,
+          retryCount,
+          failure.error,
+          nextAttemptAt,
+          this.accountId,
+          mentionId
+        );
+
+      return {
+        status,
+        retry_count: retryCount,
+        next_attempt_at: nextAttemptAt,
+      };
+    });
+
+    const outcome = record.immediate();
+    if (outcome) {
+      const level = outcome.status === "failed" ? "warn" : "info";
+      logger[level](
+        { mention_id: mentionId, ...outcome, error: failure.error },
+        outcome.status === "failed"
+          ? "Mention moved to failed"
+          : "Mention reply retry scheduled"
+      );
+    }
+    return outcome;
+  }
+
+  /**
+   * Return mentions stuck in 'processing' past their lease to 'pending'
+   */
+  reapExpiredMentionLeases(): number {
+    const result = this.dbManager.database
+      .prepare(
+        `
+          UPDATE pending_mentions
+          SET status = 'pending', worker_id = NULL, lease_expires_at = NULL,
+              last_error = 'lease_expired'
+          WHERE account_id = ? AND status = 'processing'
+            AND (lease_expires_at IS NULL OR lease_expires_at < ?)
+        `
+      )
+      .run(this.accountId, new Date().toISOString());
+    if (result.changes > 0) {
+      logger.warn(
+        { account_id: this.accountId, reaped: result.changes },
+        "Expired mention leases returned to pending"
+      );
+    }
+    return result.changes;
   }
 
   // Get best suggested tweets by score (excluding already quoted tweets)
   getBestSuggestedTweets(limit: number = 10): SuggestedTweet[] {
     const stmt = this.dbManager.database.prepare(`
       SELECT * FROM suggested_tweets 
-      WHERE tweet_id NOT IN (SELECT tweet_id FROM engaged_quotes)
+      WHERE account_id = ? AND tweet_id NOT IN (
+        SELECT tweet_id FROM engaged_quotes WHERE account_id = ?
+      )
       ORDER BY curation_score DESC, discovery_timestamp DESC
       LIMIT ?
     `);
-    return stmt.all(limit) as SuggestedTweet[];
+    return stmt.all(this.accountId, this.accountId, limit) as SuggestedTweet[];
   }
 
   // Get suggested tweet by ID
   getSuggestedTweet(tweetId: string): SuggestedTweet | null {
     const stmt = this.dbManager.database.prepare(
-      "SELECT * FROM suggested_tweets WHERE tweet_id = ?"
+      "SELECT * FROM suggested_tweets WHERE account_id = ? AND tweet_id = ?"
     );
-    return stmt.get(tweetId) as SuggestedTweet | null;
+    return stmt.get(this.accountId, tweetId) as SuggestedTweet | null;
   }
 
   // Check if suggested tweet already exists
   suggestedTweetExists(tweetId: string): boolean {
     const stmt = this.dbManager.database.prepare(
-      "SELECT 1 FROM suggested_tweets WHERE tweet_id = ?"
+      "SELECT 1 FROM suggested_tweets WHERE account_id = ? AND tweet_id = ?"
     );
-    return !!stmt.get(tweetId);
+    return !!stmt.get(this.accountId, tweetId);
   }
 
   // Remove processed suggested tweet
   removeSuggestedTweet(tweetId: string): void {
     const stmt = this.dbManager.database.prepare(
-      "DELETE FROM suggested_tweets WHERE tweet_id = ?"
+      "DELETE FROM suggested_tweets WHERE account_id = ? AND tweet_id = ?"
     );
-    const result = stmt.run(tweetId);
+    const result = stmt.run(this.accountId, tweetId);
     logger.debug(
       { tweet_id: tweetId, deleted: result.changes },
       "Suggested tweet removed"
@@ -447,8 +977,9 @@ class GlitchBotDB {
         COUNT(CASE WHEN curation_score >= 15 THEN 1 END) as high_quality,
         AVG(curation_score) as avg_score
       FROM suggested_tweets
+      WHERE account_id = ?
     `);
-    return stmt.get() as {
+    return stmt.get(this.accountId) as {
       total: number;
       high_quality: number;
       avg_score: number;
@@ -475,9 +1006,25 @@ class GlitchBotDB {
     const quotesDeleted = cleanEngagedQuotes.run(weekAgo).changes;
     const candidatesDeleted = cleanCandidates.run(weekAgo).changes;
 
+    const cacheCutoff = new Date(
+      Date.now() - CONTENT_CACHE_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+    const cachedTweetsDeleted = this.dbManager.database
+      .prepare("DELETE FROM tweets WHERE last_seen_at < ?")
+      .run(cacheCutoff).changes;
+    const cachedUsersDeleted = this.dbManager.database
+      .prepare("DELETE FROM users WHERE last_seen_at < ?")
+      .run(cacheCutoff).changes;
+
     logger.info(
-      { mentionsDeleted, quotesDeleted, candidatesDeleted },
-      "Database cleanup completed for engaged_mentions, engaged_quotes and suggested_tweets"
+      {
+        mentionsDeleted,
+        quotesDeleted,
+        candidatesDeleted,
+        cachedTweetsDeleted,
+        cachedUsersDeleted,
+      },
+      "Database cleanup completed for engaged_mentions, engaged_quotes, suggested_tweets and the tweet/user cache"
     );
   }
 
@@ -488,4 +1035,74 @@ class GlitchBotDB {
   }
 }
 
+interface TweetCacheRow {
+  tweet_id: string;
+  author_id: string;
+  text: string;
+  created_at: string;
+  referenced_tweets: string | null;
+  context_annotations: string | null;
+  public_metrics: string | null;
+  metrics_updated_at: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+interface UserCacheRow {
+  user_id: string;
+  username: string;
+  name: string | null;
+  description: string | null;
+  location: string | null;
+  profile_image_url: string | null;
+  url: string | null;
+  verified: number | null;
+  verified_type: string | null;
+  protected: number | null;
+  created_at: string | null;
+  pinned_tweet_id: string | null;
+  public_metrics: string | null;
+  metrics_updated_at: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// Optional user columns copied back when set
+const USER_TEXT_COLUMNS = [
+  "name",
+  "description",
+  "location",
+  "profile_image_url",
+  "url",
+  "verified_type",
+  "created_at",
+  "pinned_tweet_id",
+] as const;
+
+function toCachedUser(row: UserCacheRow): CachedUser {
+  const user: CachedUser = {
+    id: row.user_id,
+    username: row.username,
+    first_seen_at: row.first_seen_at,
+    last_seen_at: row.last_seen_at,
+    metrics_updated_at: row.metrics_updated_at,
+  };
+  for (const column of USER_TEXT_COLUMNS) {
+    const value = row[column];
+    if (value !== null) user[column] = value;
+  }
+  if (row.verified !== null) user.verified = row.verified === 1;
+  if (row.protected !== null) user.protected = row.protected === 1;
+  if (row.public_metrics) user.public_metrics = JSON.parse(row.public_metrics);
+  return user;
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function toSqlBoolean(value: boolean | undefined): number | null {
+  return value === undefined ? null : value ? 1 : 0;
+}
+
 export default GlitchBotDB;
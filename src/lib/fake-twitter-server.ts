@@ -0,0 +1,564 @@
+import { readFileSync } from "fs";
+import type { TwitterTransport, TwitterV2Transport } from "./twitter-transport";
+import appLogger from "./log";
+import { MAX_TWEET_LENGTH, getTweetLength } from "./tweet-length";
+
+/**
+ * Fake Twitter Server
+ *
+ * In-process, in-memory stand-in for the handful of v2 endpoints GlitchBot uses
+ * (me, mentions, home timeline, tweet, reply). Selected with TWITTER_TRANSPORT=fake
+ * so whole worker cycles can run in tests and local dev without network access.
+ *
+ * Tweet IDs are snowflake-shaped and increase with time, so since_id checkpoints
+ * stored by earlier runs keep working against freshly seeded data.
+ */
+
+export type FakeTwitterMethod = keyof TwitterV2Transport;
+
+export interface FakeTwitterUser {
+  id: string;
+  username: string;
+  name?: string;
+  description?: string;
+  verified?: boolean;
+  public_metrics?: {
+    followers_count: number;
+    following_count: number;
+    tweet_count: number;
+    listed_count: number;
+  };
+}
+
+export interface FakeTweet {
+  id: string;
+  text: string;
+  author_id: string;
+  created_at: string;
+  public_metrics: {
+    retweet_count: number;
+    like_count: number;
+    reply_count: number;
+    quote_count: number;
+    bookmark_count: number;
+    impression_count: number;
+  };
+  referenced_tweets?: Array<{ type: string; id: string }>;
+  context_annotations?: Array<{
+    domain: { id: string; name: string; description?: string };
+    entity: { id: string; name: string; description?: string };
+  }>;
+  in_reply_to_tweet_id?: string;
+  deleted?: boolean;
+}
+
+export interface FakeTweetInput {
+  text: string;
+  author: string; // username; created on first use
+  created_at?: string;
+  public_metrics?: Partial<FakeTweet["public_metrics"]>;
+  referenced_tweets?: Array<{ type: string; id: string }>;
+  context_annotations?: FakeTweet["context_annotations"];
+  in_reply_to_tweet_id?: string;
+}
+
+export interface FakeTwitterFixture {
+  self?: Partial<FakeTwitterUser>;
+  users?: Array<Partial<FakeTwitterUser> & { username: string }>;
+  timeline?: FakeTweetInput[];
+  mentions?: Array<FakeTweetInput & { quoting?: FakeTweetInput }>;
+}
+
+export interface FakeTwitterServerOptions {
+  selfUsername?: string;
+  requestsPerWindow?: number;
+}
+
+// Twitter's snowflake epoch (2010-11-04)
+const TWITTER_EPOCH_MS = 1288834974657n;
+const RATE_LIMIT_WINDOW_SECONDS = 15 * 60;
+const DEFAULT_REQUESTS_PER_WINDOW = 180;
+
+/**
+ * Build an error shaped like game-twitter-node's ApiResponseError
+ */
+export function createFakeApiError(
+  code: number,
+  detail: string,
+  extra: Record<string, any> = {}
+): Error {
+  const error = new Error(`Request failed with code ${code}`);
+  (error as any).code = code;
+  (error as any).detail = detail;
+  (error as any).data = {
+    title: extra.title || "Fake API Error",
+    detail,
+    status: code,
+  };
+  Object.assign(error, extra);
+  return error;
+}
+
+export class FakeTwitterServer {
+  private users = new Map<string, FakeTwitterUser>();
+  private tweets = new Map<string, FakeTweet>();
+  private timelineIds: string[] = [];
+  private queuedErrors = new Map<FakeTwitterMethod, Error[]>();
+  private calls = new Map<FakeTwitterMethod, number[]>();
+  private lastId = 0n;
+  private selfId: string;
+  private requestsPerWindow: number;
+  private fixtureLoaded = false;
+
+  constructor(options: FakeTwitterServerOptions = {}) {
+    this.requestsPerWindow =
+      options.requestsPerWindow || DEFAULT_REQUESTS_PER_WINDOW;
+    this.selfId = this.ensureUser(
+      options.selfUsername || process.env.BOT_TWITTER_USERNAME || "glitchbot_ai"
+    ).id;
+  }
+
+  /**
+   * The account the fake token authenticates as
+   */
+  get selfUser(): FakeTwitterUser {
+    return this.users.get(this.selfId)!;
+  }
+
+  /**
+   * Drop all users, tweets, queued errors and call counters
+   */
+  reset(selfUsername?: string): void {
+    const username = selfUsername || this.selfUser.username;
+    this.users.clear();
+    this.tweets.clear();
+    this.timelineIds = [];
+    this.queuedErrors.clear();
+    this.calls.clear();
+    this.selfId = this.ensureUser(username).id;
+  }
+
+  /**
+   * Create (or update) a user by username
+   */
+  addUser(
+    user: Partial<FakeTwitterUser> & { username: string }
+  ): FakeTwitterUser {
+    const existing = this.ensureUser(user.username);
+    const updated: FakeTwitterUser = { ...existing, ...user, id: existing.id };
+    this.users.set(updated.id, updated);
+    return updated;
+  }
+
+  /**
+   * Store a tweet without placing it anywhere in particular
+   */
+  addTweet(input: FakeTweetInput): FakeTweet {
+    const author = this.ensureUser(input.author);
+    const tweet: FakeTweet = {
+      id: this.nextId(),
+      text: input.text,
+      author_id: author.id,
+      created_at: input.created_at || new Date().toISOString(),
+      public_metrics: {
+        retweet_count: 0,
+        like_count: 0,
+        reply_count: 0,
+        quote_count: 0,
+        bookmark_count: 0,
+        impression_count: 0,
+        ...input.public_metrics,
+      },
+    };
+    if (input.referenced_tweets)
+      tweet.referenced_tweets = input.referenced_tweets;
+    if (input.context_annotations)
+      tweet.context_annotations = input.context_annotations;
+    if (input.in_reply_to_tweet_id)
+      tweet.in_reply_to_tweet_id = input.in_reply_to_tweet_id;
+
+    this.tweets.set(tweet.id, tweet);
+    return tweet;
+  }
+
+  /**
+   * Add a tweet to the bot's home timeline
+   */
+  addTimelineTweet(input: FakeTweetInput): FakeTweet {
+    const tweet = this.addTweet(input);
+    this.timelineIds.push(tweet.id);
+    return tweet;
+  }
+
+  /**
+   * Add a mention of the bot, optionally quoting another (new) tweet
+   */
+  addMention(input: FakeTweetInput & { quoting?: FakeTweetInput }): {
+    mention: FakeTweet;
+    quoted?: FakeTweet;
+  } {
+    const handle = `@${this.selfUser.username}`;
+    const text = input.text.toLowerCase().includes(handle.toLowerCase())
+      ? input.text
+      : `${handle} ${input.text}`;
+
+    if (!input.quoting) {
+      return { mention: this.addTweet({ ...input, text }) };
+    }
+
+    const quoted = this.addTweet(input.quoting);
+    const mention = this.addTweet({
+      ...input,
+      text,
+      referenced_tweets: [{ type: "quoted", id: quoted.id }],
+    });
+    return { mention, quoted };
+  }
+
+  /**
+   * Mark a tweet as deleted; replies to it fail like the real API
+   */
+  deleteTweet(tweetId: string): void {
+    const tweet = this.tweets.get(tweetId);
+    if (tweet) tweet.deleted = true;
+  }
+
+  /**
+   * Make the next call to `method` throw the given error (FIFO per method)
+   */
+  failNext(method: FakeTwitterMethod, error: Error): void {
+    const queue = this.queuedErrors.get(method) || [];
+    queue.push(error);
+    this.queuedErrors.set(method, queue);
+  }
+
+  getTweet(tweetId: string): FakeTweet | undefined {
+    return this.tweets.get(tweetId);
+  }
+
+  getUser(userId: string): FakeTwitterUser | undefined {
+    return this.users.get(userId);
+  }
+
+  /**
+   * Everything the bot has posted (tweets, replies, quotes), oldest first
+   */
+  getPostedTweets(): FakeTweet[] {
+    return Array.from(this.tweets.values()).filter(
+      (t) => t.author_id === this.selfId
+    );
+  }
+
+  /**
+   * Number of calls made to a method in the current rate-limit window
+   */
+  getCallCount(method: FakeTwitterMethod): number {
+    return this.windowCalls(method).length;
+  }
+
+  /**
+   * Seed state from a fixture object
+   */
+  seed(fixture: FakeTwitterFixture): void {
+    if (
+      fixture.self?.username &&
+      fixture.self.username !== this.selfUser.username
+    ) {
+      this.reset(fixture.self.username);
+    }
+    if (fixture.self)
+      this.addUser({ ...fixture.self, username: this.selfUser.username });
+    for (const user of fixture.users || []) this.addUser(user);
+    for (const tweet of fixture.timeline || []) this.addTimelineTweet(tweet);
+    for (const mention of fixture.mentions || []) this.addMention(mention);
+  }
+
+  /**
+   * Transport bound to this server. Seeds from FAKE_TWITTER_FIXTURE once, if set.
+   */
+  createTransport(): TwitterTransport {
+    this.loadFixtureFromEnv();
+
+    const v2: TwitterV2Transport = {
+      me: async () =>
+        this.handle("me", () => ({ data: this.publicUser(this.selfUser) })),
+      userMentionTimeline: async (userId, options = {}) =>
+        this.handle("userMentionTimeline", () =>
+          this.mentionTimeline(userId, options)
+        ),
+      homeTimeline: async (options = {}) =>
+        this.handle("homeTimeline", () => this.homeTimeline(options)),
+      tweets: async (ids) =>
+        this.handle("tweets", () => this.lookupTweets(ids)),
+      tweet: async (payload) =>
+        this.handle("tweet", () =>
+          this.postTweet(
+            typeof payload === "string" ? { text: payload } : payload
+          )
+        ),
+      reply: async (text, inReplyToTweetId) =>
+        this.handle("reply", () =>
+          this.postTweet({
+            text,
+            reply: { in_reply_to_tweet_id: inReplyToTweetId },
+          })
+        ),
+    };
+
+    return { name: "fake", v2 };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Endpoint implementations
+  // ---------------------------------------------------------------------------
+
+  private mentionTimeline(userId: string, options: Record<string, any>): any {
+    if (userId !== this.selfId) {
+      throw createFakeApiError(
+        403,
+        "Fake server only serves the bot's own mentions"
+      );
+    }
+
+    const handle = `@${this.selfUser.username}`.toLowerCase();
+    const sinceId = options.since_id ? BigInt(options.since_id) : undefined;
+    const maxResults = Number(options.max_results) || 10;
+
+    const mentions = this.sortedNewestFirst(
+      Array.from(this.tweets.values()).filter(
+        (t) =>
+          !t.deleted &&
+          t.author_id !== this.selfId &&
+          t.text.toLowerCase().includes(handle) &&
+          (sinceId === undefined || BigInt(t.id) > sinceId)
+      )
+    ).slice(0, maxResults);
+
+    return this.timelineResponse(mentions, undefined);
+  }
+
+  private homeTimeline(options: Record<string, any>): any {
+    const excludeReplies = String(options.exclude || "").includes("replies");
+    const maxResults = Number(options.max_results) || 10;
+    const offset = options.pagination_token
+      ? Number(options.pagination_token)
+      : 0;
+
+    const candidates = this.sortedNewestFirst(
+      Array.from(this.tweets.values()).filter(
+        (t) =>
+          !t.deleted &&
+          (this.timelineIds.includes(t.id) || t.author_id === this.selfId) &&
+          !(excludeReplies && t.in_reply_to_tweet_id)
+      )
+    );
+
+    const page = candidates.slice(offset, offset + maxResults);
+    const nextToken =
+      offset + maxResults < candidates.length
+        ? String(offset + maxResults)
+        : undefined;
+
+    return this.timelineResponse(page, nextToken);
+  }
+
+  private lookupTweets(ids: string[]): any {
+    const found = ids
+      .map((id) => this.tweets.get(id))
+      .filter((t): t is FakeTweet => !!t && !t.deleted);
+    const { data } = this.timelineResponse(found, undefined);
+    return { data: { data: data.data, includes: data.includes } };
+  }
+
+  private postTweet(payload: Record<string, any>): any {
+    const text = String(payload.text || "");
+    if (!text) {
+      throw createFakeApiError(400, "Tweet text is required");
+    }
+    if (getTweetLength(text) > MAX_TWEET_LENGTH) {
+      throw createFakeApiError(403, "Your Tweet text is too long.");
+    }
+
+    const duplicate = this.getPostedTweets().some((t) => t.text === text);
+    if (duplicate) {
+      throw createFakeApiError(
+        403,
+        "You are not allowed to create a Tweet with duplicate content."
+      );
+    }
+
+    const replyTo: string | undefined = payload.reply?.in_reply_to_tweet_id;
+    const quoteOf: string | undefined = payload.quote_tweet_id;
+    for (const targetId of [replyTo, quoteOf]) {
+      if (!targetId) continue;
+      const target = this.tweets.get(targetId);
+      if (!target || target.deleted) {
+        throw createFakeApiError(
+          400,
+          "You attempted to reply to a Tweet that is deleted or not visible to you."
+        );
+      }
+    }
+
+    const referenced: Array<{ type: string; id: string }> = [];
+    if (replyTo) referenced.push({ type: "replied_to", id: replyTo });
+    if (quoteOf) referenced.push({ type: "quoted", id: quoteOf });
+
+    const input: FakeTweetInput = { text, author: this.selfUser.username };
+    if (referenced.length > 0) input.referenced_tweets = referenced;
+    if (replyTo) input.in_reply_to_tweet_id = replyTo;
+    const tweet = this.addTweet(input);
+
+    if (replyTo) this.tweets.get(replyTo)!.public_metrics.reply_count++;
+    if (quoteOf) this.tweets.get(quoteOf)!.public_metrics.quote_count++;
+
+    return { data: { id: tweet.id, text: tweet.text } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Shared call path: queued errors, rate-limit window accounting, logging
+   */
+  private handle(method: FakeTwitterMethod, fn: () => any): any {
+    const queued = this.queuedErrors.get(method);
+    if (queued && queued.length > 0) {
+      const error = queued.shift()!;
+      appLogger.debug(
+        { method, code: (error as any).code },
+        "FakeTwitter: injected error"
+      );
+      throw error;
+    }
+
+    const calls = this.windowCalls(method);
+    const reset = this.windowReset();
+    if (calls.length >= this.requestsPerWindow) {
+      throw createFakeApiError(429, "Too Many Requests", {
+        rateLimit: { limit: this.requestsPerWindow, remaining: 0, reset },
+      });
+    }
+    calls.push(Date.now());
+    this.calls.set(method, calls);
+
+    const result = fn();
+    result.rateLimit = {
+      limit: this.requestsPerWindow,
+      remaining: this.requestsPerWindow - calls.length,
+      reset,
+    };
+    appLogger.debug({ method }, "FakeTwitter: request served");
+    return result;
+  }
+
+  private timelineResponse(
+    tweets: FakeTweet[],
+    nextToken: string | undefined
+  ): any {
+    const referencedIds = new Set<string>();
+    for (const t of tweets) {
+      for (const ref of t.referenced_tweets || []) referencedIds.add(ref.id);
+    }
+    const includedTweets = Array.from(referencedIds)
+      .map((id) => this.tweets.get(id))
+      .filter((t): t is FakeTweet => !!t && !t.deleted);
+
+    const userIds = new Set<string>();
+    for (const t of [...tweets, ...includedTweets]) userIds.add(t.author_id);
+
+    const meta: Record<string, any> = { result_count: tweets.length };
+    if (tweets.length > 0) {
+      meta.newest_id = tweets[0]!.id;
+      meta.oldest_id = tweets[tweets.length - 1]!.id;
+    }
+    if (nextToken) meta.next_token = nextToken;
+
+    return {
+      data: {
+        data: tweets.map((t) => this.publicTweet(t)),
+        includes: {
+          users: Array.from(userIds)
+            .map((id) => this.users.get(id))
+            .filter((u): u is FakeTwitterUser => !!u)
+            .map((u) => this.publicUser(u)),
+          tweets: includedTweets.map((t) => this.publicTweet(t)),
+        },
+        meta,
+      },
+    };
+  }
+
+  private publicTweet(tweet: FakeTweet): Record<string, any> {
+    const { deleted: _deleted, in_reply_to_tweet_id: _reply, ...rest } = tweet;
+    return { ...rest, public_metrics: { ...tweet.public_metrics } };
+  }
+
+  private publicUser(user: FakeTwitterUser): Record<string, any> {
+    return {
+      public_metrics: {
+        followers_count: 0,
+        following_count: 0,
+        tweet_count: 0,
+        listed_count: 0,
+      },
+      ...user,
+    };
+  }
+
+  private ensureUser(username: string): FakeTwitterUser {
+    const clean = username.replace(/^@/, "");
+    for (const user of this.users.values()) {
+      if (user.username.toLowerCase() === clean.toLowerCase()) return user;
+    }
+    const user: FakeTwitterUser = {
+      id: this.nextId(),
+      username: clean,
+      name: clean,
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  private nextId(): string {
+    const snowflake = (BigInt(Date.now()) - TWITTER_EPOCH_MS) << 22n;
+    this.lastId = snowflake > this.lastId ? snowflake : this.lastId + 1n;
+    return this.lastId.toString();
+  }
+
+  private sortedNewestFirst(tweets: FakeTweet[]): FakeTweet[] {
+    return tweets.sort((a, b) => (BigInt(b.id) > BigInt(a.id) ? 1 : -1));
+  }
+
+  private windowCalls(method: FakeTwitterMethod): number[] {
+    const windowStart = Date.now() - RATE_LIMIT_WINDOW_SECONDS * 1000;
+    return (this.calls.get(method) || []).filter((ts) => ts > windowStart);
+  }
+
+  private windowReset(): number {
+    return Math.floor(Date.now() / 1000) + RATE_LIMIT_WINDOW_SECONDS;
+  }
+
+  private loadFixtureFromEnv(): void {
+    const fixturePath = process.env.FAKE_TWITTER_FIXTURE;
+    if (this.fixtureLoaded || !fixturePath) return;
+    this.fixtureLoaded = true;
+
+    try {
+      this.seed(JSON.parse(readFileSync(fixturePath, "utf-8")));
+      appLogger.info(
+        { fixturePath, tweets: this.tweets.size, users: this.users.size },
+        "FakeTwitter: fixture loaded"
+      );
+    } catch (error: any) {
+      appLogger.error(
+        { fixturePath, error: error.message },
+        "FakeTwitter: failed to load fixture"
+      );
+    }
+  }
+}
+
+// Shared instance used when TWITTER_TRANSPORT=fake
+export const fakeTwitterServer = new FakeTwitterServer();
@@ -0,0 +1,167 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DEFAULT_CONFIG_FILE,
+  diffConfig,
+  getLoadedConfig,
+  loadConfig,
+  setConfig,
+} from "./config";
+import { AccountConfig } from "./accounts";
+import appLogger from "./log";
+
+/**
+ * Runtime Reload
+ *
+ * Polls the config file and any persona description files. A change only
+ * marks the reloader dirty; the step loop calls applyPending() between steps,
+ * so a reload never lands in the middle of a function call. Every reload is
+ * logged with a per-key diff, and an invalid config file keeps the previous
+ * config.
+ *
+ * `generation` increases on every applied reload (config changed or a watched
+ * file was edited); loops compare it to decide when to rebuild descriptions.
+ */
+
+export interface ReloaderOptions {
+  configFile?: string; // Defaults to the file the current config came from
+  watchFiles?: string[]; // Extra files, e.g. account description files
+  pollIntervalMs?: number;
+}
+
+export interface ReloadResult {
+  generation: number;
+  files: string[]; // Watched files that changed
+  changes: string[]; // diffConfig() lines, empty if only descriptions changed
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+export class RuntimeReloader {
+  readonly files: string[];
+  private pollIntervalMs: number;
+  private changed = new Set<string>();
+  private watching = false;
+  private _generation = 0;
+
+  constructor(options: ReloaderOptions = {}) {
+    const configFile =
+      options.configFile ||
+      getLoadedConfig().file ||
+      process.env.GLITCHBOT_CONFIG_FILE ||
+      DEFAULT_CONFIG_FILE;
+    this.files = [
+      ...new Set(
+        [configFile, ...(options.watchFiles || [])].map((f) => path.resolve(f))
+      ),
+    ];
+    this.pollIntervalMs = options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  get generation(): number {
+    return this._generation;
+  }
+
+  get configFile(): string {
+    return this.files[0]!;
+  }
+
+  /**
+   * Start polling; files that do not exist yet are picked up once created
+   */
+  start(): void {
+    if (this.watching) return;
+    this.watching = true;
+    for (const file of this.files) {
+      fs.watchFile(file, { interval: this.pollIntervalMs }, (curr, prev) => {
+        if (curr.mtimeMs !== prev.mtimeMs) {
+          this.markChanged(file);
+        }
+      });
+    }
+    appLogger.info(
+      { files: this.files },
+      "Watching runtime config for changes"
+    );
+  }
+
+  stop(): void {
+    if (!this.watching) return;
+    for (const file of this.files) {
+      fs.unwatchFile(file);
+    }
+    this.watching = false;
+  }
+
+  markChanged(file: string = this.configFile): void {
+    this.changed.add(path.resolve(file));
+  }
+
+  get hasPending(): boolean {
+    return this.changed.size > 0;
+  }
+
+  /**
+   * Apply pending file changes: re-read and validate the config, swap it in
+   * and log the diff. Returns null when nothing changed or the new config is
+   * invalid (the error is logged and the previous config stays active).
+   */
+  applyPending(): ReloadResult | null {
+    if (!this.hasPending) return null;
+    const files = [...this.changed];
+    this.changed.clear();
+
+    const previous = getLoadedConfig();
+    let changes: string[] = [];
+    try {
+      const next = loadConfig({ file: this.configFile });
+      changes = diffConfig(previous.config, next.config);
+      setConfig(next);
+    } catch (error: any) {
+      console.error(`❌ Config reload rejected: ${error.message}`);
+      appLogger.error(
+        { files, error: error.message },
+        "Config reload rejected, keeping previous configuration"
+      );
+      // Persona edits still apply when only the config file is broken
+      if (files.every((file) => file === this.configFile)) {
+        return null;
+      }
+    }
+
+    this._generation++;
+    console.log(
+      `🔄 Reloaded runtime config (generation ${this._generation}): ${
+        changes.length > 0 ? `${changes.length} change(s)` : "no config changes"
+      }`
+    );
+    for (const change of changes) {
+      console.log(`   ${change}`);
+    }
+    appLogger.info(
+      { generation: this._generation, files, changes },
+      "Runtime config reloaded"
+    );
+    return { generation: this._generation, files, changes };
+  }
+}
+
+/**
+ * Started reloader for the entry points, watching the config file and the
+ * accounts' description files; undefined when GLITCHBOT_HOT_RELOAD=false
+ */
+export function startRuntimeReloader(
+  accounts: AccountConfig[],
+  env: NodeJS.ProcessEnv = process.env
+): RuntimeReloader | undefined {
+  if (env.GLITCHBOT_HOT_RELOAD === "false") {
+    return undefined;
+  }
+  const watchFiles = accounts
+    .map((account) => account.descriptionFile)
+    .filter((file): file is string => Boolean(file));
+  const reloader = new RuntimeReloader({ watchFiles });
+  reloader.start();
+  console.log(`🔄 Hot reload: watching ${reloader.files.join(", ")}`);
+  return reloader;
+}
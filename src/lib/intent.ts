@@ -0,0 +1,182 @@
+import logger from "./log";
+import { getConfig } from "./config";
+
+// Mention intent classification
+//
+// Runs at fetch time to fill pending_mentions.intent_type/confidence/priority.
+// The default classifier is rule-based; a model-backed classifier can be
+// plugged in with setIntentClassifier() as long as it stays synchronous.
+
+export type MentionIntent =
+  | "owner_command"
+  | "question"
+  | "content_share"
+  | "bare_tag"
+  | "spam"
+  | "conversation";
+
+export interface MentionIntentInput {
+  text: string;
+  author_username?: string | undefined;
+  author_followers?: number | undefined;
+  has_referenced_tweets?: boolean | undefined;
+}
+
+export interface IntentClassification {
+  intent: MentionIntent;
+  confidence: number; // 0-1
+  priority: number; // 1-10, higher is processed first
+  signals: string[];
+}
+
+export interface IntentClassifier {
+  readonly name: string;
+  classify(input: MentionIntentInput): IntentClassification;
+}
+
+// Base queue priority per intent (before follower weighting)
+export const INTENT_BASE_PRIORITY: Record<MentionIntent, number> = {
+  owner_command: 10,
+  question: 7,
+  content_share: 6,
+  conversation: 5,
+  bare_tag: 3,
+  spam: 1,
+};
+
+const SPAM_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(giveaway|airdrop|free mint|whitelist spot)\b/i, "promo_terms"],
+  [/\b(dm me|check (my|our) (bio|profile)|link in bio)\b/i, "dm_bait"],
+  [/\b(100x|1000x|pump|moon(ing)?|guaranteed)\b/i, "pump_terms"],
+  [/\bt\.me\/|\bwa\.me\//i, "messenger_link"],
+  [/\b(claim|connect) (your )?(wallet|tokens?|reward)/i, "wallet_claim"],
+];
+
+const SHARE_PATTERNS =
+  /\b(check (this|it) out|look at this|thoughts on|have you seen|take a look|worth a read|found this)\b/i;
+
+const QUESTION_OPENERS =
+  /^(who|what|when|where|why|how|which|can|could|would|should|is|are|do|does|did|will)\b/i;
+
+// Strip @handles and URLs to get what the user actually wrote
+export const extractMentionSubstance = (text: string): string =>
+  text
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/@\w+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Follower weighting: established accounts get a small bump
+export const followerPriorityBonus = (followers?: number): number => {
+  if (!followers) return 0;
+  if (followers >= 50000) return 2;
+  if (followers >= 10000) return 1;
+  return 0;
+};
+
+const clampPriority = (value: number): number =>
+  Math.max(1, Math.min(10, Math.round(value)));
+
+export const ruleBasedIntentClassifier: IntentClassifier = {
+  name: "rules",
+  classify(input: MentionIntentInput): IntentClassification {
+    const text = input.text || "";
+    const substance = extractMentionSubstance(text);
+    const words = substance.split(" ").filter(Boolean);
+    const signals: string[] = [];
+
+    const isOwner =
+      !!input.author_username &&
+      input.author_username.toLowerCase() ===
+        getConfig().owner_handle.toLowerCase();
+    if (isOwner) {
+      signals.push("owner_author");
+      return {
+        intent: "owner_command",
+        confidence: 0.95,
+        priority: INTENT_BASE_PRIORITY.owner_command,
+        signals,
+      };
+    }
+
+    // Spam first so promos phrased as questions don't jump the queue
+    for (const [pattern, signal] of SPAM_PATTERNS) {
+      if (pattern.test(text)) signals.push(signal);
+    }
+    const handleCount = (text.match(/@\w+/g) || []).length;
+    if (handleCount >= 6) signals.push("mass_tagging");
+    const cashtagCount = (text.match(/\$[a-z]{2,10}\b/gi) || []).length;
+    if (cashtagCount >= 3) signals.push("cashtag_stuffing");
+    if (signals.length > 0) {
+      return {
+        intent: "spam",
+        confidence: Math.min(0.5 + 0.2 * signals.length, 0.95),
+        priority: INTENT_BASE_PRIORITY.spam,
+        signals,
+      };
+    }
+
+    const bonus = followerPriorityBonus(input.author_followers);
+    if (bonus > 0) signals.push(`followers+${bonus}`);
+
+    const classified = (
+      intent: MentionIntent,
+      confidence: number
+    ): IntentClassification => ({
+      intent,
+      confidence,
+      priority: clampPriority(INTENT_BASE_PRIORITY[intent] + bonus),
+      signals,
+    });
+
+    if (substance.includes("?") || QUESTION_OPENERS.test(substance)) {
+      signals.push(substance.includes("?") ? "question_mark" : "wh_opener");
+      return classified("question", substance.includes("?") ? 0.85 : 0.65);
+    }
+
+    const hasLink = /https?:\/\/\S+/.test(text);
+    if (input.has_referenced_tweets || hasLink || SHARE_PATTERNS.test(text)) {
+      if (input.has_referenced_tweets) signals.push("referenced_tweet");
+      if (hasLink) signals.push("link");
+      if (SHARE_PATTERNS.test(text)) signals.push("share_phrase");
+      return classified(
+        "content_share",
+        input.has_referenced_tweets || hasLink ? 0.8 : 0.6
+      );
+    }
+
+    if (words.length <= 2) {
+      signals.push("no_substance");
+      return classified("bare_tag", words.length === 0 ? 0.9 : 0.7);
+    }
+
+    return classified("conversation", 0.5);
+  },
+};
+
+let activeClassifier: IntentClassifier = ruleBasedIntentClassifier;
+
+// Swap the classifier used at fetch time (pass undefined to restore rules)
+export const setIntentClassifier = (
+  classifier: IntentClassifier | undefined
+): void => {
+  activeClassifier = classifier || ruleBasedIntentClassifier;
+  logger.info({ classifier: activeClassifier.name }, "Intent classifier set");
+};
+
+export const getIntentClassifier = (): IntentClassifier => activeClassifier;
+
+// Classify with the active classifier, falling back to rules on error
+export const classifyMentionIntent = (
+  input: MentionIntentInput
+): IntentClassification => {
+  try {
+    return activeClassifier.classify(input);
+  } catch (error: any) {
+    logger.warn(
+      { classifier: activeClassifier.name, error: error.message },
+      "Intent classifier failed, using rules"
+    );
+    return ruleBasedIntentClassifier.classify(input);
+  }
+};
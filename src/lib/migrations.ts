@@ -0,0 +1,864 @@
+import Database from "better-sqlite3";
+import appLogger from "./log";
+
+/**
+ * Versioned Schema Migrations
+ *
+ * Every schema change is a numbered migration with `up` and `down` steps.
+ * Applied versions are recorded in `schema_migrations`; DatabaseManager runs
+ * pending migrations at startup and refuses to open a database whose schema
+ * is newer than this build knows about.
+ *
+ * Add new migrations to the end of MIGRATIONS with the next version number.
+ * Never edit a migration that has shipped.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  down: (db: Database.Database) => void;
+}
+
+export interface MigrationStep {
+  version: number;
+  name: string;
+  direction: "up" | "down";
+}
+
+export interface MigrationOptions {
+  targetVersion?: number; // Defaults to the latest known version
+  dryRun?: boolean; // Report the plan without touching the database
+  migrations?: Migration[];
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStep[];
+  dryRun: boolean;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+/**
+ * Add a column unless it already exists (databases created before migrations
+ * were introduced may already carry columns added by the old ad hoc ALTERs)
+ */
+export function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+    name: string;
+  }>;
+  if (columns.some((c) => c.name === column)) return false;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+/**
+ * Recreate `table` with a new definition, copying `columns` across
+ * (indexes on the old table are dropped with it)
+ */
+function rebuildTable(
+  db: Database.Database,
+  table: string,
+  definition: string,
+  columns: string[],
+  where?: string
+): void {
+  const list = columns.join(", ");
+  db.exec(`
+    CREATE TABLE ${table}__rebuild (${definition});
+    INSERT INTO ${table}__rebuild (${list})
+      SELECT ${list} FROM ${table}${where ? ` WHERE ${where}` : ""};
+    DROP TABLE ${table};
+    ALTER TABLE ${table}__rebuild RENAME TO ${table};
+  `);
+}
+
+// Table shapes before (unscoped) and after (scoped) migration 4
+const PENDING_MENTION_COLUMNS = `
+  author_id TEXT NOT NULL,
+  author_username TEXT NOT NULL,
+  text TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  processed_at TIMESTAMP,
+  status TEXT DEFAULT 'pending' CHECK(status IN ('pending','processing','completed','failed')),
+  priority INTEGER DEFAULT 5,
+  retry_count INTEGER DEFAULT 0,
+  last_error TEXT,
+  intent_type TEXT,
+  confidence REAL,
+  original_fetch_id TEXT,
+  worker_id TEXT,
+  referenced_tweets TEXT,
+  lease_expires_at TEXT,
+  next_attempt_at TEXT`;
+
+const RATE_LIMIT_COLUMNS = `
+  window_type TEXT NOT NULL,
+  window_start INTEGER NOT NULL,
+  requests_used INTEGER DEFAULT 0,
+  worker_usage TEXT DEFAULT '{}',
+  twitter_reset_time INTEGER`;
+
+const ACCOUNT_ID_COLUMN = "account_id TEXT NOT NULL DEFAULT 'default'";
+
+// suggested_tweets before and after migration 12
+const SUGGESTED_TWEET_COLUMNS = [
+  "tweet_id",
+  "author_id",
+  "author_username",
+  "content",
+  "created_at",
+  "public_metrics",
+  "discovered_via_mention_id",
+  "discovery_timestamp",
+  "curation_score",
+];
+
+const SUGGESTED_TWEET_FIELDS = `
+  author_id TEXT NOT NULL,
+  author_username TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  public_metrics TEXT,
+  discovered_via_mention_id TEXT NOT NULL,
+  discovery_timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  curation_score REAL DEFAULT 0`;
+
+const SUGGESTED_TWEET_INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_suggested_tweets_score
+    ON suggested_tweets(curation_score DESC);
+  CREATE INDEX IF NOT EXISTS idx_suggested_tweets_discovery
+    ON suggested_tweets(discovery_timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_suggested_tweets_author
+    ON suggested_tweets(author_id);`;
+
+const ACCOUNT_SCOPED_TABLES: Array<{
+  name: string;
+  columns: string[];
+  unscoped: string;
+  scoped: string;
+}> = [
+  ...["mention_state", "timeline_state"].map((name) => ({
+    name,
+    columns: ["key", "value", "updated_at"],
+    unscoped: `key TEXT PRIMARY KEY, value TEXT, updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP`,
+    scoped: `${ACCOUNT_ID_COLUMN}, key TEXT NOT NULL, value TEXT, updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, PRIMARY KEY (account_id, key)`,
+  })),
+  {
+    name: "cadence",
+    columns: ["key", "value"],
+    unscoped: `key TEXT PRIMARY KEY, value TEXT`,
+    scoped: `${ACCOUNT_ID_COLUMN}, key TEXT NOT NULL, value TEXT, PRIMARY KEY (account_id, key)`,
+  },
+  {
+    name: "pending_mentions",
+    columns: [
+      "mention_id",
+      "author_id",
+      "author_username",
+      "text",
+      "created_at",
+      "fetched_at",
+      "processed_at",
+      "status",
+      "priority",
+      "retry_count",
+      "last_error",
+      "intent_type",
+      "confidence",
+      "original_fetch_id",
+      "worker_id",
+      "referenced_tweets",
+      "lease_expires_at",
+      "next_attempt_at",
+    ],
+    unscoped: `mention_id TEXT PRIMARY KEY, ${PENDING_MENTION_COLUMNS}`,
+    scoped: `${ACCOUNT_ID_COLUMN}, mention_id TEXT NOT NULL, ${PENDING_MENTION_COLUMNS}, PRIMARY KEY (account_id, mention_id)`,
+  },
+  {
+    name: "engaged_mentions",
+    columns: ["mention_id", "engaged_at", "action"],
+    unscoped: `mention_id TEXT PRIMARY KEY, engaged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, action TEXT CHECK(action IN ('reply','like')) NOT NULL`,
+    scoped: `${ACCOUNT_ID_COLUMN}, mention_id TEXT NOT NULL, engaged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, action TEXT CHECK(action IN ('reply','like')) NOT NULL, PRIMARY KEY (account_id, mention_id)`,
+  },
+  {
+    name: "engaged_quotes",
+    columns: ["tweet_id", "engaged_at", "action"],
+    unscoped: `tweet_id TEXT PRIMARY KEY, engaged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, action TEXT DEFAULT 'quote' NOT NULL`,
+    scoped: `${ACCOUNT_ID_COLUMN}, tweet_id TEXT NOT NULL, engaged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, action TEXT DEFAULT 'quote' NOT NULL, PRIMARY KEY (account_id, tweet_id)`,
+  },
+  {
+    name: "rate_limits",
+    columns: [
+      "endpoint",
+      "window_type",
+      "window_start",
+      "requests_used",
+      "worker_usage",
+      "twitter_reset_time",
+    ],
+    unscoped: `endpoint TEXT NOT NULL, ${RATE_LIMIT_COLUMNS}, PRIMARY KEY (endpoint, window_type, window_start)`,
+    scoped: `${ACCOUNT_ID_COLUMN}, endpoint TEXT NOT NULL, ${RATE_LIMIT_COLUMNS}, PRIMARY KEY (account_id, endpoint, window_type, window_start)`,
+  },
+];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS mention_state (
+          key TEXT PRIMARY KEY,
+          value TEXT,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS timeline_state (
+          key TEXT PRIMARY KEY,
+          value TEXT,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS cadence (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS pending_mentions (
+          mention_id TEXT PRIMARY KEY,
+          author_id TEXT NOT NULL,
+          author_username TEXT NOT NULL,
+          text TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          processed_at TIMESTAMP,
+          status TEXT DEFAULT 'pending' CHECK(status IN ('pending','processing','completed','failed')),
+          priority INTEGER DEFAULT 5,
+          retry_count INTEGER DEFAULT 0,
+          last_error TEXT,
+          intent_type TEXT,
+          confidence REAL,
+          original_fetch_id TEXT,
+          worker_id TEXT,
+          referenced_tweets TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS rate_limits (
+          endpoint TEXT NOT NULL,
+          window_type TEXT NOT NULL,
+          window_start INTEGER NOT NULL,
+          requests_used INTEGER DEFAULT 0,
+          worker_usage TEXT DEFAULT '{}',
+          twitter_reset_time INTEGER,
+          PRIMARY KEY (endpoint, window_type, window_start)
+        );
+
+        CREATE TABLE IF NOT EXISTS engaged_mentions (
+          mention_id TEXT PRIMARY KEY,
+          engaged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          action TEXT CHECK(action IN ('reply','like')) NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS engaged_quotes (
+          tweet_id TEXT PRIMARY KEY,
+          engaged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          action TEXT DEFAULT 'quote' NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS suggested_tweets (
+          tweet_id TEXT PRIMARY KEY,                -- Original tweet ID (not mention ID)
+          author_id TEXT NOT NULL,                  -- Original author ID
+          author_username TEXT NOT NULL,            -- Original author username
+          content TEXT NOT NULL,                    -- Original tweet text
+          created_at TEXT NOT NULL,                 -- Original tweet timestamp
+          public_metrics TEXT,                      -- Engagement data (JSON)
+          discovered_via_mention_id TEXT NOT NULL,  -- Which mention led us to this
+          discovery_timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          curation_score REAL DEFAULT 0            -- Content quality score (0-20)
+        );
+      `);
+
+      // Pre-migration databases created pending_mentions without this column
+      addColumnIfMissing(db, "pending_mentions", "referenced_tweets", "TEXT");
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_pending_status_priority
+          ON pending_mentions(status, priority, created_at);
+        CREATE INDEX IF NOT EXISTS idx_pending_author
+          ON pending_mentions(author_id);
+        CREATE INDEX IF NOT EXISTS idx_engaged_mentions_at
+          ON engaged_mentions(engaged_at);
+        CREATE INDEX IF NOT EXISTS idx_engaged_quotes_at
+          ON engaged_quotes(engaged_at);
+        CREATE INDEX IF NOT EXISTS idx_rate_limits_window
+          ON rate_limits(endpoint, window_type, window_start);
+        CREATE INDEX IF NOT EXISTS idx_rate_limits_reset
+          ON rate_limits(endpoint, window_type, twitter_reset_time);
+        CREATE INDEX IF NOT EXISTS idx_suggested_tweets_score
+          ON suggested_tweets(curation_score DESC);
+        CREATE INDEX IF NOT EXISTS idx_suggested_tweets_discovery
+          ON suggested_tweets(discovery_timestamp DESC);
+        CREATE INDEX IF NOT EXISTS idx_suggested_tweets_author
+          ON suggested_tweets(author_id);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TABLE IF EXISTS suggested_tweets;
+        DROP TABLE IF EXISTS engaged_quotes;
+        DROP TABLE IF EXISTS engaged_mentions;
+        DROP TABLE IF EXISTS rate_limits;
+        DROP TABLE IF EXISTS pending_mentions;
+        DROP TABLE IF EXISTS cadence;
+        DROP TABLE IF EXISTS timeline_state;
+        DROP TABLE IF EXISTS mention_state;
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "pending_mentions_lease",
+    up: (db) => {
+      addColumnIfMissing(db, "pending_mentions", "lease_expires_at", "TEXT");
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_pending_lease
+          ON pending_mentions(status, lease_expires_at);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_pending_lease;
+        ALTER TABLE pending_mentions DROP COLUMN lease_expires_at;
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "pending_mentions_retry_backoff",
+    up: (db) => {
+      addColumnIfMissing(db, "pending_mentions", "next_attempt_at", "TEXT");
+    },
+    down: (db) => {
+      db.exec(`ALTER TABLE pending_mentions DROP COLUMN next_attempt_at`);
+    },
+  },
+  {
+    version: 4,
+    name: "account_scoping",
+    // Per-account queues, checkpoints, cadence and rate-limit buckets.
+    // SQLite can't alter a primary key, so the tables are rebuilt.
+    up: (db) => {
+      for (const table of ACCOUNT_SCOPED_TABLES) {
+        // Existing rows land in the default account
+        rebuildTable(db, table.name, table.scoped, table.columns);
+      }
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_pending_status_priority
+          ON pending_mentions(account_id, status, priority, created_at);
+        CREATE INDEX IF NOT EXISTS idx_pending_author
+          ON pending_mentions(author_id);
+        CREATE INDEX IF NOT EXISTS idx_pending_lease
+          ON pending_mentions(account_id, status, lease_expires_at);
+        CREATE INDEX IF NOT EXISTS idx_engaged_mentions_at
+          ON engaged_mentions(engaged_at);
+        CREATE INDEX IF NOT EXISTS idx_engaged_quotes_at
+          ON engaged_quotes(engaged_at);
+        CREATE INDEX IF NOT EXISTS idx_rate_limits_reset
+          ON rate_limits(account_id, endpoint, window_type, twitter_reset_time);
+      `);
+    },
+    // Only the default account's rows survive a rollback
+    down: (db) => {
+      for (const table of ACCOUNT_SCOPED_TABLES) {
+        rebuildTable(
+          db,
+          table.name,
+          table.unscoped,
+          table.columns,
+          "account_id = 'default'"
+        );
+      }
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_pending_status_priority
+          ON pending_mentions(status, priority, created_at);
+        CREATE INDEX IF NOT EXISTS idx_pending_author
+          ON pending_mentions(author_id);
+        CREATE INDEX IF NOT EXISTS idx_pending_lease
+          ON pending_mentions(status, lease_expires_at);
+        CREATE INDEX IF NOT EXISTS idx_engaged_mentions_at
+          ON engaged_mentions(engaged_at);
+        CREATE INDEX IF NOT EXISTS idx_engaged_quotes_at
+          ON engaged_quotes(engaged_at);
+        CREATE INDEX IF NOT EXISTS idx_rate_limits_window
+          ON rate_limits(endpoint, window_type, window_start);
+        CREATE INDEX IF NOT EXISTS idx_rate_limits_reset
+          ON rate_limits(endpoint, window_type, twitter_reset_time);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "engagement_tracking",
+    // Cross-process engagement locks plus an append-only engagement log
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS engagement_locks (
+          account_id TEXT NOT NULL DEFAULT 'default',
+          tweet_id TEXT NOT NULL,
+          lock_type TEXT NOT NULL,              -- quote | reply | like | analysis
+          worker_id TEXT NOT NULL,
+          locked_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending', -- pending | completed | failed | expired
+          PRIMARY KEY (account_id, tweet_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_engagement_locks_expiry
+          ON engagement_locks(status, expires_at);
+
+        CREATE TABLE IF NOT EXISTS engagement_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id TEXT NOT NULL DEFAULT 'default',
+          tweet_id TEXT NOT NULL,
+          worker_id TEXT NOT NULL,
+          action TEXT NOT NULL,                 -- quote | reply | like
+          timestamp TEXT NOT NULL,
+          success INTEGER NOT NULL,
+          metadata TEXT                         -- JSON
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_engagement_history_tweet
+          ON engagement_history(account_id, tweet_id, timestamp);
+        CREATE INDEX IF NOT EXISTS idx_engagement_history_time
+          ON engagement_history(account_id, timestamp);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TABLE IF EXISTS engagement_history;
+        DROP TABLE IF EXISTS engagement_locks;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "rate_limit_reservations",
+    // Capacity held ahead of multi-call flows; one row per reserved endpoint
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS rate_limit_reservations (
+          id TEXT NOT NULL,
+          endpoint TEXT NOT NULL,
+          account_id TEXT NOT NULL DEFAULT 'default',
+          worker_id TEXT NOT NULL,
+          units INTEGER NOT NULL,
+          units_used INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'held', -- held | committed | released | expired
+          PRIMARY KEY (id, endpoint)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_reservations_held
+          ON rate_limit_reservations(account_id, endpoint, status, expires_at);
+      `);
+    },
+    down: (db) => {
+      db.exec(`DROP TABLE IF EXISTS rate_limit_reservations`);
+    },
+  },
+  {
+    version: 7,
+    name: "rate_limit_algorithms",
+    // Sliding-log and token-bucket state, plus what each rate_limits row
+    // reported the last time usage was recorded
+    up: (db) => {
+      addColumnIfMissing(db, "rate_limits", "algorithm", "TEXT");
+      addColumnIfMissing(db, "rate_limits", "remaining", "INTEGER");
+      addColumnIfMissing(db, "rate_limits", "next_allowed_at", "INTEGER");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS rate_limit_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id TEXT NOT NULL DEFAULT 'default',
+          endpoint TEXT NOT NULL,
+          worker_id TEXT NOT NULL,
+          requested_at INTEGER NOT NULL         -- epoch ms
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_rate_limit_events_time
+          ON rate_limit_events(account_id, endpoint, requested_at);
+
+        CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+          account_id TEXT NOT NULL DEFAULT 'default',
+          endpoint TEXT NOT NULL,
+          window_type TEXT NOT NULL,            -- per_15min | per_hour | per_day
+          tokens REAL NOT NULL,
+          updated_at INTEGER NOT NULL,          -- epoch ms
+          PRIMARY KEY (account_id, endpoint, window_type)
+        );
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TABLE IF EXISTS rate_limit_buckets;
+        DROP TABLE IF EXISTS rate_limit_events;
+        ALTER TABLE rate_limits DROP COLUMN next_allowed_at;
+        ALTER TABLE rate_limits DROP COLUMN remaining;
+        ALTER TABLE rate_limits DROP COLUMN algorithm;
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "rate_limit_throttles",
+    // Blocks and backoff learned from Twitter 429 responses
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS rate_limit_throttles (
+          account_id TEXT NOT NULL DEFAULT 'default',
+          endpoint TEXT NOT NULL,
+          blocked_until INTEGER,                -- epoch ms
+          backoff_multiplier REAL NOT NULL DEFAULT 1,
+          consecutive_429s INTEGER NOT NULL DEFAULT 0,
+          last_429_at INTEGER NOT NULL DEFAULT 0, -- epoch ms
+          updated_at INTEGER NOT NULL,          -- epoch ms
+          PRIMARY KEY (account_id, endpoint)
+        );
+      `);
+    },
+    down: (db) => {
+      db.exec(`DROP TABLE IF EXISTS rate_limit_throttles`);
+    },
+  },
+  {
+    version: 9,
+    name: "tweet_user_cache",
+    // Every tweet and user seen in a fetch, shared by all accounts
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tweets (
+          tweet_id TEXT PRIMARY KEY,
+          author_id TEXT NOT NULL,
+          text TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          referenced_tweets TEXT,               -- JSON
+          context_annotations TEXT,             -- JSON
+          public_metrics TEXT,                  -- JSON, latest snapshot
+          metrics_updated_at TEXT,
+          first_seen_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_tweets_author
+          ON tweets(author_id, created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_tweets_last_seen
+          ON tweets(last_seen_at);
+
+        CREATE TABLE IF NOT EXISTS users (
+          user_id TEXT PRIMARY KEY,
+          username TEXT NOT NULL,
+          name TEXT,
+          description TEXT,
+          location TEXT,
+          profile_image_url TEXT,
+          url TEXT,
+          verified INTEGER,
+          verified_type TEXT,
+          protected INTEGER,
+          created_at TEXT,
+          pinned_tweet_id TEXT,
+          public_metrics TEXT,                  -- JSON, latest snapshot
+          metrics_updated_at TEXT,
+          first_seen_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_users_username
+          ON users(username COLLATE NOCASE);
+        CREATE INDEX IF NOT EXISTS idx_users_last_seen
+          ON users(last_seen_at);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TABLE IF EXISTS tweets;
+        DROP TABLE IF EXISTS users;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "identity_cache",
+    // v2.me() results keyed by a hash of the access token
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS identity_cache (
+          token_hash TEXT PRIMARY KEY,          -- sha256 of the token
+          user_id TEXT NOT NULL,
+          username TEXT NOT NULL,
+          cached_at INTEGER NOT NULL            -- epoch ms
+        );
+      `);
+    },
+    down: (db) => {
+      db.exec(`DROP TABLE IF EXISTS identity_cache`);
+    },
+  },
+  {
+    version: 11,
+    name: "ranking_feedback",
+    // Learned ranking weights, and the quotes whose engagement trains them
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ranking_weights (
+          account_id TEXT NOT NULL DEFAULT 'default',
+          feature TEXT NOT NULL,                -- keywords | engagement | author | sentiment
+          weight REAL NOT NULL,
+          samples INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL,          -- epoch ms
+          PRIMARY KEY (account_id, feature)
+        );
+
+        CREATE TABLE IF NOT EXISTS ranking_outcomes (
+          account_id TEXT NOT NULL DEFAULT 'default',
+          post_id TEXT NOT NULL,                -- our quote tweet
+          tweet_id TEXT NOT NULL,               -- the candidate we quoted
+          features TEXT NOT NULL,               -- JSON, feature values when quoted
+          posted_at INTEGER NOT NULL,           -- epoch ms
+          engagement INTEGER,                   -- observed on post_id; NULL until applied (or never seen)
+          applied_at INTEGER,                   -- epoch ms
+          PRIMARY KEY (account_id, post_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_ranking_outcomes_pending
+          ON ranking_outcomes(account_id, applied_at, posted_at);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP TABLE IF EXISTS ranking_outcomes;
+        DROP TABLE IF EXISTS ranking_weights;
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "suggested_tweets_account_scoping",
+    // Suggestions belong to the account whose mention surfaced them, so two
+    // personas can each hold the same tweet. Existing rows follow their
+    // mention's account (default when the mention is gone).
+    up: (db) => {
+      const list = SUGGESTED_TWEET_COLUMNS.join(", ");
+      const selected = SUGGESTED_TWEET_COLUMNS.map((c) => `st.${c}`).join(", ");
+      db.exec(`
+        CREATE TABLE suggested_tweets__rebuild (
+          ${ACCOUNT_ID_COLUMN},
+          tweet_id TEXT NOT NULL,
+          ${SUGGESTED_TWEET_FIELDS},
+          PRIMARY KEY (account_id, tweet_id)
+        );
+        INSERT OR IGNORE INTO suggested_tweets__rebuild (account_id, ${list})
+          SELECT COALESCE(pm.account_id, 'default'), ${selected}
+          FROM suggested_tweets st
+          LEFT JOIN pending_mentions pm
+            ON pm.mention_id = st.discovered_via_mention_id;
+        DROP TABLE suggested_tweets;
+        ALTER TABLE suggested_tweets__rebuild RENAME TO suggested_tweets;
+        ${SUGGESTED_TWEET_INDEXES}
+        CREATE INDEX IF NOT EXISTS idx_suggested_tweets_mention
+          ON suggested_tweets(account_id, discovered_via_mention_id);
+      `);
+    },
+    // Only the default account's rows survive a rollback
+    down: (db) => {
+      rebuildTable(
+        db,
+        "suggested_tweets",
+        `tweet_id TEXT PRIMARY KEY, ${SUGGESTED_TWEET_FIELDS}`,
+        SUGGESTED_TWEET_COLUMNS,
+        "account_id = 'default'"
+      );
+      db.exec(SUGGESTED_TWEET_INDEXES);
+    },
+  },
+];
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migration list out of order: expected version ${index + 1}, found ${migration.version} (${migration.name})`
+      );
+    }
+  });
+}
+
+/**
+ * Highest applied migration version (0 for a database without migrations)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  ensureMigrationsTable(db);
+  const row = db
+    .prepare("SELECT MAX(version) AS version FROM schema_migrations")
+    .get() as { version: number | null };
+  return row.version || 0;
+}
+
+export function getLatestSchemaVersion(
+  migrations: Migration[] = MIGRATIONS
+): number {
+  return migrations.length === 0
+    ? 0
+    : migrations[migrations.length - 1]!.version;
+}
+
+/**
+ * Startup guard: refuse to run against a schema written by a newer build
+ */
+export function assertSchemaSupported(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): void {
+  const current = getSchemaVersion(db);
+  const latest = getLatestSchemaVersion(migrations);
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than this build supports (${latest}). Upgrade GlitchBot before using this database.`
+    );
+  }
+}
+
+/**
+ * Applied/pending state of every known migration
+ */
+export function getMigrationStatus(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  const applied = new Map(
+    (
+      db
+        .prepare("SELECT version, applied_at FROM schema_migrations")
+        .all() as Array<{ version: number; applied_at: string }>
+    ).map((row) => [row.version, row.applied_at])
+  );
+  return migrations.map((m) => ({
+    version: m.version,
+    name: m.name,
+    applied_at: applied.get(m.version) || null,
+  }));
+}
+
+/**
+ * Migrate up or down to `targetVersion` (default: latest). Each step runs in
+ * its own transaction and re-checks the recorded version, so processes
+ * starting at the same time don't apply a migration twice.
+ */
+export function runMigrations(
+  db: Database.Database,
+  options: MigrationOptions = {}
+): MigrationResult {
+  const migrations = options.migrations || MIGRATIONS;
+  validateMigrations(migrations);
+  assertSchemaSupported(db, migrations);
+
+  const fromVersion = getSchemaVersion(db);
+  const latest = getLatestSchemaVersion(migrations);
+  const target = options.targetVersion ?? latest;
+  if (target < 0 || target > latest) {
+    throw new Error(
+      `Invalid target schema version ${target} (known versions: 0-${latest})`
+    );
+  }
+
+  const plan: Array<MigrationStep & { migration: Migration }> =
+    target >= fromVersion
+      ? migrations
+          .filter((m) => m.version > fromVersion && m.version <= target)
+          .map((m) => ({
+            version: m.version,
+            name: m.name,
+            direction: "up" as const,
+            migration: m,
+          }))
+      : migrations
+          .filter((m) => m.version <= fromVersion && m.version > target)
+          .reverse()
+          .map((m) => ({
+            version: m.version,
+            name: m.name,
+            direction: "down" as const,
+            migration: m,
+          }));
+
+  const steps: MigrationStep[] = plan.map(({ version, name, direction }) => ({
+    version,
+    name,
+    direction,
+  }));
+
+  if (options.dryRun) {
+    appLogger.info(
+      { fromVersion, toVersion: target, steps },
+      "Schema migration dry run"
+    );
+    return { fromVersion, toVersion: target, steps, dryRun: true };
+  }
+
+  for (const step of plan) {
+    const apply = db.transaction(() => {
+      const current = getSchemaVersion(db);
+      if (step.direction === "up") {
+        if (current >= step.version) return; // Applied by another process
+        step.migration.up(db);
+        db.prepare(
+          "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+        ).run(step.version, step.name, new Date().toISOString());
+      } else {
+        if (current < step.version) return;
+        step.migration.down(db);
+        db.prepare("DELETE FROM schema_migrations WHERE version = ?").run(
+          step.version
+        );
+      }
+    });
+    apply.immediate();
+    appLogger.info(
+      {
+        version: step.version,
+        migration: step.name,
+        direction: step.direction,
+      },
+      "Schema migration applied"
+    );
+  }
+
+  return {
+    fromVersion,
+    toVersion: getSchemaVersion(db),
+    steps,
+    dryRun: false,
+  };
+}
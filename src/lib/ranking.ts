@@ -1,136 +1,117 @@
 import logger from "./log";
+import { getConfig } from "./config";
+import type { Tweet } from "./tweet-normalizer";
+
+/**
+ * Timeline Ranking - Weighted Feature Scores
+ *
+ * Each tweet gets four feature values (keywords, engagement, author,
+ * sentiment). Its score is the sum of value x weight, where the weights are
+ * learned per account from how our own quotes performed
+ * (persistence/global/ranking-feedback) and start at 1. Keywords and
+ * sentiment words match whole tokens, so "ai" doesn't match "said" and
+ * "eth" doesn't match "method".
+ */
+
+// Tweets are scored in the canonical model from tweet-normalizer
+export type TweetData = Tweet;
+
+export type RankingFeature = "keywords" | "engagement" | "author" | "sentiment";
+
+export const RANKING_FEATURES: readonly RankingFeature[] = [
+  "keywords",
+  "engagement",
+  "author",
+  "sentiment",
+];
 
-// Tweet interface for scoring
-export interface TweetData {
-  id: string;
-  text: string;
-  author_id?: string;
-  public_metrics?: {
-    retweet_count: number;
-    like_count: number;
-    reply_count: number;
-    quote_count: number;
-  };
-  created_at?: string;
-  author?: {
-    username: string;
-    followers_count: number;
-    verified?: boolean;
-  };
+// Highest value each feature can take (the calculate* caps)
+export const FEATURE_MAX: Record<RankingFeature, number> = {
+  keywords: 15,
+  engagement: 20,
+  author: 15,
+  sentiment: 10,
+};
+
+export type FeatureValues = Record<RankingFeature, number>;
+export type FeatureWeights = Record<RankingFeature, number>;
+
+export const DEFAULT_FEATURE_WEIGHTS: FeatureWeights = {
+  keywords: 1,
+  engagement: 1,
+  author: 1,
+  sentiment: 1,
+};
+
+export interface FeatureScore {
+  value: number;
+  weight: number;
+  contribution: number; // value x weight
 }
 
-// High-priority keywords for crypto, AI, and tech
-const HIGH_PRIORITY_KEYWORDS = [
-  // Crypto/DeFi
-  "bitcoin",
-  "btc",
-  "ethereum",
-  "eth",
-  "defi",
-  "crypto",
-  "blockchain",
-  "solana",
-  "sol",
-  "memecoin",
-  "degen",
-  "yield",
-  "farming",
-  "liquidity",
-  "staking",
-  "airdrop",
-  "dao",
-  "nft",
-  "web3",
-  "tokenomics",
-
-  // AI/ML
-  "ai",
-  "artificial intelligence",
-  "machine learning",
-  "ml",
-  "llm",
-  "gpt",
-  "claude",
-  "openai",
-  "anthropic",
-  "neural",
-  "model",
-  "training",
-  "transformer",
-  "deep learning",
-  "generative",
-  "chatgpt",
-  "automation",
-
-  // Tech/Startups
-  "startup",
-  "funding",
-  "series a",
-  "series b",
-  "vc",
-  "venture capital",
-  "launch",
-  "product hunt",
-  "github",
-  "open source",
-  "api",
-  "developer",
-  "coding",
-  "programming",
-  "typescript",
-  "javascript",
-  "react",
-  "node",
-  "saas",
-  "b2b",
-  "technical",
-  "engineering",
-  "frontend",
-  "backend",
-];
+export type ScoreBreakdown = Record<RankingFeature, FeatureScore>;
 
-// Medium-priority keywords
-const MEDIUM_PRIORITY_KEYWORDS = [
-  "tech",
-  "technology",
-  "innovation",
-  "digital",
-  "software",
-  "app",
-  "platform",
-  "data",
-  "analytics",
-  "cloud",
-  "security",
-  "privacy",
-  "mobile",
-  "ios",
-  "android",
-  "productivity",
-  "workflow",
-  "automation",
-];
+export interface TweetScore {
+  score: number;
+  score_reason: string;
+  score_features: ScoreBreakdown;
+}
+
+export type RankedTweet<T extends TweetData = TweetData> = T & TweetScore;
+
+export interface DroppedTweet {
+  id: string;
+  reason: string;
+}
+
+// Lowercased runs of letters and digits: "method" is one token, so "eth"
+// can't match inside it
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// Whole-token match, in order for multi-word terms ("machine learning"); the
+// last word may carry a plural "s". Terms without letters or digits ("?")
+// match as plain text.
+export const matchesTerm = (
+  text: string,
+  tokens: string[],
+  term: string
+): boolean => {
+  const words = tokenize(term);
+  if (words.length === 0) return text.includes(term);
+
+  for (let start = 0; start + words.length <= tokens.length; start++) {
+    const matched = words.every((word, i) => {
+      const token = tokens[start + i];
+      return token === word || (i === words.length - 1 && token === `${word}s`);
+    });
+    if (matched) return true;
+  }
+  return false;
+};
 
 // Calculate keyword score based on content
 export const calculateKeywordScore = (text: string): number => {
-  const lowerText = text.toLowerCase();
+  const tokens = tokenize(text);
+  const { high_priority_keywords, medium_priority_keywords } =
+    getConfig().ranking;
   let score = 0;
 
   // High priority keywords (3 points each)
-  for (const keyword of HIGH_PRIORITY_KEYWORDS) {
-    if (lowerText.includes(keyword)) {
+  for (const keyword of high_priority_keywords) {
+    if (matchesTerm(text, tokens, keyword)) {
       score += 3;
     }
   }
 
   // Medium priority keywords (1 point each)
-  for (const keyword of MEDIUM_PRIORITY_KEYWORDS) {
-    if (lowerText.includes(keyword)) {
+  for (const keyword of medium_priority_keywords) {
+    if (matchesTerm(text, tokens, keyword)) {
       score += 1;
     }
   }
 
-  return Math.min(score, 15); // Cap at 15 points
+  return Math.min(score, FEATURE_MAX.keywords);
 };
 
 // Calculate engagement velocity score
@@ -140,7 +121,10 @@ export const calculateEngagementScore = (tweet: TweetData): number => {
   const { retweet_count, like_count, reply_count, quote_count } =
     tweet.public_metrics;
   const totalEngagement =
-    retweet_count + like_count + reply_count + quote_count;
+    (retweet_count || 0) +
+    (like_count || 0) +
+    (reply_count || 0) +
+    (quote_count || 0);
 
   // Calculate age in hours
   const createdAt = new Date(tweet.created_at);
@@ -151,7 +135,10 @@ export const calculateEngagementScore = (tweet: TweetData): number => {
   const adjustedAge = Math.max(ageHours, 0.5);
 
   // Engagement per hour, scaled
-  const velocityScore = Math.min((totalEngagement / adjustedAge) * 2, 20);
+  const velocityScore = Math.min(
+    (totalEngagement / adjustedAge) * 2,
+    FEATURE_MAX.engagement
+  );
 
   return Math.round(velocityScore);
 };
@@ -160,7 +147,8 @@ export const calculateEngagementScore = (tweet: TweetData): number => {
 export const calculateAuthorScore = (tweet: TweetData): number => {
   if (!tweet.author) return 0;
 
-  const { followers_count, verified } = tweet.author;
+  const followers_count = tweet.author.public_metrics?.followers_count || 0;
+  const { verified } = tweet.author;
   let score = 0;
 
   // Followers score (requirement: > 5k followers gets priority)
@@ -179,12 +167,12 @@ export const calculateAuthorScore = (tweet: TweetData): number => {
     score += 3;
   }
 
-  return Math.min(score, 15); // Cap at 15 points
+  return Math.min(score, FEATURE_MAX.author);
 };
 
 // Calculate sentiment score (basic positive/inquisitive detection)
 export const calculateSentimentScore = (text: string): number => {
-  const lowerText = text.toLowerCase();
+  const tokens = tokenize(text);
   let score = 5; // Neutral baseline
 
   // Positive indicators
@@ -238,78 +226,135 @@ export const calculateSentimentScore = (text: string): number => {
 
   // Count positive indicators
   for (const word of positiveWords) {
-    if (lowerText.includes(word)) score += 2;
+    if (matchesTerm(text, tokens, word)) score += 2;
   }
 
   // Count inquisitive indicators
   for (const word of inquisitiveWords) {
-    if (lowerText.includes(word)) score += 1;
+    if (matchesTerm(text, tokens, word)) score += 1;
   }
 
   // Penalize negative content
   for (const word of negativeWords) {
-    if (lowerText.includes(word)) score -= 3;
+    if (matchesTerm(text, tokens, word)) score -= 3;
   }
 
-  return Math.max(0, Math.min(score, 10)); // Cap between 0-10
+  return Math.max(0, Math.min(score, FEATURE_MAX.sentiment));
 };
 
+// Raw feature values, before weights
+export const extractFeatures = (tweet: TweetData): FeatureValues => ({
+  keywords: calculateKeywordScore(tweet.text),
+  engagement: calculateEngagementScore(tweet),
+  author: calculateAuthorScore(tweet),
+  sentiment: calculateSentimentScore(tweet.text),
+});
+
 // Main scoring function
 export const scoreTweet = (
-  tweet: TweetData
-): { score: number; reason: string } => {
-  const keywordScore = calculateKeywordScore(tweet.text);
-  const engagementScore = calculateEngagementScore(tweet);
-  const authorScore = calculateAuthorScore(tweet);
-  const sentimentScore = calculateSentimentScore(tweet.text);
-
-  const totalScore =
-    keywordScore + engagementScore + authorScore + sentimentScore;
+  tweet: TweetData,
+  weights: FeatureWeights = DEFAULT_FEATURE_WEIGHTS
+): { score: number; reason: string; features: ScoreBreakdown } => {
+  const values = extractFeatures(tweet);
+
+  const features = {} as ScoreBreakdown;
+  for (const feature of RANKING_FEATURES) {
+    const value = values[feature];
+    const weight = weights[feature];
+    features[feature] = { value, weight, contribution: round(value * weight) };
+  }
+  const totalScore = round(
+    RANKING_FEATURES.reduce((sum, f) => sum + features[f].contribution, 0)
+  );
 
   // Generate explanation
-  const components = [
-    `keywords: ${keywordScore}`,
-    `engagement: ${engagementScore}`,
-    `author: ${authorScore}`,
-    `sentiment: ${sentimentScore}`,
-  ];
+  const components = RANKING_FEATURES.map(
+    (feature) => `${feature}: ${features[feature].contribution}`
+  );
 
   const reason = `Total: ${totalScore} (${components.join(", ")})`;
 
-  logger.debug(
-    {
-      tweetId: tweet.id,
-      totalScore,
-      keywordScore,
-      engagementScore,
-      authorScore,
-      sentimentScore,
-    },
-    "Tweet scored"
-  );
+  logger.debug({ tweetId: tweet.id, totalScore, ...values }, "Tweet scored");
 
-  return { score: totalScore, reason };
+  return { score: totalScore, reason, features };
 };
 
-// Filter tweets that meet minimum criteria
-export const isWorthyCandidate = (tweet: TweetData): boolean => {
-  const { score } = scoreTweet(tweet);
-
-  // Minimum threshold for consideration
-  const minScore = 8;
+// Hard exclusions applied regardless of score; null when the tweet passes
+export const getExclusionReason = (tweet: TweetData): string | null => {
+  const { min_length, max_length } = getConfig().ranking;
+  const length = tweet.text.length;
 
-  // Additional filters
-  const tooShort = tweet.text.length < 50;
-  const tooLong = tweet.text.length > 500;
-  const hasSpam = /(.)\1{4,}/.test(tweet.text); // Repeated characters
+  if (length < min_length) {
+    return `too short (${length} < ${min_length} chars)`;
+  }
+  if (length > max_length) {
+    return `too long (${length} > ${max_length} chars)`;
+  }
+  if (/(.)\1{4,}/.test(tweet.text)) {
+    return "repeated characters";
+  }
+  return null;
+};
 
-  if (tooShort || tooLong || hasSpam) {
+// Filter tweets that meet minimum criteria
+export const isWorthyCandidate = (
+  tweet: TweetData,
+  weights: FeatureWeights = DEFAULT_FEATURE_WEIGHTS
+): boolean => {
+  const exclusion = getExclusionReason(tweet);
+  if (exclusion) {
     logger.debug(
-      { tweetId: tweet.id },
+      { tweetId: tweet.id, reason: exclusion },
       "Tweet filtered out: Failed basic filters"
     );
     return false;
   }
 
-  return score >= minScore;
+  return scoreTweet(tweet, weights).score >= getConfig().ranking.min_score;
 };
+
+// Score every tweet, drop exclusions and anything under ranking.min_score,
+// and sort the rest best first (newest first on ties)
+export const rankTweets = <T extends TweetData>(
+  tweets: T[],
+  weights: FeatureWeights = DEFAULT_FEATURE_WEIGHTS
+): { ranked: RankedTweet<T>[]; dropped: DroppedTweet[] } => {
+  const { min_score } = getConfig().ranking;
+  const ranked: RankedTweet<T>[] = [];
+  const dropped: DroppedTweet[] = [];
+
+  for (const tweet of tweets) {
+    const exclusion = getExclusionReason(tweet);
+    if (exclusion) {
+      dropped.push({ id: tweet.id, reason: exclusion });
+      continue;
+    }
+
+    const { score, reason, features } = scoreTweet(tweet, weights);
+    if (score < min_score) {
+      dropped.push({
+        id: tweet.id,
+        reason: `score ${score} < min_score ${min_score}`,
+      });
+      continue;
+    }
+    ranked.push({
+      ...tweet,
+      score,
+      score_reason: reason,
+      score_features: features,
+    });
+  }
+
+  ranked.sort(
+    (a, b) =>
+      b.score - a.score ||
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+  return { ranked, dropped };
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,73 +1,61 @@
-import { TwitterApi } from "@virtuals-protocol/game-twitter-node";
-import { globalRateLimiter } from "../persistence/global/rate-limiter";
+import {
+  GlobalRateLimiter,
+  getGlobalRateLimiter,
+} from "../persistence/global/rate-limiter";
+import { IdentityCache, hashToken } from "../persistence/global/identity-cache";
 import appLogger from "./log";
-
-// User cache for avoiding repeated .me() calls
-interface UserCacheEntry {
-  userId: string;
-  username: string;
-  gameToken: string;
-  cachedAt: number;
-}
-
+import { getConfig } from "./config";
+import { createTwitterTransport, TwitterTransport } from "./twitter-transport";
+import {
+  TWITTER_V2_OPERATIONS,
+  TimelineParamsV2,
+  TimelineResponseV2,
+  TwitterV2Api,
+  TwitterV2Method,
+  UserResponseV2,
+} from "./twitter-v2";
+import type { RequestPriority } from "./request-queue";
+
+// Self-identity cache for avoiding repeated .me() calls; stored in SQLite
+// (identity_cache) so it survives restarts and short-lived scripts
 interface CacheConfig {
   ttlHours?: number;
   maxEntries?: number;
 }
 
-// Global user cache (persists across client instances)
-const userCache = new Map<string, UserCacheEntry>();
 const DEFAULT_CACHE_TTL_HOURS = 2; // Reduced from 24 hours - more reasonable
 const MAX_CACHE_ENTRIES = 100; // Prevent memory bloat
 
 export interface RateLimitedClientConfig {
   gameTwitterAccessToken: string;
   workerId: string;
-  defaultPriority?: "low" | "medium" | "high" | "critical";
   cache?: CacheConfig;
+  transport?: TwitterTransport; // Defaults to the TWITTER_TRANSPORT selection
+  rateLimiter?: GlobalRateLimiter; // Defaults to the process-wide limiter
+  // Wait for capacity instead of failing; defaults to config request_queue
+  queue?: { maxWaitMs: number } | false;
 }
 
 export class RateLimitedTwitterClient {
-  private client: TwitterApi;
+  private transport: TwitterTransport;
+  private rateLimiter: GlobalRateLimiter;
   private workerId: string;
-  private defaultPriority: "low" | "medium" | "high" | "critical";
-  private gameToken: string;
+  private tokenHash: string; // Identity cache key; the token isn't stored
+  private identityCache: IdentityCache;
   private cacheConfig: CacheConfig;
+  private queueOption: RateLimitedClientConfig["queue"];
 
-  // Method to endpoint mapping for automatic detection
-  private static readonly METHOD_ENDPOINTS = {
-    // Timeline and mentions
-    userMentionTimeline: "fetch_mentions",
-    homeTimeline: "fetch_timeline",
-    userTimeline: "fetch_timeline",
-
-    // User information
-    me: "get_user",
-    user: "get_user",
-    users: "get_user",
-
-    // Posting and engagement
-    tweet: "post_tweet",
-    reply: "reply_tweet",
-    like: "like_tweet",
-    unlike: "unlike_tweet",
-    retweet: "retweet_tweet",
-
-    // Search
-    search: "search_tweets",
-    searchUsers: "search_users",
-  } as const;
-
-  // Expose v2 API with automatic rate limiting
-  public readonly v2: any;
+  // Twitter v2 API; each call is charged per TWITTER_V2_OPERATIONS
+  public readonly v2: TwitterV2Api;
 
   constructor(config: RateLimitedClientConfig) {
-    this.client = new TwitterApi({
-      gameTwitterAccessToken: config.gameTwitterAccessToken,
-    });
+    this.transport =
+      config.transport || createTwitterTransport(config.gameTwitterAccessToken);
+    this.rateLimiter = config.rateLimiter || getGlobalRateLimiter();
     this.workerId = config.workerId;
-    this.defaultPriority = config.defaultPriority || "medium";
-    this.gameToken = config.gameTwitterAccessToken;
+    this.tokenHash = hashToken(config.gameTwitterAccessToken);
+    this.identityCache = new IdentityCache(this.rateLimiter.dbManager);
+    this.queueOption = config.queue;
     this.cacheConfig = {
       ttlHours: config.cache?.ttlHours || DEFAULT_CACHE_TTL_HOURS,
       maxEntries: config.cache?.maxEntries || MAX_CACHE_ENTRIES,
@@ -76,12 +64,27 @@ export class RateLimitedTwitterClient {
     // Clean up cache if it's too large
     this.cleanupCache();
 
-    // Create rate-limited proxy for v2 API
-    this.v2 = this.createRateLimitedProxy(this.client.v2);
+    const transportV2 = this.transport.v2;
+    this.v2 = {
+      me: () => this.callV2("me", () => transportV2.me()),
+      userMentionTimeline: (userId, params) =>
+        this.callV2("userMentionTimeline", () =>
+          transportV2.userMentionTimeline(userId, params)
+        ),
+      homeTimeline: (params) =>
+        this.callV2("homeTimeline", () => transportV2.homeTimeline(params)),
+      tweets: (ids, params) =>
+        this.callV2("tweets", () => transportV2.tweets(ids, params)),
+      tweet: (payload) =>
+        this.callV2("tweet", () => transportV2.tweet(payload)),
+      reply: (text, inReplyToTweetId) =>
+        this.callV2("reply", () => transportV2.reply(text, inReplyToTweetId)),
+    };
 
     appLogger.debug(
       {
         workerId: this.workerId,
+        transport: this.transport.name,
         cacheTTL: this.cacheConfig.ttlHours + "h",
         cacheMaxEntries: this.cacheConfig.maxEntries,
       },
@@ -93,68 +96,54 @@ export class RateLimitedTwitterClient {
    * Clean up old cache entries and enforce size limits
    */
   private cleanupCache(): void {
-    const now = Date.now();
-    const ttlMs = this.cacheConfig.ttlHours! * 60 * 60 * 1000;
-
-    // Remove expired entries
-    for (const [key, entry] of userCache.entries()) {
-      if (now - entry.cachedAt > ttlMs) {
-        userCache.delete(key);
-      }
-    }
-
-    // Enforce size limit (remove oldest entries)
-    if (userCache.size > this.cacheConfig.maxEntries!) {
-      const entries = Array.from(userCache.entries());
-      entries.sort((a, b) => a[1].cachedAt - b[1].cachedAt);
-
-      const toRemove = entries.slice(
-        0,
-        userCache.size - this.cacheConfig.maxEntries!
-      );
-      toRemove.forEach(([key]) => userCache.delete(key));
-
+    const removed = this.identityCache.prune(
+      this.getCacheTtlMs(),
+      this.cacheConfig.maxEntries!
+    );
+    if (removed > 0) {
       appLogger.debug(
-        { removed: toRemove.length, remaining: userCache.size },
+        { removed, remaining: this.identityCache.count() },
         "Cache cleanup completed"
       );
     }
   }
 
+  private getCacheTtlMs(): number {
+    return this.cacheConfig.ttlHours! * 60 * 60 * 1000;
+  }
+
   /**
    * Get current user ID with automatic caching and retry logic
    * This is a high-level method that handles caching and rate limiting automatically
    */
   async getCurrentUserId(
-    forceRefresh = false
+    forceRefresh = false,
+    reservationId?: string
   ): Promise<{ id: string; username: string }> {
-    const cacheKey = this.gameToken;
     const now = Date.now();
 
     // Check cache first (unless forced refresh)
     if (!forceRefresh) {
-      const cached = userCache.get(cacheKey);
-      if (
-        cached &&
-        now - cached.cachedAt < this.cacheConfig.ttlHours! * 60 * 60 * 1000
-      ) {
+      const cached = this.getFreshCachedUser(now);
+      if (cached) {
         appLogger.debug(
           {
-            userId: cached.userId,
+            userId: cached.user_id,
             username: cached.username,
-            cacheAge: now - cached.cachedAt,
+            cacheAge: now - cached.cached_at,
           },
           "Using cached user ID (no API call needed)"
         );
-        return { id: cached.userId, username: cached.username };
+        return { id: cached.user_id, username: cached.username };
       }
     }
 
     // Need to make API call - check rate limits first
-    const rateLimitCheck = await globalRateLimiter.canMakeRequest(
+    const rateLimitCheck = await this.rateLimiter.canMakeRequest(
       "get_user",
       this.workerId,
-      this.defaultPriority
+      TWITTER_V2_OPERATIONS.me.priority,
+      reservationId
     );
 
     if (!rateLimitCheck.allowed) {
@@ -177,41 +166,11 @@ export class RateLimitedTwitterClient {
     }
 
     // Make the API call with enhanced error handling
+    let response: UserResponseV2;
     try {
-      const response = await this.client.v2.me();
-      const userId = response.data.id;
-      const username = response.data.username;
-
-      // Cache the result
-      userCache.set(cacheKey, {
-        userId,
-        username,
-        gameToken: this.gameToken,
-        cachedAt: now,
-      });
-
-      // Record successful usage
-      await globalRateLimiter.recordUsage(
-        "get_user",
-        this.workerId,
-        true,
-        this.extractRateLimitHeaders(response)
-      );
-
-      appLogger.info(
-        {
-          userId,
-          username,
-          forceRefresh,
-          cacheSize: userCache.size,
-        },
-        "User ID fetched and cached (consumed 1 get_user rate limit)"
-      );
-
-      return { id: userId, username };
+      response = await this.transport.v2.me();
     } catch (error: any) {
-      // Record failed usage
-      await globalRateLimiter.recordUsage("get_user", this.workerId, false);
+      await this.recordFailure("get_user", "me", error);
 
       // Enhanced error categorization
       if (error.code === 401) {
@@ -238,13 +197,46 @@ export class RateLimitedTwitterClient {
         throw error;
       }
     }
+
+    const userId = response.data.id;
+    const username = response.data.username;
+
+    // Twitter answered; failing to cache or record it must not fail the call
+    try {
+      this.identityCache.set(this.tokenHash, { id: userId, username }, now);
+      await this.rateLimiter.recordUsage(
+        "get_user",
+        this.workerId,
+        true,
+        this.extractRateLimitHeaders(response),
+        reservationId
+      );
+
+      appLogger.info(
+        {
+          userId,
+          username,
+          forceRefresh,
+          cacheSize: this.identityCache.count(),
+        },
+        "User ID fetched and cached (consumed 1 get_user rate limit)"
+      );
+    } catch (recordError: any) {
+      this.logRecordFailure("get_user", "me", recordError);
+    }
+
+    return { id: userId, username };
+  }
+
+  private getFreshCachedUser(now = Date.now()) {
+    return this.identityCache.get(this.tokenHash, this.getCacheTtlMs(), now);
   }
 
   /**
    * Clear user cache (useful for testing or token changes)
    */
   clearUserCache(): void {
-    userCache.delete(this.gameToken);
+    this.identityCache.delete(this.tokenHash);
     appLogger.debug("User cache cleared for current token");
   }
 
@@ -252,101 +244,147 @@ export class RateLimitedTwitterClient {
    * Get cache status for debugging
    */
   getCacheStatus(): { hasCachedUser: boolean; cacheAge?: number } {
-    const cached = userCache.get(this.gameToken);
+    const now = Date.now();
+    const cached = this.getFreshCachedUser(now);
     if (!cached) {
       return { hasCachedUser: false };
     }
     return {
       hasCachedUser: true,
-      cacheAge: Date.now() - cached.cachedAt,
+      cacheAge: now - cached.cached_at,
     };
   }
 
   /**
    * Fetch mentions with automatic user ID resolution and proper rate limit tracking
    * This method tracks BOTH get_user and fetch_mentions rate limits
+   *
+   * Capacity for both calls (get_user only on a cache miss) is reserved up
+   * front, so the flow is refused before any call rather than after the user
+   * lookup has already spent budget.
    */
   async fetchUserMentions(
-    options: {
-      max_results?: number;
-      since_id?: string;
+    options: Pick<TimelineParamsV2, "max_results" | "since_id"> & {
       forceRefreshUser?: boolean;
     } = {}
-  ): Promise<any> {
-    // Step 1: Get user ID (tracks get_user if cache miss)
-    const userInfo = await this.getCurrentUserId(
-      options.forceRefreshUser || false
-    );
-
-    // Step 2: Check fetch_mentions rate limit
-    const rateLimitCheck = await globalRateLimiter.canMakeRequest(
-      "fetch_mentions",
-      this.workerId,
-      "high"
-    );
-
-    if (!rateLimitCheck.allowed) {
+  ): Promise<TimelineResponseV2> {
+    const forceRefreshUser = options.forceRefreshUser || false;
+
+    // Step 1: Reserve get_user (if needed) + fetch_mentions together
+    const requests = [
+      ...(forceRefreshUser || !this.getFreshCachedUser()
+        ? [{ endpoint: "get_user" }]
+        : []),
+      { endpoint: "fetch_mentions" },
+    ];
+    const maxWaitMs = this.getQueueWaitMs();
+    const reservation =
+      maxWaitMs > 0
+        ? await this.rateLimiter.waitForCapacity(
+            requests,
+            this.workerId,
+            TWITTER_V2_OPERATIONS.userMentionTimeline.priority,
+            maxWaitMs
+          )
+        : await this.rateLimiter.reserve(requests, this.workerId, {
+            priority: TWITTER_V2_OPERATIONS.userMentionTimeline.priority,
+          });
+
+    if (!reservation.granted) {
       const error = new Error(
-        `Rate limited: ${rateLimitCheck.reason}. Retry in ${rateLimitCheck.retry_after_seconds}s`
+        `Rate limited: ${reservation.reason}. Retry in ${reservation.retry_after_seconds}s`
       );
       (error as any).code = 429;
       appLogger.warn(
         {
-          endpoint: "fetch_mentions",
+          endpoint: reservation.endpoint,
           workerId: this.workerId,
-          reason: rateLimitCheck.reason,
-          retry_after: rateLimitCheck.retry_after_seconds,
+          reason: reservation.reason,
+          retry_after: reservation.retry_after_seconds,
         },
         "Mentions API call blocked by rate limiter"
       );
       throw error;
     }
 
-    // Step 3: Make the mentions API call
+    let succeeded = false;
     try {
-      const timelineParams: any = {
-        max_results: options.max_results || 50,
-        expansions: [
-          "author_id",
-          "referenced_tweets.id",
-          "referenced_tweets.id.author_id", // NEW: Get referenced tweet authors
-        ],
-        "tweet.fields": [
-          "created_at",
-          "public_metrics",
-          "referenced_tweets",
-          "text", // NEW: Ensure complete text
-          "context_annotations", // NEW: Content topic detection
-        ],
-        "user.fields": [
-          "id",
-          "username",
-          "name",
-          "description",
-          "location",
-          "profile_image_url",
-          "url",
-          "verified",
-          "verified_type",
-          "protected",
-          "created_at",
-          "public_metrics",
-          "pinned_tweet_id",
-        ],
-      };
-      if (options.since_id) timelineParams.since_id = options.since_id;
+      const response = await this.fetchMentionsReserved(
+        options,
+        forceRefreshUser,
+        reservation.id
+      );
+      succeeded = true;
+      return response;
+    } finally {
+      await this.finishReservation(reservation.id, succeeded);
+    }
+  }
+
+  private async fetchMentionsReserved(
+    options: Pick<TimelineParamsV2, "max_results" | "since_id">,
+    forceRefreshUser: boolean,
+    reservationId: string
+  ): Promise<TimelineResponseV2> {
+    // Step 2: Get user ID (tracks get_user if cache miss)
+    const userInfo = await this.getCurrentUserId(
+      forceRefreshUser,
+      reservationId
+    );
+
+    // Step 3: Make the mentions API call
+    const timelineParams: TimelineParamsV2 = {
+      max_results: options.max_results || 50,
+      expansions: [
+        "author_id",
+        "referenced_tweets.id",
+        "referenced_tweets.id.author_id", // NEW: Get referenced tweet authors
+      ],
+      "tweet.fields": [
+        "created_at",
+        "public_metrics",
+        "referenced_tweets",
+        "text", // NEW: Ensure complete text
+        "context_annotations", // NEW: Content topic detection
+      ],
+      "user.fields": [
+        "id",
+        "username",
+        "name",
+        "description",
+        "location",
+        "profile_image_url",
+        "url",
+        "verified",
+        "verified_type",
+        "protected",
+        "created_at",
+        "public_metrics",
+        "pinned_tweet_id",
+      ],
+    };
+    if (options.since_id) timelineParams.since_id = options.since_id;
 
-      const response = await this.client.v2.userMentionTimeline(
+    let response: TimelineResponseV2;
+    try {
+      response = await this.transport.v2.userMentionTimeline(
         userInfo.id,
         timelineParams
       );
+    } catch (error: any) {
+      await this.recordFailure("fetch_mentions", "userMentionTimeline", error);
+      throw error;
+    }
 
-      // Step 4: Record fetch_mentions usage
-      await globalRateLimiter.recordUsage(
+    // Step 4: Record fetch_mentions usage (logged, never thrown: the
+    // mentions were fetched)
+    try {
+      await this.rateLimiter.recordUsage(
         "fetch_mentions",
         this.workerId,
         true,
-        this.extractRateLimitHeaders(response)
+        this.extractRateLimitHeaders(response),
+        reservationId
       );
 
       appLogger.info(
@@ -357,82 +395,137 @@ export class RateLimitedTwitterClient {
         },
         "Mentions fetched successfully with proper dual rate limit tracking"
       );
-
-      return response;
-    } catch (error: any) {
-      // Record failed fetch_mentions usage
-      await globalRateLimiter.recordUsage(
+    } catch (recordError: any) {
+      this.logRecordFailure(
         "fetch_mentions",
-        this.workerId,
-        false
+        "userMentionTimeline",
+        recordError
       );
-      throw error;
     }
+
+    return response;
   }
 
   /**
-   * Create a proxy that intercepts method calls and applies rate limiting
+   * Rate-limit one v2 call: wait for (or check) capacity, call the transport,
+   * then record the outcome against the operation's endpoint
    */
-  private createRateLimitedProxy(target: any): any {
-    return new Proxy(target, {
-      get: (obj, prop: string) => {
-        const originalMethod = obj[prop];
-
-        // If it's not a function, return as-is (properties, etc.)
-        if (typeof originalMethod !== "function") {
-          return originalMethod;
-        }
-
-        // Return rate-limited wrapper function
-        return async (...args: any[]) => {
-          const endpoint =
-            RateLimitedTwitterClient.METHOD_ENDPOINTS[
-              prop as keyof typeof RateLimitedTwitterClient.METHOD_ENDPOINTS
-            ];
-
-          if (endpoint) {
-            // Apply rate limiting before call
-            await this.enforceRateLimit(endpoint, prop);
-          }
-
-          try {
-            // Make the actual API call
-            const startTime = Date.now();
-            const result = await originalMethod.apply(obj, args);
-            const duration = Date.now() - startTime;
-
-            if (endpoint) {
-              // Record successful usage and sync with Twitter
-              await this.recordSuccess(endpoint, prop, result, duration);
-            }
-
-            return result;
-          } catch (error: any) {
-            if (endpoint) {
-              // Record failed usage
-              await this.recordFailure(endpoint, prop, error);
-            }
-            throw error; // Re-throw original error
-          }
-        };
-      },
-    });
+  private async callV2<T>(
+    method: TwitterV2Method,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const { endpoint, priority } = TWITTER_V2_OPERATIONS[method];
+
+    // Queued calls come back holding a reservation
+    const reservationId = await this.enforceRateLimit(
+      endpoint,
+      method,
+      priority
+    );
+
+    const startTime = Date.now();
+    let succeeded = false;
+    try {
+      let result: T;
+      try {
+        result = await call();
+      } catch (error: any) {
+        await this.recordFailure(endpoint, method, error);
+        throw error; // Re-throw original error
+      }
+      succeeded = true;
+
+      // Twitter accepted the call; failing to record it must not report it
+      // as failed (a caller could retry a post that went out)
+      try {
+        await this.recordSuccess(
+          endpoint,
+          method,
+          result,
+          Date.now() - startTime,
+          reservationId
+        );
+      } catch (recordError: any) {
+        this.logRecordFailure(endpoint, method, recordError);
+      }
+      return result;
+    } finally {
+      if (reservationId) {
+        await this.finishReservation(reservationId, succeeded);
+      }
+    }
   }
 
   /**
-   * Enforce rate limiting before API call
+   * Commit a reservation whose call went out, or release it; a failure here
+   * is logged so it can't turn an accepted call into an error
    */
-  private async enforceRateLimit(
-    endpoint: string,
-    method: string
+  private async finishReservation(
+    reservationId: string,
+    succeeded: boolean
   ): Promise<void> {
-    const priority = this.getPriorityForEndpoint(endpoint);
+    try {
+      if (succeeded) {
+        await this.rateLimiter.commitReservation(reservationId);
+      } else {
+        await this.rateLimiter.releaseReservation(reservationId);
+      }
+    } catch (error: any) {
+      appLogger.error(
+        {
+          reservation_id: reservationId,
+          workerId: this.workerId,
+          error: error.message,
+        },
+        "Failed to finish rate limit reservation"
+      );
+    }
+  }
 
-    const rateLimitCheck = await globalRateLimiter.canMakeRequest(
-      endpoint,
-      this.workerId,
-      priority
+  private logRecordFailure(endpoint: string, method: string, error: any): void {
+    appLogger.error(
+      { endpoint, method, workerId: this.workerId, error: error.message },
+      "Failed to record successful API call"
     );
+  }
+
+  /**
+   * Enforce rate limiting before API call
+   *
+   * With the request queue enabled the call waits (by priority) for capacity
+   * and returns the reservation holding it; otherwise it fails fast.
+   */
+  private async enforceRateLimit(
+    endpoint: string,
+    method: string,
+    priority: RequestPriority
+  ): Promise<string | undefined> {
+    const maxWaitMs = this.getQueueWaitMs();
+
+    let reservationId: string | undefined;
+    let rateLimitCheck: {
+      allowed: boolean;
+      reason?: string;
+      retry_after_seconds?: number;
+    };
+    if (maxWaitMs > 0) {
+      const reservation = await this.rateLimiter.waitForCapacity(
+        [{ endpoint }],
+        this.workerId,
+        priority,
+        maxWaitMs
+      );
+      if (reservation.granted) reservationId = reservation.id;
+      rateLimitCheck = reservation.granted
+        ? { allowed: true }
+        : { ...reservation, allowed: false };
+    } else {
+      rateLimitCheck = await this.rateLimiter.canMakeRequest(
+        endpoint,
+        this.workerId,
+        priority
+      );
+    }
 
     if (!rateLimitCheck.allowed) {
       const errorMsg = `Rate limited: ${rateLimitCheck.reason}. Retry in ${rateLimitCheck.retry_after_seconds}s`;
@@ -463,6 +556,17 @@ export class RateLimitedTwitterClient {
       { endpoint, method, workerId: this.workerId, priority },
       "Rate limit check passed, proceeding with API call"
     );
+    return reservationId;
+  }
+
+  /**
+   * How long a call may wait for capacity (0 = fail fast)
+   */
+  private getQueueWaitMs(): number {
+    if (this.queueOption === false) return 0;
+    if (this.queueOption) return this.queueOption.maxWaitMs;
+    const { request_queue } = getConfig();
+    return request_queue.enabled ? request_queue.max_wait_seconds * 1000 : 0;
   }
 
   /**
@@ -472,22 +576,24 @@ export class RateLimitedTwitterClient {
     endpoint: string,
     method: string,
     result: any,
-    duration: number
+    duration: number,
+    reservationId?: string
   ): Promise<void> {
     // Extract Twitter's rate limit headers from response
     const rateLimitHeaders = this.extractRateLimitHeaders(result);
 
     // Record usage in our local tracking
-    await globalRateLimiter.recordUsage(
+    await this.rateLimiter.recordUsage(
       endpoint,
       this.workerId,
       true,
-      rateLimitHeaders
+      rateLimitHeaders,
+      reservationId
     );
 
     // Sync with Twitter's actual rate limits if available
     if (result?.rateLimit) {
-      await globalRateLimiter.syncWithTwitter(endpoint, {
+      await this.rateLimiter.syncWithTwitter(endpoint, {
         limit: result.rateLimit.limit,
         remaining: result.rateLimit.remaining,
         reset: result.rateLimit.reset,
@@ -508,6 +614,9 @@ export class RateLimitedTwitterClient {
 
   /**
    * Record failed API call
+   *
+   * A 429 from Twitter means our local model was wrong, so the limiter is
+   * told to block the endpoint until Twitter's reset time.
    */
   private async recordFailure(
     endpoint: string,
@@ -518,7 +627,13 @@ export class RateLimitedTwitterClient {
     const shouldRecord = error.code !== 429;
 
     if (shouldRecord) {
-      await globalRateLimiter.recordUsage(endpoint, this.workerId, false);
+      await this.rateLimiter.recordUsage(endpoint, this.workerId, false);
+    } else {
+      await this.rateLimiter.recordRateLimited(
+        endpoint,
+        this.workerId,
+        this.extractResetFromError(error)
+      );
     }
 
     appLogger.warn(
@@ -534,25 +649,6 @@ export class RateLimitedTwitterClient {
     );
   }
 
-  /**
-   * Get priority level for endpoint
-   */
-  private getPriorityForEndpoint(
-    endpoint: string
-  ): "low" | "medium" | "high" | "critical" {
-    const priorityMap = {
-      fetch_mentions: "high", // Important for real-time responses
-      get_user: "medium", // Needed for user info
-      reply_tweet: "critical", // User interaction is critical
-      like_tweet: "low", // Nice to have
-      search_tweets: "medium", // Content discovery
-    } as const;
-
-    return (
-      priorityMap[endpoint as keyof typeof priorityMap] || this.defaultPriority
-    );
-  }
-
   /**
    * Extract rate limit headers from API response
    */
@@ -568,6 +664,16 @@ export class RateLimitedTwitterClient {
     }
     return undefined;
   }
+
+  /**
+   * Twitter's reset time (epoch seconds) from a failed call, if it sent one
+   */
+  private extractResetFromError(error: any): number | undefined {
+    const reset =
+      error?.rateLimit?.reset ?? error?.headers?.["x-rate-limit-reset"];
+    const parsed = Number(reset);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  }
 }
 
 /**
@@ -0,0 +1,653 @@
+import { appendFileSync, readFileSync, writeFileSync } from "fs";
+import type Database from "better-sqlite3";
+import {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+  GameWorker,
+} from "@virtuals-protocol/game";
+import {
+  createTwitterTransport,
+  setTwitterTransportOverride,
+  TwitterTransport,
+  TwitterV2Transport,
+} from "./twitter-transport";
+import appLogger from "./log";
+
+/**
+ * Record/Replay Harness
+ *
+ * Recording captures, for every agent step, each GameFunction call the planner
+ * made (worker, function, args, result), the Twitter requests/responses behind it
+ * and the SQL mutations it performed. Steps are appended to a JSONL file as they
+ * finish so a crashed or killed loop still leaves a usable recording.
+ *
+ * Replay re-drives the same GameFunctions from the recording instead of the LLM
+ * planner: Twitter responses are served from the file and the clock is shifted
+ * to each call's recorded start time so cadence and rate-limit windows decide the
+ * same way. Any difference in status, feedback or DB writes is reported.
+ */
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+export interface ReplayTwitterCall {
+  method: keyof TwitterV2Transport;
+  args: any[];
+  response?: any;
+  error?: {
+    message: string;
+    code?: number;
+    data?: any;
+    detail?: string;
+    rateLimit?: any;
+  };
+}
+
+export interface ReplayDbMutation {
+  sql: string;
+  params: any[];
+  changes: number;
+}
+
+export interface ReplayFunctionCall {
+  worker_id: string;
+  function_name: string;
+  args: Record<string, any>;
+  started_at: string;
+  duration_ms: number;
+  status: string;
+  feedback: string;
+  twitter_calls: ReplayTwitterCall[];
+  db_mutations: ReplayDbMutation[];
+}
+
+export interface ReplayStep {
+  step: number;
+  started_at: string;
+  finished_at?: string;
+  action_type?: string;
+  error?: string;
+  calls: ReplayFunctionCall[];
+}
+
+export interface ReplayHeader {
+  type: "header";
+  version: number;
+  created_at: string;
+  agent: string;
+  bot_username?: string;
+  self?: { id: string; username: string };
+}
+
+export interface ReplayRecording {
+  header: ReplayHeader;
+  steps: ReplayStep[];
+}
+
+export interface ReplayMismatch {
+  step: number;
+  function_name: string;
+  field: "status" | "feedback" | "twitter_calls" | "db_mutations" | "missing";
+  expected: any;
+  actual: any;
+}
+
+export interface ReplayReport {
+  ok: boolean;
+  steps_replayed: number;
+  calls_replayed: number;
+  mismatches: ReplayMismatch[];
+}
+
+export interface ReplayOptions {
+  database?: Database.Database; // capture mutations during replay for comparison
+  ignoreFeedbackKeys?: string[];
+  ignoreTables?: string[];
+}
+
+// Fields derived from SQLite's clock, wall time or random ids
+const DEFAULT_IGNORED_FEEDBACK_KEYS = [
+  "fetch_id",
+  "original_fetch_id",
+  "fetched_at",
+  "discovery_timestamp",
+  "execution_time_ms",
+];
+// Rate-limit bookkeeping depends on process-local caches, not on decisions
+const DEFAULT_IGNORED_TABLES = [
+  "rate_limits",
+  "rate_limit_reservations",
+  "rate_limit_events",
+  "rate_limit_buckets",
+  "rate_limit_throttles",
+  "identity_cache",
+];
+
+/**
+ * Captures agent steps into a replay file
+ */
+export class ReplayRecorder {
+  private filePath: string;
+  private header: ReplayHeader;
+  private currentStep: ReplayStep | undefined;
+  private currentCall: ReplayFunctionCall | undefined;
+  private headerDirty = false;
+
+  constructor(
+    filePath: string,
+    meta: { agent: string; botUsername?: string | undefined }
+  ) {
+    this.filePath = filePath;
+    this.header = {
+      type: "header",
+      version: REPLAY_FORMAT_VERSION,
+      created_at: new Date().toISOString(),
+      agent: meta.agent,
+    };
+    if (meta.botUsername) this.header.bot_username = meta.botUsername;
+    writeFileSync(this.filePath, JSON.stringify(this.header) + "\n");
+    appLogger.info({ filePath }, "Replay recording started");
+  }
+
+  /**
+   * Hook workers, Twitter transport and database in one go
+   */
+  async install(options: {
+    workers: GameWorker[];
+    gameToken: string;
+    database: Database.Database;
+    snapshotPath?: string;
+  }): Promise<void> {
+    if (options.snapshotPath) {
+      await options.database.backup(options.snapshotPath);
+      appLogger.info(
+        { snapshotPath: options.snapshotPath },
+        "Replay: initial database snapshot written"
+      );
+    }
+    this.instrumentWorkers(options.workers);
+    setTwitterTransportOverride(
+      this.wrapTransport(createTwitterTransport(options.gameToken))
+    );
+    this.attachDatabase(options.database);
+  }
+
+  /**
+   * Wrap every function executable so calls and results are captured
+   */
+  instrumentWorkers(workers: GameWorker[]): void {
+    for (const worker of workers) {
+      for (const fn of worker.functions) {
+        const original = fn.executable;
+        fn.executable = async (args, logger) => {
+          const call = this.beginCall(worker.id, fn.name, args);
+          try {
+            const result = await original(args, logger);
+            this.endCall(call, result.status, result.feedback);
+            return result;
+          } catch (error: any) {
+            this.endCall(
+              call,
+              ExecutableGameFunctionStatus.Failed,
+              error.message
+            );
+            throw error;
+          }
+        };
+      }
+    }
+  }
+
+  /**
+   * Decorate a transport so each request/response lands in the current call
+   */
+  wrapTransport(transport: TwitterTransport): TwitterTransport {
+    const v2 = {} as TwitterV2Transport;
+    for (const method of Object.keys(TRANSPORT_METHODS) as Array<
+      keyof TwitterV2Transport
+    >) {
+      (v2 as any)[method] = async (...args: any[]) => {
+        try {
+          const response = await (transport.v2 as any)[method](...args);
+          this.recordTwitterCall({
+            method,
+            args,
+            response: toPlainResponse(response),
+          });
+          if (method === "me" && response?.data?.id && !this.header.self) {
+            this.header.self = {
+              id: response.data.id,
+              username: response.data.username,
+            };
+            this.headerDirty = true;
+          }
+          return response;
+        } catch (error: any) {
+          this.recordTwitterCall({
+            method,
+            args,
+            error: serializeError(error),
+          });
+          throw error;
+        }
+      };
+    }
+    return { name: `recording:${transport.name}`, v2 };
+  }
+
+  /**
+   * Capture INSERT/UPDATE/DELETE statements into the call in progress
+   */
+  attachDatabase(database: Database.Database): void {
+    captureDatabaseMutations(database, () => this.currentCall?.db_mutations);
+  }
+
+  beginStep(step: number): void {
+    this.currentStep = {
+      step,
+      started_at: new Date().toISOString(),
+      calls: [],
+    };
+  }
+
+  endStep(outcome: { action_type?: string; error?: string } = {}): void {
+    if (!this.currentStep) return;
+    const step = this.currentStep;
+    step.finished_at = new Date().toISOString();
+    if (outcome.action_type) step.action_type = outcome.action_type;
+    if (outcome.error) step.error = outcome.error;
+
+    // Header is rewritten once the bot identity is first seen
+    if (this.headerDirty) {
+      const lines = readFileSync(this.filePath, "utf-8").split("\n");
+      lines[0] = JSON.stringify(this.header);
+      writeFileSync(this.filePath, lines.join("\n"));
+      this.headerDirty = false;
+    }
+    appendFileSync(this.filePath, JSON.stringify(step) + "\n");
+    this.currentStep = undefined;
+  }
+
+  private beginCall(
+    workerId: string,
+    functionName: string,
+    args: Record<string, any>
+  ): ReplayFunctionCall {
+    const call: ReplayFunctionCall = {
+      worker_id: workerId,
+      function_name: functionName,
+      args: { ...args },
+      started_at: new Date().toISOString(),
+      duration_ms: 0,
+      status: "",
+      feedback: "",
+      twitter_calls: [],
+      db_mutations: [],
+    };
+    this.currentCall = call;
+    return call;
+  }
+
+  private endCall(
+    call: ReplayFunctionCall,
+    status: string,
+    feedback: string
+  ): void {
+    call.duration_ms = Date.now() - new Date(call.started_at).getTime();
+    call.status = status;
+    call.feedback = feedback;
+    this.currentCall = undefined;
+
+    // Calls outside agent.step() (e.g. manual runs) become their own step
+    if (!this.currentStep) {
+      this.beginStep(-1);
+      this.currentStep!.calls.push(call);
+      this.endStep();
+      return;
+    }
+    this.currentStep.calls.push(call);
+  }
+
+  private recordTwitterCall(entry: ReplayTwitterCall): void {
+    this.currentCall?.twitter_calls.push(entry);
+  }
+}
+
+/**
+ * Create a recorder; used by the agent loop when AGENT_RECORD_PATH is set
+ */
+export function createReplayRecorder(
+  filePath: string,
+  meta: { agent: string; botUsername?: string | undefined }
+): ReplayRecorder {
+  return new ReplayRecorder(filePath, meta);
+}
+
+/**
+ * Parse a JSONL replay file
+ */
+export function loadReplayRecording(filePath: string): ReplayRecording {
+  const lines = readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line));
+
+  const header = lines[0] as ReplayHeader | undefined;
+  if (!header || header.type !== "header") {
+    throw new Error(`Replay file ${filePath} has no header line`);
+  }
+  if (header.version > REPLAY_FORMAT_VERSION) {
+    throw new Error(
+      `Replay file version ${header.version} is newer than supported ${REPLAY_FORMAT_VERSION}`
+    );
+  }
+  return { header, steps: lines.slice(1) as ReplayStep[] };
+}
+
+/**
+ * Transport that answers from a recorded call list, in order
+ */
+export class ReplayTwitterTransport implements TwitterTransport {
+  readonly name = "replay";
+  readonly v2: TwitterV2Transport;
+  private queue: ReplayTwitterCall[] = [];
+  private served: ReplayTwitterCall[] = [];
+  private self: { id: string; username: string } | undefined;
+
+  constructor(self?: { id: string; username: string }) {
+    this.self = self;
+    const v2 = {} as TwitterV2Transport;
+    for (const method of Object.keys(TRANSPORT_METHODS) as Array<
+      keyof TwitterV2Transport
+    >) {
+      (v2 as any)[method] = async (...args: any[]) => this.serve(method, args);
+    }
+    this.v2 = v2;
+  }
+
+  load(calls: ReplayTwitterCall[]): void {
+    this.queue = [...calls];
+    this.served = [];
+  }
+
+  /**
+   * Calls that were requested during the current function call
+   */
+  get servedCalls(): ReplayTwitterCall[] {
+    return this.served;
+  }
+
+  get remaining(): number {
+    return this.queue.length;
+  }
+
+  private serve(method: keyof TwitterV2Transport, args: any[]): any {
+    // Identity lookups hit the client's in-memory user cache on one side but
+    // not the other; answer or skip them without treating it as divergence
+    if (method !== "me" && this.queue[0]?.method === "me") {
+      this.served.push(this.queue.shift()!);
+    }
+    const next = this.queue[0];
+    if (method === "me" && next?.method !== "me" && this.self) {
+      return { data: { ...this.self } };
+    }
+
+    if (!next || next.method !== method) {
+      throw new Error(
+        `Replay divergence: expected ${next?.method || "no request"}, got ${method}`
+      );
+    }
+
+    this.queue.shift();
+    this.served.push({ ...next, args });
+    if (next.error) {
+      const error = new Error(next.error.message);
+      Object.assign(error, next.error);
+      throw error;
+    }
+    return next.response;
+  }
+}
+
+/**
+ * Re-drive recorded steps against the given workers' functions
+ */
+export async function replayRecording(
+  recording: ReplayRecording,
+  workers: GameWorker[],
+  options: ReplayOptions = {}
+): Promise<ReplayReport> {
+  const ignoreKeys =
+    options.ignoreFeedbackKeys || DEFAULT_IGNORED_FEEDBACK_KEYS;
+  const ignoreTables = options.ignoreTables || DEFAULT_IGNORED_TABLES;
+
+  const functions = new Map<string, GameWorker["functions"][number]>();
+  for (const worker of workers) {
+    for (const fn of worker.functions) functions.set(fn.name, fn);
+  }
+
+  const transport = new ReplayTwitterTransport(recording.header.self);
+  setTwitterTransportOverride(transport);
+
+  let mutations: ReplayDbMutation[] = [];
+  if (options.database) {
+    captureDatabaseMutations(options.database, () => mutations);
+  }
+
+  const report: ReplayReport = {
+    ok: true,
+    steps_replayed: 0,
+    calls_replayed: 0,
+    mismatches: [],
+  };
+  const mismatch = (entry: ReplayMismatch) => {
+    report.ok = false;
+    report.mismatches.push(entry);
+  };
+
+  try {
+    for (const step of recording.steps) {
+      for (const call of step.calls) {
+        const fn = functions.get(call.function_name);
+        if (!fn) {
+          mismatch({
+            step: step.step,
+            function_name: call.function_name,
+            field: "missing",
+            expected: call.function_name,
+            actual: undefined,
+          });
+          continue;
+        }
+
+        transport.load(call.twitter_calls);
+        mutations = [];
+
+        const restoreClock = shiftClock(
+          new Date(call.started_at).getTime() - Date.now()
+        );
+        let result: ExecutableGameFunctionResponse;
+        try {
+          result = await fn.executable(call.args, () => {});
+        } finally {
+          restoreClock();
+        }
+
+        report.calls_replayed++;
+
+        if (result.status !== call.status) {
+          mismatch({
+            step: step.step,
+            function_name: call.function_name,
+            field: "status",
+            expected: call.status,
+            actual: result.status,
+          });
+        }
+
+        const expectedFeedback = normalizeFeedback(call.feedback, ignoreKeys);
+        const actualFeedback = normalizeFeedback(result.feedback, ignoreKeys);
+        if (expectedFeedback !== actualFeedback) {
+          mismatch({
+            step: step.step,
+            function_name: call.function_name,
+            field: "feedback",
+            expected: call.feedback,
+            actual: result.feedback,
+          });
+        }
+
+        if (transport.remaining > 0) {
+          mismatch({
+            step: step.step,
+            function_name: call.function_name,
+            field: "twitter_calls",
+            expected: call.twitter_calls.map((c) => c.method),
+            actual: transport.servedCalls.map((c) => c.method),
+          });
+        }
+
+        if (options.database) {
+          const expectedWrites = summarizeMutations(
+            call.db_mutations,
+            ignoreTables
+          );
+          const actualWrites = summarizeMutations(mutations, ignoreTables);
+          if (JSON.stringify(expectedWrites) !== JSON.stringify(actualWrites)) {
+            mismatch({
+              step: step.step,
+              function_name: call.function_name,
+              field: "db_mutations",
+              expected: expectedWrites,
+              actual: actualWrites,
+            });
+          }
+        }
+      }
+      report.steps_replayed++;
+    }
+  } finally {
+    setTwitterTransportOverride(undefined);
+  }
+
+  appLogger.info(
+    {
+      ok: report.ok,
+      steps: report.steps_replayed,
+      calls: report.calls_replayed,
+      mismatches: report.mismatches.length,
+    },
+    "Replay finished"
+  );
+  return report;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Enumerates the transport methods the harness proxies
+const TRANSPORT_METHODS: Record<keyof TwitterV2Transport, true> = {
+  me: true,
+  userMentionTimeline: true,
+  homeTimeline: true,
+  tweets: true,
+  tweet: true,
+  reply: true,
+};
+
+const RealDate = Date;
+
+/**
+ * Wrap prepare() so non-reader statements report their writes to `sink()`
+ */
+function captureDatabaseMutations(
+  database: Database.Database,
+  sink: () => ReplayDbMutation[] | undefined
+): void {
+  const originalPrepare = database.prepare.bind(database);
+  (database as any).prepare = (sql: string) => {
+    const stmt = originalPrepare(sql);
+    if (stmt.reader) return stmt;
+    const originalRun = stmt.run.bind(stmt);
+    (stmt as any).run = (...params: any[]) => {
+      const info = originalRun(...params);
+      sink()?.push({
+        sql: normalizeSql(sql),
+        params: params.flat(),
+        changes: info.changes,
+      });
+      return info;
+    };
+    return stmt;
+  };
+}
+
+/**
+ * Offset `Date.now()` and `new Date()` by `offsetMs`; returns a restore function
+ */
+function shiftClock(offsetMs: number): () => void {
+  class ShiftedDate extends RealDate {
+    constructor(...args: any[]) {
+      if (args.length === 0) {
+        super(RealDate.now() + offsetMs);
+      } else {
+        super(...(args as [number, number]));
+      }
+    }
+
+    static override now(): number {
+      return RealDate.now() + offsetMs;
+    }
+  }
+  globalThis.Date = ShiftedDate as DateConstructor;
+  return () => {
+    globalThis.Date = RealDate;
+  };
+}
+
+function toPlainResponse(response: any): any {
+  if (!response || typeof response !== "object") return response;
+  // Paginators keep the raw payload on .data; drop methods and internals
+  const plain: Record<string, any> = { data: response.data };
+  if (response.rateLimit) plain.rateLimit = { ...response.rateLimit };
+  return JSON.parse(JSON.stringify(plain));
+}
+
+function serializeError(error: any): NonNullable<ReplayTwitterCall["error"]> {
+  const serialized: NonNullable<ReplayTwitterCall["error"]> = {
+    message: error?.message || String(error),
+  };
+  if (error?.code !== undefined) serialized.code = error.code;
+  if (error?.data !== undefined) serialized.data = error.data;
+  if (error?.detail !== undefined) serialized.detail = error.detail;
+  if (error?.rateLimit !== undefined) serialized.rateLimit = error.rateLimit;
+  return serialized;
+}
+
+function normalizeSql(sql: string): string {
+  return sql.replace(/\s+/g, " ").trim();
+}
+
+function summarizeMutations(
+  mutations: ReplayDbMutation[],
+  ignoreTables: string[]
+): Array<{ sql: string; changes: number }> {
+  return mutations
+    .filter(
+      (m) =>
+        !ignoreTables.some((table) =>
+          new RegExp(`\\b${table}\\b`, "i").test(m.sql)
+        )
+    )
+    .map((m) => ({ sql: m.sql, changes: m.changes }));
+}
+
+function normalizeFeedback(feedback: string, ignoreKeys: string[]): string {
+  try {
+    return JSON.stringify(JSON.parse(feedback), (key, value) =>
+      ignoreKeys.includes(key) ? undefined : value
+    );
+  } catch (_e) {
+    return feedback;
+  }
+}
@@ -0,0 +1,244 @@
+import appLogger from "./log";
+
+/**
+ * Priority Request Queue - Wait for Rate-Limit Capacity Instead of Failing
+ *
+ * Callers that would rather be delayed than refused queue per key (account +
+ * endpoint). The queue keeps waiters ordered by priority, then arrival, and
+ * only the head re-checks capacity: when its attempt is refused it sleeps for
+ * the retry_after the limiter reported (capped at MAX_POLL_MS, so capacity
+ * freed by another process is noticed) and tries again; capacity freed in
+ * this process wakes it straight away. A waiter whose deadline passes is
+ * handed the last refusal so the caller can fail as before; if it gave up
+ * while an attempt that went on to succeed was running, `discard` hands
+ * that attempt back so whatever it holds is released. Queues are
+ * in-process; capacity itself is still shared through the database.
+ */
+
+export type RequestPriority = "low" | "medium" | "high" | "critical";
+
+export interface CapacityAttempt {
+  allowed: boolean;
+  retry_after_seconds?: number;
+  reason?: string;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+const MIN_POLL_MS = 100;
+const MAX_POLL_MS = 30 * 1000;
+
+interface Waiter<T extends CapacityAttempt> {
+  priority: RequestPriority;
+  seq: number;
+  attempt: () => Promise<T>;
+  discard: ((result: T) => Promise<void> | void) | undefined;
+  last: T;
+  resolve: (result: T) => void;
+  timeout: NodeJS.Timeout;
+}
+
+interface KeyQueue {
+  waiters: Waiter<any>[];
+  timer: NodeJS.Timeout | undefined;
+  running: boolean;
+}
+
+export class RequestQueue {
+  private queues = new Map<string, KeyQueue>();
+  private seq = 0;
+
+  /**
+   * Run `attempt` until it is allowed or `maxWaitMs` passes; resolves with
+   * the allowed attempt, or the last refusal on timeout. An attempt that is
+   * allowed straight away (and has nobody ahead of it) never queues.
+   * `discard` gets an allowed attempt whose waiter had already timed out.
+   */
+  async acquire<T extends CapacityAttempt>(
+    key: string,
+    priority: RequestPriority,
+    maxWaitMs: number,
+    attempt: () => Promise<T>,
+    discard?: (result: T) => Promise<void> | void
+  ): Promise<T> {
+    const queue = this.getQueue(key);
+    const ahead = queue.waiters.some(
+      (w) => PRIORITY_RANK[w.priority] <= PRIORITY_RANK[priority]
+    );
+
+    if (!ahead) {
+      const first = await attempt();
+      if (first.allowed || !this.canWait(first, maxWaitMs)) {
+        return first;
+      }
+      return this.enqueue(key, priority, maxWaitMs, attempt, discard, first);
+    }
+    return this.enqueue(key, priority, maxWaitMs, attempt, discard, {
+      allowed: false,
+      reason: "Queued behind earlier requests",
+    } as T);
+  }
+
+  /**
+   * Capacity was freed in this process: let every head retry now rather than
+   * after its poll delay
+   */
+  wake(): void {
+    for (const key of this.queues.keys()) {
+      this.schedule(key, 0);
+    }
+  }
+
+  /**
+   * Waiters per key, for monitoring
+   */
+  getDepths(): Record<string, number> {
+    const depths: Record<string, number> = {};
+    for (const [key, queue] of this.queues) {
+      if (queue.waiters.length > 0) depths[key] = queue.waiters.length;
+    }
+    return depths;
+  }
+
+  // No point queueing when the limiter already says it won't be in time
+  private canWait(result: CapacityAttempt, maxWaitMs: number): boolean {
+    return (
+      maxWaitMs > 0 &&
+      (result.retry_after_seconds === undefined ||
+        result.retry_after_seconds * 1000 <= maxWaitMs)
+    );
+  }
+
+  private enqueue<T extends CapacityAttempt>(
+    key: string,
+    priority: RequestPriority,
+    maxWaitMs: number,
+    attempt: () => Promise<T>,
+    discard: ((result: T) => Promise<void> | void) | undefined,
+    last: T
+  ): Promise<T> {
+    const queue = this.getQueue(key);
+    return new Promise<T>((resolve) => {
+      const waiter: Waiter<T> = {
+        priority,
+        seq: this.seq++,
+        attempt,
+        discard,
+        last,
+        resolve,
+        timeout: setTimeout(() => {
+          this.remove(queue, waiter);
+          appLogger.warn(
+            { key, priority, waited_ms: maxWaitMs, reason: waiter.last.reason },
+            "Queued request gave up waiting for rate-limit capacity"
+          );
+          resolve(waiter.last);
+          this.schedule(key, 0);
+        }, maxWaitMs),
+      };
+
+      queue.waiters.push(waiter);
+      queue.waiters.sort(
+        (a, b) =>
+          PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.seq - b.seq
+      );
+      appLogger.info(
+        {
+          key,
+          priority,
+          depth: queue.waiters.length,
+          retry_after: last.retry_after_seconds,
+        },
+        "Request queued for rate-limit capacity"
+      );
+      this.schedule(key, this.pollDelay(last));
+    });
+  }
+
+  private schedule(key: string, delayMs: number): void {
+    const queue = this.getQueue(key);
+    if (queue.timer) clearTimeout(queue.timer);
+    if (queue.waiters.length === 0) {
+      queue.timer = undefined;
+      return;
+    }
+    queue.timer = setTimeout(() => {
+      queue.timer = undefined;
+      void this.pump(key);
+    }, delayMs);
+  }
+
+  /**
+   * Let the head waiter try; on success move straight on to the next one
+   */
+  private async pump(key: string): Promise<void> {
+    const queue = this.getQueue(key);
+    if (queue.running) return;
+    queue.running = true;
+    try {
+      while (queue.waiters.length > 0) {
+        const head = queue.waiters[0]!;
+        let result: CapacityAttempt;
+        try {
+          result = await head.attempt();
+        } catch (error: any) {
+          result = { allowed: false, reason: error.message };
+        }
+        if (!queue.waiters.includes(head)) {
+          // Gave up while its attempt was running; hand back what it won
+          if (result.allowed) await this.discard(key, head, result);
+          continue;
+        }
+        if (!result.allowed) {
+          head.last = result;
+          this.schedule(key, this.pollDelay(result));
+          return;
+        }
+        clearTimeout(head.timeout);
+        this.remove(queue, head);
+        head.resolve(result);
+      }
+    } finally {
+      queue.running = false;
+    }
+  }
+
+  private async discard(
+    key: string,
+    waiter: Waiter<any>,
+    result: CapacityAttempt
+  ): Promise<void> {
+    try {
+      await waiter.discard?.(result);
+    } catch (error: any) {
+      appLogger.error(
+        { key, error: error.message },
+        "Failed to discard capacity granted after the waiter gave up"
+      );
+    }
+  }
+
+  private pollDelay(result: CapacityAttempt): number {
+    const requested = (result.retry_after_seconds ?? 1) * 1000;
+    return Math.min(MAX_POLL_MS, Math.max(MIN_POLL_MS, requested));
+  }
+
+  private remove(queue: KeyQueue, waiter: Waiter<any>): void {
+    const index = queue.waiters.indexOf(waiter);
+    if (index >= 0) queue.waiters.splice(index, 1);
+  }
+
+  private getQueue(key: string): KeyQueue {
+    let queue = this.queues.get(key);
+    if (!queue) {
+      queue = { waiters: [], timer: undefined, running: false };
+      this.queues.set(key, queue);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,94 @@
+// Retry and dead-letter policy for failed mention replies
+//
+// Twitter errors are split into retryable (server errors, network trouble),
+// deferred (rate-limit refusals, from Twitter or our own limiter) and
+// permanent (duplicate content, deleted or protected tweets, invalid
+// requests). Retryable failures back off exponentially until
+// MENTION_MAX_ATTEMPTS is reached; deferred ones wait for the limit to reset
+// without using up an attempt; permanent ones go straight to 'failed'.
+
+import { getConfig } from "./config";
+
+export type ReplyErrorKind = "retryable" | "deferred" | "permanent";
+
+export interface ReplyErrorClassification {
+  kind: ReplyErrorKind;
+  reason: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Read policy from config (mentions.max_attempts / retry_base_seconds /
+// retry_max_seconds; MENTION_MAX_ATTEMPTS etc. still override via env)
+export const getRetryPolicy = (): RetryPolicy => {
+  const mentions = getConfig().mentions;
+  return {
+    maxAttempts: mentions.max_attempts,
+    baseDelayMs: mentions.retry_base_seconds * 1000,
+    maxDelayMs: mentions.retry_max_seconds * 1000,
+  };
+};
+
+// Classify a Twitter API error raised while posting a reply
+export const classifyReplyError = (error: any): ReplyErrorClassification => {
+  const code = typeof error?.code === "number" ? error.code : undefined;
+  const detail = `${error?.message || ""} ${error?.detail || ""}`.toLowerCase();
+
+  if (code === 429) return { kind: "deferred", reason: "rate_limited" };
+  if (code !== undefined && code >= 500) {
+    return { kind: "retryable", reason: "server_error" };
+  }
+  // Auth problems are a bot configuration issue, not a property of the mention
+  if (code === 401) return { kind: "retryable", reason: "unauthorized" };
+
+  if (detail.includes("duplicate")) {
+    return { kind: "permanent", reason: "duplicate_content" };
+  }
+  if (
+    code === 404 ||
+    detail.includes("deleted") ||
+    detail.includes("not visible") ||
+    detail.includes("not found")
+  ) {
+    return { kind: "permanent", reason: "tweet_unavailable" };
+  }
+  if (code === 403) return { kind: "permanent", reason: "forbidden" };
+  if (code !== undefined && code >= 400) {
+    return { kind: "permanent", reason: "invalid_request" };
+  }
+
+  // No HTTP status: timeouts, DNS, connection resets
+  return { kind: "retryable", reason: "network_error" };
+};
+
+// Delay before attempt number `attempt` (1-based): base * 2^(attempt-1), capped
+export const computeBackoffMs = (
+  attempt: number,
+  policy: RetryPolicy = getRetryPolicy()
+): number =>
+  Math.min(
+    policy.baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0)),
+    policy.maxDelayMs
+  );
+
+// Delay before retrying a rate-limited call: until the reset the error
+// reports, or the base delay when it doesn't say
+export const computeRateLimitDelayMs = (
+  error: any,
+  policy: RetryPolicy = getRetryPolicy(),
+  now = Date.now()
+): number => {
+  const resetMs =
+    typeof error?.rateLimit?.reset === "number"
+      ? error.rateLimit.reset * 1000 - now
+      : typeof error?.retryAfter === "number"
+        ? error.retryAfter * 1000
+        : undefined;
+  return resetMs !== undefined && resetMs > 0
+    ? Math.min(resetMs, policy.maxDelayMs)
+    : policy.baseDelayMs;
+};
@@ -0,0 +1,161 @@
+import type { Tweet } from "./tweet-normalizer";
+import type { DroppedTweet } from "./ranking";
+
+/**
+ * Topic Classifier - Deterministic On-Topic Check
+ *
+ * Maps a tweet to one topic from a fixed taxonomy using its
+ * `context_annotations` (domain and entity names) plus keyword rules on the
+ * text. An annotation match counts double a keyword match; the best-scoring
+ * topic wins, with ties going to the earlier rule. A politics annotation
+ * vetoes the tweet outright; politics keywords alone ("voting", "president")
+ * only win when they outscore every allowed topic, so "DAO voting opens
+ * today" stays crypto. The timeline functions drop what isn't allowed and
+ * `quote_tweet` refuses it, whatever the LLM decided.
+ */
+
+export type Topic =
+  "ai" | "crypto" | "devtools" | "research" | "politics" | "other";
+
+export const ALLOWED_TOPICS: readonly Topic[] = [
+  "ai",
+  "crypto",
+  "devtools",
+  "research",
+];
+
+export interface TopicClassification {
+  topic: Topic;
+  allowed: boolean;
+  matched: string[]; // Signals behind the decision, e.g. 'keyword "llm"'
+}
+
+interface TopicRule {
+  topic: Topic;
+  annotation: RegExp; // Tested against domain and entity names
+  keywords: RegExp; // Tested against the tweet text
+}
+
+const POLITICS_RULE: TopicRule = {
+  topic: "politics",
+  annotation:
+    /\b(politic\w*|elections?|government|congress|parliament|senate|president\w*)\b/i,
+  keywords:
+    /\b(elections?|voting|voters?|ballots?|senate|senators?|congress\w*|parliament|president\w*|democrats?|republicans?|gop|immigration|social security|campaign trail)\b/i,
+};
+
+// In tie-break order
+const TOPIC_RULES: TopicRule[] = [
+  {
+    topic: "ai",
+    annotation:
+      /\b(artificial intelligence|machine learning|deep learning|neural networks?|openai|chatgpt|large language models?)\b/i,
+    keywords:
+      /\b(ai|llms?|gpt-?\d*o?|machine learning|deep learning|neural|transformers?|inference|fine-?tun\w*|openai|anthropic|claude|gemini|ai agents?)\b/i,
+  },
+  {
+    topic: "crypto",
+    annotation:
+      /\b(crypto\w*|bitcoin|ethereum|blockchain|nfts?|digital assets|defi|web3)\b/i,
+    keywords:
+      /\b(crypto\w*|bitcoin|btc|ethereum|eth|solana|defi|blockchain|web3|nfts?|stablecoins?|on-?chain|rollups?|dao|memecoins?|airdrop)\b/i,
+  },
+  {
+    topic: "devtools",
+    annotation:
+      /\b(software\w*|programming|developers?|open source|github|computer science|cloud computing)\b/i,
+    keywords:
+      /\b(typescript|javascript|rust|python|golang|compilers?|apis?|sdks?|cli|github|open[- ]sourc\w*|devtools|frameworks?|debugg\w*|kubernetes|docker|databases?|refactor\w*)\b/i,
+  },
+  {
+    topic: "research",
+    annotation: /\b(science|research|academi\w*|physics|mathematics)\b/i,
+    keywords:
+      /\b(papers?|arxiv|preprints?|research\w*|benchmarks?|peer[- ]review\w*|datasets?)\b/i,
+  },
+];
+
+/**
+ * Classify a tweet into the topic taxonomy
+ */
+export function classifyTopic(
+  tweet: Pick<Tweet, "text" | "context_annotations">
+): TopicClassification {
+  let best: { topic: Topic; score: number; signals: string[] } | undefined;
+  for (const rule of TOPIC_RULES) {
+    const match = matchRule(rule, tweet);
+    if (match.score > 0 && (!best || match.score > best.score)) {
+      best = { topic: rule.topic, ...match };
+    }
+  }
+
+  const politics = matchRule(POLITICS_RULE, tweet);
+  if (politics.annotated || politics.score > (best?.score || 0)) {
+    return { topic: "politics", allowed: false, matched: politics.signals };
+  }
+
+  if (!best) {
+    return { topic: "other", allowed: false, matched: [] };
+  }
+  return {
+    topic: best.topic,
+    allowed: ALLOWED_TOPICS.includes(best.topic),
+    matched: best.signals,
+  };
+}
+
+/**
+ * Keep allowed tweets (tagged with their topic); the rest are returned with
+ * the reason they were dropped
+ */
+export function filterOnTopic<T extends Tweet>(
+  tweets: T[]
+): { kept: Array<T & { topic: Topic }>; dropped: DroppedTweet[] } {
+  const kept: Array<T & { topic: Topic }> = [];
+  const dropped: DroppedTweet[] = [];
+
+  for (const tweet of tweets) {
+    const classification = classifyTopic(tweet);
+    if (classification.allowed) {
+      kept.push({ ...tweet, topic: classification.topic });
+    } else {
+      dropped.push({ id: tweet.id, reason: describeOffTopic(classification) });
+    }
+  }
+
+  return { kept, dropped };
+}
+
+export function describeOffTopic(classification: TopicClassification): string {
+  return classification.matched.length > 0
+    ? `off-topic (${classification.topic}: ${classification.matched.join(", ")})`
+    : `off-topic (${classification.topic})`;
+}
+
+function matchRule(
+  rule: TopicRule,
+  tweet: Pick<Tweet, "text" | "context_annotations">
+): { score: number; signals: string[]; annotated: boolean } {
+  let score = 0;
+  const signals: string[] = [];
+
+  for (const annotation of tweet.context_annotations || []) {
+    const name = [annotation.domain?.name, annotation.entity?.name].find(
+      (candidate) => candidate && rule.annotation.test(candidate)
+    );
+    if (name && !signals.includes(`annotation "${name}"`)) {
+      signals.push(`annotation "${name}"`);
+      score += 2;
+    }
+  }
+
+  const annotated = score > 0;
+
+  const keyword = tweet.text.match(rule.keywords);
+  if (keyword) {
+    signals.push(`keyword "${keyword[0].toLowerCase()}"`);
+    score += 1;
+  }
+
+  return { score, signals, annotated };
+}
@@ -0,0 +1,71 @@
+/**
+ * Tweet Length - Weighted Character Count (twitter-text v3 rules)
+ *
+ * X doesn't count `text.length`: every URL counts as 23 characters whatever
+ * its real length, each emoji (including ZWJ sequences, flags and skin-tone
+ * variants) counts as 2, code points in the Latin/general-punctuation ranges
+ * count as 1, and everything else (CJK, Cyrillic-extended, ...) counts as 2.
+ * Text is NFC-normalized first. Every posting path checks this before
+ * calling the API.
+ */
+
+export const MAX_TWEET_LENGTH = 280;
+export const TWEET_URL_LENGTH = 23; // t.co-wrapped length of any URL
+
+// Code point ranges weighted 1; everything else is weighted 2
+const SINGLE_WEIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+// Shared with the content policy so both count the same URLs and emojis
+export const URL_PATTERN =
+  /\bhttps?:\/\/[^\s]+|\bwww\.[^\s]+|\b[a-z0-9-]+(\.[a-z0-9-]+)*\.(com|io|xyz|org|net|co|gg|app|dev|ai)(\/[^\s]*)?(?![\w.-])/gi;
+
+export const EMOJI_PATTERN =
+  /\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}(\p{Emoji_Modifier}|\uFE0F)*(\u200D\p{Extended_Pictographic}(\p{Emoji_Modifier}|\uFE0F)*)*/gu;
+
+export interface TweetLength {
+  weightedLength: number;
+  valid: boolean; // Non-empty and within MAX_TWEET_LENGTH
+}
+
+/**
+ * Weighted length of `text` as X counts it
+ */
+export function getTweetLength(text: string): number {
+  let remaining = text.normalize("NFC");
+  let length = 0;
+
+  remaining = remaining.replace(URL_PATTERN, () => {
+    length += TWEET_URL_LENGTH;
+    return "";
+  });
+  remaining = remaining.replace(EMOJI_PATTERN, () => {
+    length += 2;
+    return "";
+  });
+
+  for (const char of remaining) {
+    length += codePointWeight(char.codePointAt(0)!);
+  }
+  return length;
+}
+
+export function validateTweetLength(text: string): TweetLength {
+  const weightedLength = getTweetLength(text);
+  return {
+    weightedLength,
+    valid: weightedLength > 0 && weightedLength <= MAX_TWEET_LENGTH,
+  };
+}
+
+function codePointWeight(codePoint: number): number {
+  return SINGLE_WEIGHT_RANGES.some(
+    ([start, end]) => codePoint >= start && codePoint <= end
+  )
+    ? 1
+    : 2;
+}
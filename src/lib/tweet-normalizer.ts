@@ -0,0 +1,212 @@
+import type {
+  TimelineIncludesV2,
+  TweetPublicMetricsV2,
+  TweetV2,
+  UserPublicMetricsV2,
+  UserV2,
+} from "./twitter-v2";
+
+/**
+ * Tweet Normalizer - One Canonical Tweet/User Model
+ *
+ * Mentions, the home timeline and stored suggestions all end up as `Tweet`:
+ * required fields checked, public metrics defaulted to 0, the author resolved
+ * from `includes.users`, and referenced tweets (quoted, replied to,
+ * retweeted) resolved from `includes.tweets` together with their authors.
+ * Optional fields are only set when the API returned them, so serialized
+ * output stays as compact as the raw response.
+ */
+
+export type User = UserV2;
+
+export interface ReferencedTweet {
+  type: string; // "quoted" | "replied_to" | "retweeted"
+  tweet: Tweet;
+}
+
+export interface Tweet extends TweetV2 {
+  author?: User | undefined;
+  referenced?: ReferencedTweet[]; // Referenced tweets found in includes
+}
+
+// Optional user fields copied as-is when present
+const USER_FIELDS = [
+  "name",
+  "description",
+  "location",
+  "profile_image_url",
+  "url",
+  "verified",
+  "verified_type",
+  "protected",
+  "created_at",
+  "pinned_tweet_id",
+] as const;
+
+/**
+ * Canonical user, or undefined when id/username are missing
+ */
+export function normalizeUser(raw: any): User | undefined {
+  if (!raw?.id || !raw.username) return undefined;
+
+  const user: User = { id: String(raw.id), username: String(raw.username) };
+  for (const field of USER_FIELDS) {
+    if (raw[field] !== undefined && raw[field] !== null && raw[field] !== "") {
+      (user as any)[field] = raw[field];
+    }
+  }
+  if (raw.public_metrics) {
+    user.public_metrics = normalizeUserMetrics(raw.public_metrics);
+  }
+  return user;
+}
+
+export function normalizeUserMetrics(raw: any): UserPublicMetricsV2 {
+  return {
+    followers_count: raw?.followers_count || 0,
+    following_count: raw?.following_count || 0,
+    tweet_count: raw?.tweet_count || 0,
+    listed_count: raw?.listed_count || 0,
+  };
+}
+
+export function normalizeTweetMetrics(raw: any): TweetPublicMetricsV2 {
+  return {
+    retweet_count: raw?.retweet_count || 0,
+    like_count: raw?.like_count || 0,
+    reply_count: raw?.reply_count || 0,
+    quote_count: raw?.quote_count || 0,
+    bookmark_count: raw?.bookmark_count || 0,
+    impression_count: raw?.impression_count || 0,
+  };
+}
+
+/**
+ * Lookup tables for one response's includes
+ */
+export class IncludesIndex {
+  private users = new Map<string, User>();
+  private tweets = new Map<string, any>();
+
+  constructor(includes?: TimelineIncludesV2) {
+    for (const raw of includes?.users || []) {
+      const user = normalizeUser(raw);
+      if (user) this.users.set(user.id, user);
+    }
+    for (const raw of includes?.tweets || []) {
+      if (raw?.id) this.tweets.set(String(raw.id), raw);
+    }
+  }
+
+  user(id: string | undefined): User | undefined {
+    return id ? this.users.get(id) : undefined;
+  }
+
+  tweet(id: string): any {
+    return this.tweets.get(id);
+  }
+}
+
+/**
+ * Canonical tweet, or undefined when a required field is missing.
+ * Referenced tweets are resolved one level deep.
+ */
+export function normalizeTweet(
+  raw: any,
+  includes: IncludesIndex = new IncludesIndex(),
+  resolveReferences = true
+): Tweet | undefined {
+  if (!raw?.id || !raw.text || !raw.author_id || !raw.created_at) {
+    return undefined;
+  }
+
+  const tweet: Tweet = {
+    id: String(raw.id),
+    text: String(raw.text),
+    author_id: String(raw.author_id),
+    author: includes.user(String(raw.author_id)),
+    created_at: String(raw.created_at),
+  };
+
+  if (raw.edit_history_tweet_ids) {
+    tweet.edit_history_tweet_ids = raw.edit_history_tweet_ids;
+  }
+  if (raw.public_metrics) {
+    tweet.public_metrics = normalizeTweetMetrics(raw.public_metrics);
+  }
+  if (raw.referenced_tweets) {
+    tweet.referenced_tweets = raw.referenced_tweets;
+  }
+  if (raw.context_annotations) {
+    tweet.context_annotations = raw.context_annotations;
+  }
+
+  if (resolveReferences && raw.referenced_tweets) {
+    const referenced: ReferencedTweet[] = [];
+    for (const ref of raw.referenced_tweets) {
+      const resolved = normalizeTweet(includes.tweet(ref.id), includes, false);
+      if (resolved) referenced.push({ type: ref.type, tweet: resolved });
+    }
+    if (referenced.length > 0) tweet.referenced = referenced;
+  }
+
+  return tweet;
+}
+
+/**
+ * Normalize a response's tweets; ids of tweets missing required fields are
+ * passed to `onSkip`
+ */
+export function normalizeTweets(
+  data: any[] | undefined,
+  includes?: TimelineIncludesV2,
+  onSkip?: (id: string) => void
+): Tweet[] {
+  const index = new IncludesIndex(includes);
+  const tweets: Tweet[] = [];
+  for (const raw of data || []) {
+    const tweet = normalizeTweet(raw, index);
+    if (tweet) {
+      tweets.push(tweet);
+    } else {
+      onSkip?.(raw?.id || "unknown");
+    }
+  }
+  return tweets;
+}
+
+/**
+ * Canonical form of a stored `suggested_tweets` row (author known by
+ * username only; metrics stored as JSON)
+ */
+export function tweetFromSuggestedRow(row: {
+  tweet_id?: string | null;
+  author_id?: string | null;
+  author_username?: string | null;
+  content?: string | null;
+  created_at?: string | null;
+  public_metrics?: string | null;
+}): Tweet | undefined {
+  if (!row.author_username) return undefined;
+
+  let metrics: unknown;
+  if (row.public_metrics) {
+    try {
+      metrics = JSON.parse(row.public_metrics);
+    } catch (_e) {
+      // ignore malformed metrics
+    }
+  }
+
+  const tweet = normalizeTweet({
+    id: row.tweet_id,
+    text: row.content,
+    author_id: row.author_id,
+    created_at: row.created_at,
+    public_metrics: metrics,
+  });
+  if (tweet) {
+    tweet.author = { id: tweet.author_id, username: row.author_username };
+  }
+  return tweet;
+}
@@ -0,0 +1,236 @@
+import {
+  TwitterApi,
+  type ApiV2Includes,
+  type TweetV2 as LibraryTweetV2,
+  type TweetV2HomeTimelineParams,
+  type TweetV2LookupResult,
+  type TweetV2PaginableTimelineResult,
+  type UserV2 as LibraryUserV2,
+} from "@virtuals-protocol/game-twitter-node";
+import { fakeTwitterServer } from "./fake-twitter-server";
+import appLogger from "./log";
+import {
+  normalizeTweetMetrics,
+  normalizeUserMetrics,
+} from "./tweet-normalizer";
+import type {
+  PostTweetPayloadV2,
+  PostTweetResponseV2,
+  RateLimitV2,
+  TimelineIncludesV2,
+  TimelineParamsV2,
+  TimelineResponseV2,
+  TweetLookupResponseV2,
+  TweetV2,
+  TwitterV2Api,
+  UserV2,
+} from "./twitter-v2";
+
+/**
+ * Twitter Transport
+ *
+ * RateLimitedTwitterClient talks to this interface instead of TwitterApi so
+ * the same functions can run against the live API or the in-process fake.
+ * The operations and their shapes are declared in ./twitter-v2.
+ */
+export type TwitterV2Transport = TwitterV2Api;
+
+export interface TwitterTransport {
+  readonly name: string;
+  readonly v2: TwitterV2Transport;
+}
+
+export type TwitterTransportKind = "game" | "fake";
+
+/**
+ * Live transport backed by game-twitter-node
+ *
+ * Each operation maps the library's request and result types (timeline
+ * paginators, optional tweet fields) onto the shapes in ./twitter-v2, so a
+ * library change that breaks them fails the type-check here.
+ */
+export class GameTwitterTransport implements TwitterTransport {
+  readonly name = "game";
+  readonly v2: TwitterV2Transport;
+
+  constructor(gameTwitterAccessToken: string) {
+    const client = new TwitterApi({ gameTwitterAccessToken }).v2;
+
+    this.v2 = {
+      me: async () => ({ data: toUserV2((await client.me()).data) }),
+      userMentionTimeline: async (userId, params) => {
+        const paginator = await client.userMentionTimeline(
+          userId,
+          toLibraryTimelineParams(params)
+        );
+        return toTimelineResponse(paginator.data, paginator.rateLimit);
+      },
+      homeTimeline: async (params) => {
+        const paginator = await client.homeTimeline(
+          toLibraryTimelineParams(params)
+        );
+        return toTimelineResponse(paginator.data, paginator.rateLimit);
+      },
+      tweets: async (ids, params) =>
+        toTweetLookupResponse(
+          await client.tweets(ids, toLibraryTimelineParams(params))
+        ),
+      tweet: async (payload) =>
+        toPostTweetResponse(await client.tweet(toPostPayload(payload))),
+      reply: async (text, inReplyToTweetId) =>
+        toPostTweetResponse(await client.reply(text, inReplyToTweetId)),
+    };
+  }
+}
+
+// The library takes field lists as comma-separated strings
+function toLibraryTimelineParams(
+  params: TimelineParamsV2 = {}
+): Partial<TweetV2HomeTimelineParams> {
+  const {
+    expansions,
+    "tweet.fields": tweetFields,
+    "user.fields": userFields,
+    ...rest
+  } = params;
+  const library: Partial<TweetV2HomeTimelineParams> = { ...rest };
+  if (expansions) library.expansions = expansions.join(",");
+  if (tweetFields) library["tweet.fields"] = tweetFields.join(",");
+  if (userFields) library["user.fields"] = userFields.join(",");
+  return library;
+}
+
+function toTimelineResponse(
+  result: TweetV2PaginableTimelineResult,
+  rateLimit: RateLimitV2 | undefined
+): TimelineResponseV2 {
+  const response: TimelineResponseV2 = {
+    data: {
+      meta: {
+        result_count: result.meta.result_count,
+        newest_id: result.meta.newest_id,
+        oldest_id: result.meta.oldest_id,
+        next_token: result.meta.next_token,
+      },
+    },
+  };
+  if (result.data) response.data.data = result.data.map(toTweetV2);
+  if (result.includes) response.data.includes = toIncludes(result.includes);
+  if (rateLimit) {
+    response.rateLimit = {
+      limit: rateLimit.limit,
+      remaining: rateLimit.remaining,
+      reset: rateLimit.reset,
+    };
+  }
+  return response;
+}
+
+function toTweetLookupResponse(
+  result: TweetV2LookupResult
+): TweetLookupResponseV2 {
+  const response: TweetLookupResponseV2 = { data: {} };
+  if (result.data) response.data.data = result.data.map(toTweetV2);
+  if (result.includes) response.data.includes = toIncludes(result.includes);
+  return response;
+}
+
+function toIncludes(includes: ApiV2Includes): TimelineIncludesV2 {
+  return {
+    ...(includes.users ? { users: includes.users.map(toUserV2) } : {}),
+    ...(includes.tweets ? { tweets: includes.tweets.map(toTweetV2) } : {}),
+    ...(includes.media ? { media: includes.media } : {}),
+    ...(includes.polls ? { polls: includes.polls } : {}),
+    ...(includes.places ? { places: includes.places } : {}),
+  };
+}
+
+// author_id and created_at are only absent when not requested; empty values
+// make the normalizer skip the tweet like any other incomplete one
+function toTweetV2(tweet: LibraryTweetV2): TweetV2 {
+  const mapped: TweetV2 = {
+    id: tweet.id,
+    text: tweet.text,
+    author_id: tweet.author_id ?? "",
+    created_at: tweet.created_at ?? "",
+  };
+  if (tweet.edit_history_tweet_ids) {
+    mapped.edit_history_tweet_ids = tweet.edit_history_tweet_ids;
+  }
+  if (tweet.public_metrics) {
+    mapped.public_metrics = normalizeTweetMetrics(tweet.public_metrics);
+  }
+  if (tweet.referenced_tweets) {
+    mapped.referenced_tweets = tweet.referenced_tweets;
+  }
+  if (tweet.context_annotations) {
+    mapped.context_annotations = tweet.context_annotations;
+  }
+  return mapped;
+}
+
+function toUserV2(user: LibraryUserV2): UserV2 {
+  const { public_metrics, entities, withheld, ...fields } = user;
+  const mapped: UserV2 = { ...fields };
+  if (public_metrics) {
+    mapped.public_metrics = normalizeUserMetrics(public_metrics);
+  }
+  return mapped;
+}
+
+function toPostPayload(
+  payload: string | PostTweetPayloadV2
+): PostTweetPayloadV2 {
+  return typeof payload === "string" ? { text: payload } : payload;
+}
+
+function toPostTweetResponse(result: {
+  data: { id: string; text: string };
+}): PostTweetResponseV2 {
+  return { data: { id: result.data.id, text: result.data.text } };
+}
+
+// Explicit override (replay harness, tests); wins over TWITTER_TRANSPORT
+let transportOverride: TwitterTransport | undefined;
+
+/**
+ * Force every new client onto a specific transport. Pass undefined to clear.
+ */
+export function setTwitterTransportOverride(
+  transport: TwitterTransport | undefined
+): void {
+  transportOverride = transport;
+  appLogger.debug(
+    { transport: transport?.name || "none" },
+    "Twitter transport override updated"
+  );
+}
+
+/**
+ * Resolve the configured transport kind from TWITTER_TRANSPORT (default: game)
+ */
+export function getConfiguredTransportKind(): TwitterTransportKind {
+  const raw = (process.env.TWITTER_TRANSPORT || "game").toLowerCase();
+  if (raw === "fake") return "fake";
+  if (raw !== "game") {
+    appLogger.warn(
+      { TWITTER_TRANSPORT: raw },
+      "Unknown TWITTER_TRANSPORT value, falling back to game"
+    );
+  }
+  return "game";
+}
+
+/**
+ * Factory used by RateLimitedTwitterClient when no transport is injected
+ */
+export function createTwitterTransport(
+  gameTwitterAccessToken: string
+): TwitterTransport {
+  if (transportOverride) return transportOverride;
+
+  if (getConfiguredTransportKind() === "fake") {
+    return fakeTwitterServer.createTransport();
+  }
+  return new GameTwitterTransport(gameTwitterAccessToken);
+}
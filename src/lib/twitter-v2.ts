@@ -0,0 +1,185 @@
+/**
+ * Twitter v2 API Surface
+ *
+ * The v2 operations GlitchBot calls, with their request and response shapes
+ * (timelines resolve to `{ data: { data, includes, meta }, rateLimit }`,
+ * tweet lookups to `{ data: { data, includes }, rateLimit }`, posts to
+ * `{ data: { id, text } }`). Transports implement `TwitterV2Api`
+ * (the live one maps game-twitter-node's paginators onto it), and
+ * RateLimitedTwitterClient exposes the same interface with each call charged
+ * to the endpoint and priority declared in `TWITTER_V2_OPERATIONS`, so an
+ * operation without a rate-limit mapping cannot be called at all.
+ */
+
+import type { RequestPriority } from "./request-queue";
+
+// ---------------------------------------------------------------------------
+// Entities
+// ---------------------------------------------------------------------------
+
+export interface TweetPublicMetricsV2 {
+  retweet_count: number;
+  like_count: number;
+  reply_count: number;
+  quote_count: number;
+  bookmark_count: number;
+  impression_count: number;
+}
+
+export interface UserPublicMetricsV2 {
+  followers_count: number;
+  following_count: number;
+  tweet_count: number;
+  listed_count: number;
+}
+
+export interface ReferencedTweetV2 {
+  type: string; // "quoted" | "replied_to" | "retweeted"
+  id: string;
+}
+
+export interface ContextAnnotationV2 {
+  domain: { id: string; name: string; description?: string };
+  entity: { id: string; name: string; description?: string };
+}
+
+export interface TweetV2 {
+  id: string;
+  text: string;
+  author_id: string;
+  created_at: string;
+  edit_history_tweet_ids?: string[];
+  public_metrics?: TweetPublicMetricsV2 | undefined;
+  referenced_tweets?: ReferencedTweetV2[];
+  context_annotations?: ContextAnnotationV2[];
+}
+
+export interface UserV2 {
+  id: string;
+  username: string;
+  name?: string;
+  description?: string; // bio
+  location?: string;
+  profile_image_url?: string;
+  url?: string;
+  verified?: boolean;
+  verified_type?: string;
+  protected?: boolean;
+  created_at?: string;
+  public_metrics?: UserPublicMetricsV2 | undefined;
+  pinned_tweet_id?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Requests and responses
+// ---------------------------------------------------------------------------
+
+export interface RateLimitV2 {
+  limit: number;
+  remaining: number;
+  reset: number; // Epoch seconds
+}
+
+export type TimelineExcludeV2 = "retweets" | "replies";
+
+export interface TimelineParamsV2 {
+  max_results?: number;
+  since_id?: string;
+  until_id?: string;
+  pagination_token?: string;
+  exclude?: TimelineExcludeV2 | TimelineExcludeV2[]; // Home timeline only
+  expansions?: string[];
+  "tweet.fields"?: string[];
+  "user.fields"?: string[];
+}
+
+export interface TimelineMetaV2 {
+  result_count: number;
+  newest_id?: string | undefined;
+  oldest_id?: string | undefined;
+  next_token?: string | undefined;
+}
+
+export interface TimelineIncludesV2 {
+  users?: UserV2[];
+  tweets?: TweetV2[];
+  media?: any[];
+  polls?: any[];
+  places?: any[];
+}
+
+export interface TimelineResponseV2 {
+  data: {
+    data?: TweetV2[];
+    includes?: TimelineIncludesV2;
+    meta: TimelineMetaV2;
+  };
+  rateLimit?: RateLimitV2;
+}
+
+export type TweetLookupParamsV2 = Pick<
+  TimelineParamsV2,
+  "expansions" | "tweet.fields" | "user.fields"
+>;
+
+export interface TweetLookupResponseV2 {
+  data: {
+    data?: TweetV2[]; // Deleted or hidden tweets are left out
+    includes?: TimelineIncludesV2;
+  };
+  rateLimit?: RateLimitV2;
+}
+
+export interface UserResponseV2 {
+  data: UserV2;
+  rateLimit?: RateLimitV2;
+}
+
+export interface PostTweetPayloadV2 {
+  text: string;
+  reply?: { in_reply_to_tweet_id: string };
+  quote_tweet_id?: string; // Native quote; the quoted tweet isn't in text
+}
+
+export interface PostTweetResponseV2 {
+  data: { id: string; text: string };
+  rateLimit?: RateLimitV2;
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+export interface TwitterV2Api {
+  me(): Promise<UserResponseV2>;
+  userMentionTimeline(
+    userId: string,
+    params?: TimelineParamsV2
+  ): Promise<TimelineResponseV2>;
+  homeTimeline(params?: TimelineParamsV2): Promise<TimelineResponseV2>;
+  tweets(
+    ids: string[],
+    params?: TweetLookupParamsV2
+  ): Promise<TweetLookupResponseV2>;
+  tweet(payload: string | PostTweetPayloadV2): Promise<PostTweetResponseV2>;
+  reply(text: string, inReplyToTweetId: string): Promise<PostTweetResponseV2>;
+}
+
+export type TwitterV2Method = keyof TwitterV2Api;
+
+export interface TwitterV2Operation {
+  endpoint: string; // Rate-limit endpoint the call is charged to
+  priority: RequestPriority;
+}
+
+export const TWITTER_V2_OPERATIONS: Record<
+  TwitterV2Method,
+  TwitterV2Operation
+> = {
+  me: { endpoint: "get_user", priority: "medium" },
+  userMentionTimeline: { endpoint: "fetch_mentions", priority: "high" },
+  homeTimeline: { endpoint: "fetch_timeline", priority: "medium" },
+  tweets: { endpoint: "lookup_tweets", priority: "low" },
+  tweet: { endpoint: "post_tweet", priority: "high" },
+  reply: { endpoint: "reply_tweet", priority: "critical" },
+};
@@ -0,0 +1,106 @@
+import { GameAgent } from "@virtuals-protocol/game";
+import dotenv from "dotenv";
+import { AccountConfig, loadAccounts } from "./lib/accounts";
+import { AppContext, createAppContext } from "./lib/app-context";
+import { printEffectiveConfig } from "./lib/config";
+import { startRuntimeReloader } from "./lib/hot-reload";
+import { DatabaseManager } from "./lib/database-manager";
+import { GlobalEngagementTracker } from "./persistence/global/engagement-tracker";
+import {
+  getAgentLoopSettings,
+  printAgentLoopSettings,
+  runAgentLoop,
+} from "./lib/agent-loop";
+import { createGlitchBotAgent } from "./glitchbot-agent";
+import { createTimelineAgent } from "./timeline-agent";
+
+dotenv.config();
+
+/**
+ * Multi-account runner: every account in GLITCHBOT_ACCOUNTS_FILE gets its own
+ * persona agent and context (token, checkpoints, queue, cadence, rate-limit
+ * buckets) on one shared database, and all step loops run side by side.
+ */
+function createPersonaAgent(apiKey: string, context: AppContext): GameAgent {
+  switch (context.account.agent) {
+    case "timeline":
+      return createTimelineAgent(apiKey, context);
+    case "glitchbot":
+    default:
+      return createGlitchBotAgent(apiKey, context);
+  }
+}
+
+async function main() {
+  console.log("🤖 Starting GlitchBot personas...");
+
+  const apiKey = process.env.VIRTUALS_API_KEY || process.env.GAME_API_KEY;
+  if (!apiKey) {
+    console.error(
+      "❌ Please set VIRTUALS_API_KEY or GAME_API_KEY in your .env file"
+    );
+    process.exit(1);
+  }
+
+  try {
+    printEffectiveConfig();
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  let accounts: AccountConfig[];
+  try {
+    accounts = loadAccounts();
+  } catch (error: any) {
+    console.error(`❌ Invalid accounts configuration: ${error.message}`);
+    process.exit(1);
+  }
+
+  const dbManager = new DatabaseManager();
+  const personas = accounts.map((account) => {
+    const context = createAppContext({ dbManager, account });
+    return {
+      account,
+      agent: createPersonaAgent(apiKey, context),
+      rebuild: () => createPersonaAgent(apiKey, context),
+    };
+  });
+
+  for (const { account, agent } of personas) {
+    await agent.init();
+    console.log(
+      `✅ ${agent.name} initialized for account "${account.id}"${
+        account.botUsername ? ` (@${account.botUsername})` : ""
+      }`
+    );
+  }
+  console.log(`Running ${personas.length} persona(s) continuously...`);
+  console.log("Press Ctrl+C to stop");
+
+  // Cleanup covers every account, so one job per process
+  new GlobalEngagementTracker(dbManager).startCleanupJob();
+
+  const settings = getAgentLoopSettings();
+  printAgentLoopSettings(settings);
+
+  // One watcher for all personas; each loop refreshes its own agent
+  const reloader = startRuntimeReloader(accounts);
+  await Promise.all(
+    personas.map(({ account, agent, rebuild }) =>
+      runAgentLoop(agent, settings, {
+        label: account.id,
+        rebuild,
+        ...(reloader ? { reloader } : {}),
+      })
+    )
+  );
+}
+
+// Graceful shutdown
+process.on("SIGINT", () => {
+  console.log("\n👋 GlitchBot personas shutting down...");
+  process.exit(0);
+});
+
+main().catch(console.error);
@@ -1,9 +1,22 @@
+import {
+  DatabaseManager,
+  getDefaultDatabaseManager,
+} from "../../lib/database-manager";
+import appLogger from "../../lib/log";
+import { DEFAULT_ACCOUNT_ID } from "../../lib/accounts";
+
 /**
  * Global Engagement Tracker - Cross-Worker Engagement Coordination
  *
  * Prevents multiple workers from engaging with the same content
  * Tracks engagement history and patterns
  * Coordinates system-wide engagement strategy
+ *
+ * Locks live in `engagement_locks` (one row per account + tweet), so workers
+ * in different processes sharing the database see each other's claims. A
+ * pending lock expires after its TTL and can then be taken over; a completed
+ * lock means the tweet was engaged and is never handed out again, so cleanup
+ * only prunes failed and expired locks and completed ones are kept for good.
  */
 
 export interface EngagementLock {
@@ -24,58 +37,202 @@ export interface EngagementHistory {
   metadata?: any;
 }
 
+// Failed/expired locks and history rows older than this are removed
+const LOCK_RETENTION_DAYS = 7;
+const HISTORY_RETENTION_DAYS = 30;
+const DEFAULT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
 export class GlobalEngagementTracker {
-  // @ts-ignore - TODO: Will be used when implementing actual logic
-  private _locks: Map<string, EngagementLock> = new Map();
-  // @ts-ignore - TODO: Will be used when implementing actual logic
-  private _history: EngagementHistory[] = [];
+  private dbManager: DatabaseManager;
+
+  // Locks and history are per account (Twitter token)
+  readonly accountId: string;
+
+  constructor(
+    dbManager?: DatabaseManager,
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ) {
+    this.dbManager = dbManager || getDefaultDatabaseManager();
+    this.accountId = accountId;
+  }
 
   /**
    * Request exclusive access to engage with content
+   *
+   * Succeeds when the tweet has no lock, its lock failed or expired, or the
+   * same worker already holds it. The upsert is a single statement, so two
+   * processes racing for the same tweet cannot both win.
    */
   async requestLock(
-    _tweet_id: string,
-    _worker_id: string,
-    _lock_type: EngagementLock["lock_type"],
-    _duration_minutes: number = 15
+    tweet_id: string,
+    worker_id: string,
+    lock_type: EngagementLock["lock_type"],
+    duration_minutes: number = 15
   ): Promise<boolean> {
-    // TODO: Implement distributed locking mechanism
-    // Check if content already locked
-    // Create new lock if available
-    // Return success/failure
-    return false;
+    const now = new Date();
+    const lockedAt = now.toISOString();
+    const expiresAt = new Date(
+      now.getTime() + duration_minutes * 60 * 1000
+    ).toISOString();
+
+    const result = this.dbManager.database
+      .prepare(
+        `INSERT INTO engagement_locks
+          (account_id, tweet_id, lock_type, worker_id, locked_at, expires_at, status)
+         VALUES (?, ?, ?, ?, ?, ?, 'pending')
+         ON CONFLICT(account_id, tweet_id) DO UPDATE SET
+           lock_type = excluded.lock_type,
+           worker_id = excluded.worker_id,
+           locked_at = excluded.locked_at,
+           expires_at = excluded.expires_at,
+           status = 'pending'
+         WHERE engagement_locks.status IN ('failed', 'expired')
+            OR (engagement_locks.status = 'pending'
+                AND (engagement_locks.expires_at < ?
+                     OR engagement_locks.worker_id = excluded.worker_id))`
+      )
+      .run(
+        this.accountId,
+        tweet_id,
+        lock_type,
+        worker_id,
+        lockedAt,
+        expiresAt,
+        lockedAt
+      );
+
+    const acquired = result.changes > 0;
+    if (!acquired) {
+      const existing = this.getLock(tweet_id);
+      appLogger.warn(
+        {
+          account_id: this.accountId,
+          tweet_id,
+          worker_id,
+          lock_type,
+          held_by: existing?.worker_id,
+          status: existing?.status,
+        },
+        "Engagement lock denied"
+      );
+    }
+    return acquired;
   }
 
   /**
    * Release lock after engagement attempt
+   *
+   * Only the holder can release. A successful engagement marks the lock
+   * completed (the tweet stays locked); a failure frees it for a retry.
+   * Quote/reply/like attempts are recorded in engagement_history.
    */
   async releaseLock(
-    _tweet_id: string,
-    _worker_id: string,
-    _success: boolean
+    tweet_id: string,
+    worker_id: string,
+    success: boolean,
+    metadata?: Record<string, any>
   ): Promise<void> {
-    // TODO: Release lock and record engagement result
-    // Update lock status
-    // Add to engagement history
-    // Clean up expired locks
+    const lock = this.getLock(tweet_id);
+    if (!lock || lock.worker_id !== worker_id || lock.status !== "pending") {
+      appLogger.warn(
+        { account_id: this.accountId, tweet_id, worker_id },
+        "Engagement lock release ignored: not held by this worker"
+      );
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const release = this.dbManager.database.transaction(() => {
+      this.dbManager.database
+        .prepare(
+          `UPDATE engagement_locks SET status = ?
+           WHERE account_id = ? AND tweet_id = ? AND worker_id = ?`
+        )
+        .run(
+          success ? "completed" : "failed",
+          this.accountId,
+          tweet_id,
+          worker_id
+        );
+
+      if (lock.lock_type !== "analysis") {
+        this.dbManager.database
+          .prepare(
+            `INSERT INTO engagement_history
+              (account_id, tweet_id, worker_id, action, timestamp, success, metadata)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            this.accountId,
+            tweet_id,
+            worker_id,
+            lock.lock_type,
+            now,
+            success ? 1 : 0,
+            metadata ? JSON.stringify(metadata) : null
+          );
+      }
+    });
+    release();
+  }
+
+  /**
+   * Current lock row for a tweet, if any
+   */
+  getLock(tweet_id: string): EngagementLock | null {
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT tweet_id, worker_id, lock_type, locked_at, expires_at, status
+         FROM engagement_locks WHERE account_id = ? AND tweet_id = ?`
+      )
+      .get(this.accountId, tweet_id) as EngagementLock | undefined;
+    return row || null;
   }
 
   /**
    * Check if content has been engaged with recently
    */
   async hasRecentEngagement(
-    _tweet_id: string,
-    _hours: number = 24
+    tweet_id: string,
+    hours: number = 24
   ): Promise<boolean> {
-    // TODO: Check engagement history
-    // Return true if recently engaged
-    return false;
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT 1 FROM engagement_history
+         WHERE account_id = ? AND tweet_id = ? AND success = 1 AND timestamp >= ?
+         LIMIT 1`
+      )
+      .get(this.accountId, tweet_id, since);
+    return Boolean(row);
+  }
+
+  /**
+   * Engagement history for a tweet, newest first
+   */
+  getHistory(tweet_id: string): EngagementHistory[] {
+    const rows = this.dbManager.database
+      .prepare(
+        `SELECT tweet_id, worker_id, action, timestamp, success, metadata
+         FROM engagement_history
+         WHERE account_id = ? AND tweet_id = ?
+         ORDER BY timestamp DESC, id DESC`
+      )
+      .all(this.accountId, tweet_id) as any[];
+    return rows.map((row) => ({
+      tweet_id: row.tweet_id,
+      worker_id: row.worker_id,
+      action: row.action,
+      timestamp: row.timestamp,
+      success: row.success === 1,
+      ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {}),
+    }));
   }
 
   /**
    * Get system-wide engagement statistics
    */
-  async getEngagementStats(_hours: number = 24): Promise<{
+  async getEngagementStats(hours: number = 24): Promise<{
     total_engagements: number;
     successful_engagements: number;
     quote_tweets: number;
@@ -83,23 +240,90 @@ export class GlobalEngagementTracker {
     likes: number;
     success_rate: number;
   }> {
-    // TODO: Calculate and return engagement metrics
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT
+           COUNT(*) AS total,
+           COALESCE(SUM(success), 0) AS successful,
+           COALESCE(SUM(CASE WHEN action = 'quote' AND success = 1 THEN 1 ELSE 0 END), 0) AS quotes,
+           COALESCE(SUM(CASE WHEN action = 'reply' AND success = 1 THEN 1 ELSE 0 END), 0) AS replies,
+           COALESCE(SUM(CASE WHEN action = 'like' AND success = 1 THEN 1 ELSE 0 END), 0) AS likes
+         FROM engagement_history
+         WHERE account_id = ? AND timestamp >= ?`
+      )
+      .get(this.accountId, since) as {
+      total: number;
+      successful: number;
+      quotes: number;
+      replies: number;
+      likes: number;
+    };
+
     return {
-      total_engagements: 0,
-      successful_engagements: 0,
-      quote_tweets: 0,
-      replies: 0,
-      likes: 0,
-      success_rate: 0,
+      total_engagements: row.total,
+      successful_engagements: row.successful,
+      quote_tweets: row.quotes,
+      replies: row.replies,
+      likes: row.likes,
+      success_rate: row.total > 0 ? row.successful / row.total : 0,
     };
   }
 
   /**
-   * Clean up expired locks and old history
+   * Clean up expired locks and old history (all accounts); completed locks
+   * are never removed
    */
   async cleanup(): Promise<void> {
-    // TODO: Remove expired locks
-    // Archive old engagement history
-    // Optimize data structures
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+    const lockCutoff = new Date(
+      now - LOCK_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+    const historyCutoff = new Date(
+      now - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+    const database = this.dbManager.database;
+
+    const expired = database
+      .prepare(
+        `UPDATE engagement_locks SET status = 'expired'
+         WHERE status = 'pending' AND expires_at < ?`
+      )
+      .run(nowIso).changes;
+    const locksDeleted = database
+      .prepare(
+        `DELETE FROM engagement_locks
+         WHERE status IN ('failed', 'expired') AND locked_at < ?`
+      )
+      .run(lockCutoff).changes;
+    const historyDeleted = database
+      .prepare(`DELETE FROM engagement_history WHERE timestamp < ?`)
+      .run(historyCutoff).changes;
+
+    appLogger.info(
+      { expired, locks_deleted: locksDeleted, history_deleted: historyDeleted },
+      "Engagement tracker cleanup completed"
+    );
+  }
+
+  /**
+   * Run cleanup() on an interval; returns a function that stops the job
+   */
+  startCleanupJob(
+    intervalMs: number = DEFAULT_CLEANUP_INTERVAL_MS
+  ): () => void {
+    const run = () => {
+      this.cleanup().catch((error) =>
+        appLogger.error(
+          { error: error.message },
+          "Engagement tracker cleanup failed"
+        )
+      );
+    };
+    run();
+    const timer = setInterval(run, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
   }
 }
@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import {
+  DatabaseManager,
+  getDefaultDatabaseManager,
+} from "../../lib/database-manager";
+
+/**
+ * Identity Cache - Who Each Token Belongs To
+ *
+ * `v2.me()` spends get_user budget, so the answer is kept in
+ * `identity_cache` and survives restarts and short-lived CLI scripts. Rows
+ * are keyed by a SHA-256 hash of the access token; the token itself is never
+ * stored.
+ */
+
+export interface CachedIdentity {
+  user_id: string;
+  username: string;
+  cached_at: number; // Epoch ms
+}
+
+/**
+ * Cache key for an access token
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export class IdentityCache {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager?: DatabaseManager) {
+    this.dbManager = dbManager || getDefaultDatabaseManager();
+  }
+
+  /**
+   * Cached identity no older than `maxAgeMs`, or null
+   */
+  get(
+    tokenHash: string,
+    maxAgeMs: number,
+    now = Date.now()
+  ): CachedIdentity | null {
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT user_id, username, cached_at FROM identity_cache
+         WHERE token_hash = ? AND cached_at > ?`
+      )
+      .get(tokenHash, now - maxAgeMs) as CachedIdentity | undefined;
+    return row ?? null;
+  }
+
+  set(
+    tokenHash: string,
+    identity: { id: string; username: string },
+    now = Date.now()
+  ): void {
+    this.dbManager.database
+      .prepare(
+        `INSERT OR REPLACE INTO identity_cache (token_hash, user_id, username, cached_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(tokenHash, identity.id, identity.username, now);
+  }
+
+  delete(tokenHash: string): void {
+    this.dbManager.database
+      .prepare(`DELETE FROM identity_cache WHERE token_hash = ?`)
+      .run(tokenHash);
+  }
+
+  /**
+   * Drop expired entries, then the oldest beyond `maxEntries`
+   */
+  prune(maxAgeMs: number, maxEntries: number, now = Date.now()): number {
+    const expired = this.dbManager.database
+      .prepare(`DELETE FROM identity_cache WHERE cached_at <= ?`)
+      .run(now - maxAgeMs).changes;
+    const overflow = this.dbManager.database
+      .prepare(
+        `DELETE FROM identity_cache WHERE token_hash NOT IN (
+           SELECT token_hash FROM identity_cache ORDER BY cached_at DESC LIMIT ?
+         )`
+      )
+      .run(maxEntries).changes;
+    return expired + overflow;
+  }
+
+  count(): number {
+    return (
+      this.dbManager.database
+        .prepare(`SELECT COUNT(*) AS count FROM identity_cache`)
+        .get() as { count: number }
+    ).count;
+  }
+}
@@ -0,0 +1,309 @@
+import {
+  DatabaseManager,
+  getDefaultDatabaseManager,
+} from "../../lib/database-manager";
+import appLogger from "../../lib/log";
+import type GlitchBotDB from "../../lib/db";
+import { normalizeTweets } from "../../lib/tweet-normalizer";
+import type { TwitterV2Api } from "../../lib/twitter-v2";
+import { DEFAULT_ACCOUNT_ID } from "../../lib/accounts";
+import { getConfig } from "../../lib/config";
+import {
+  DEFAULT_FEATURE_WEIGHTS,
+  FEATURE_MAX,
+  FeatureValues,
+  FeatureWeights,
+  RANKING_FEATURES,
+} from "../../lib/ranking";
+
+/**
+ * Ranking Feedback - Feature Weights Learned From Our Own Quotes
+ *
+ * `quote_tweet` records the candidate's feature values next to the id of the
+ * quote we posted (`ranking_outcomes`). Once a quote has had
+ * `ranking.feedback_settle_hours` to collect engagement, the timeline
+ * functions look it up (GET /2/tweets, charged to `lookup_tweets`) into the
+ * tweet cache, and its metrics are compared with the average of earlier
+ * quotes. Features that were strong on
+ * a quote that beat the average gain weight, and lose it on one that fell
+ * short. Weights live in `ranking_weights` per account and are clamped so a
+ * run of bad luck can't switch a feature off.
+ */
+
+const MIN_WEIGHT = 0.25;
+const MAX_WEIGHT = 3;
+
+// Outcomes never observed this many settle periods after posting are closed
+const EXPIRE_AFTER_SETTLE_PERIODS = 7;
+
+// GET /2/tweets takes at most 100 ids per call
+const MAX_LOOKUP_IDS = 100;
+
+interface OutcomeRow {
+  post_id: string;
+  features: string;
+  posted_at: number;
+  public_metrics: string | null;
+  metrics_updated_at: string | null;
+}
+
+export class RankingFeedback {
+  private dbManager: DatabaseManager;
+
+  readonly accountId: string;
+
+  constructor(
+    dbManager?: DatabaseManager,
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ) {
+    this.dbManager = dbManager || getDefaultDatabaseManager();
+    this.accountId = accountId;
+  }
+
+  /**
+   * Learned weights, defaulting to 1 for features without feedback yet
+   */
+  getWeights(): FeatureWeights {
+    const rows = this.dbManager.database
+      .prepare(
+        `SELECT feature, weight FROM ranking_weights WHERE account_id = ?`
+      )
+      .all(this.accountId) as Array<{ feature: string; weight: number }>;
+
+    const weights = { ...DEFAULT_FEATURE_WEIGHTS };
+    for (const row of rows) {
+      if ((RANKING_FEATURES as string[]).includes(row.feature)) {
+        weights[row.feature as keyof FeatureWeights] = row.weight;
+      }
+    }
+    return weights;
+  }
+
+  /**
+   * Remember what a quote was ranked on, so its engagement can be fed back
+   */
+  recordPost(
+    tweetId: string,
+    postId: string,
+    features: FeatureValues,
+    now = Date.now()
+  ): void {
+    this.dbManager.database
+      .prepare(
+        `INSERT OR IGNORE INTO ranking_outcomes
+          (account_id, post_id, tweet_id, features, posted_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(this.accountId, postId, tweetId, JSON.stringify(features), now);
+  }
+
+  /**
+   * Look up settled quotes whose metrics the tweet cache hasn't seen since
+   * they settled, and cache them; returns how many came back. A failed lookup
+   * is logged and tried again on the next call
+   */
+  async fetchOutcomeMetrics(
+    v2: Pick<TwitterV2Api, "tweets">,
+    db: GlitchBotDB,
+    now = Date.now()
+  ): Promise<number> {
+    const settleMs = getSettleMs();
+    const ids = this.getSettledOutcomes(now, settleMs)
+      .filter((outcome) => this.settledEngagement(outcome, settleMs) === null)
+      .map((outcome) => outcome.post_id)
+      .slice(0, MAX_LOOKUP_IDS);
+    if (ids.length === 0) return 0;
+
+    try {
+      const response = await v2.tweets(ids, {
+        expansions: ["author_id"],
+        "tweet.fields": ["created_at", "public_metrics"],
+      });
+      const tweets = normalizeTweets(
+        response.data.data,
+        response.data.includes
+      );
+      db.cacheTweets(tweets);
+      return tweets.length;
+    } catch (error: any) {
+      appLogger.warn(
+        { account_id: this.accountId, post_ids: ids, error: error.message },
+        "Failed to look up quote engagement, will retry"
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * Fold the engagement of every settled quote into the weights; returns how
+   * many outcomes were applied
+   */
+  applyOutcomes(now = Date.now()): number {
+    const { learning_rate } = getConfig().ranking;
+    const settleMs = getSettleMs();
+
+    const apply = this.dbManager.database.transaction(() => {
+      const pending = this.getSettledOutcomes(now, settleMs);
+
+      let applied = 0;
+      for (const outcome of pending) {
+        const engagement = this.settledEngagement(outcome, settleMs);
+        if (engagement === null) {
+          if (
+            outcome.posted_at <=
+            now - settleMs * EXPIRE_AFTER_SETTLE_PERIODS
+          ) {
+            this.closeOutcome(outcome.post_id, null, now);
+          }
+          continue;
+        }
+
+        const baseline = this.getBaselineEngagement();
+        if (baseline !== null) {
+          const reward = clamp(
+            (engagement - baseline) / Math.max(baseline, 1),
+            -1,
+            1
+          );
+          this.updateWeights(
+            JSON.parse(outcome.features) as FeatureValues,
+            reward * learning_rate,
+            now
+          );
+        }
+        this.closeOutcome(outcome.post_id, engagement, now);
+        applied++;
+      }
+      return applied;
+    });
+
+    const applied = apply.immediate();
+    if (applied > 0) {
+      appLogger.info(
+        {
+          account_id: this.accountId,
+          applied,
+          weights: this.getWeights(),
+        },
+        "Ranking weights updated from quote engagement"
+      );
+    }
+    return applied;
+  }
+
+  /**
+   * Apply settled outcomes and return the weights to rank with; ranking
+   * falls back to the defaults rather than failing a timeline fetch
+   */
+  currentWeights(now = Date.now()): FeatureWeights {
+    try {
+      this.applyOutcomes(now);
+      return this.getWeights();
+    } catch (error: any) {
+      appLogger.warn(
+        { account_id: this.accountId, error: error.message },
+        "Failed to load ranking weights, using defaults"
+      );
+      return { ...DEFAULT_FEATURE_WEIGHTS };
+    }
+  }
+
+  // Unapplied outcomes old enough to have settled, oldest first
+  private getSettledOutcomes(now: number, settleMs: number): OutcomeRow[] {
+    return this.dbManager.database
+      .prepare(
+        `SELECT o.post_id, o.features, o.posted_at,
+                t.public_metrics, t.metrics_updated_at
+         FROM ranking_outcomes o
+         LEFT JOIN tweets t ON t.tweet_id = o.post_id
+         WHERE o.account_id = ? AND o.applied_at IS NULL AND o.posted_at <= ?
+         ORDER BY o.posted_at ASC`
+      )
+      .all(this.accountId, now - settleMs) as OutcomeRow[];
+  }
+
+  // Likes, retweets, replies and quotes on our post, if they were captured
+  // after the settle period; null otherwise
+  private settledEngagement(
+    outcome: OutcomeRow,
+    settleMs: number
+  ): number | null {
+    if (!outcome.public_metrics || !outcome.metrics_updated_at) return null;
+    if (
+      new Date(outcome.metrics_updated_at).getTime() <
+      outcome.posted_at + settleMs
+    ) {
+      return null;
+    }
+
+    const metrics = JSON.parse(outcome.public_metrics);
+    return (
+      (metrics.like_count || 0) +
+      (metrics.retweet_count || 0) +
+      (metrics.reply_count || 0) +
+      (metrics.quote_count || 0)
+    );
+  }
+
+  private getBaselineEngagement(): number | null {
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT AVG(engagement) AS average FROM ranking_outcomes
+         WHERE account_id = ? AND engagement IS NOT NULL`
+      )
+      .get(this.accountId) as { average: number | null };
+    return row.average;
+  }
+
+  // Each feature moves in proportion to how much of its range it used
+  private updateWeights(
+    features: FeatureValues,
+    step: number,
+    now: number
+  ): void {
+    const current = this.getWeights();
+    const upsert = this.dbManager.database.prepare(
+      `INSERT INTO ranking_weights (account_id, feature, weight, samples, updated_at)
+       VALUES (?, ?, ?, 1, ?)
+       ON CONFLICT(account_id, feature) DO UPDATE SET
+         weight = excluded.weight,
+         samples = samples + 1,
+         updated_at = excluded.updated_at`
+    );
+
+    for (const feature of RANKING_FEATURES) {
+      const share = clamp(
+        (features[feature] || 0) / FEATURE_MAX[feature],
+        0,
+        1
+      );
+      const weight = clamp(
+        current[feature] + step * share,
+        MIN_WEIGHT,
+        MAX_WEIGHT
+      );
+      upsert.run(this.accountId, feature, weight, now);
+    }
+  }
+
+  private closeOutcome(
+    postId: string,
+    engagement: number | null,
+    now: number
+  ): void {
+    this.dbManager.database
+      .prepare(
+        `UPDATE ranking_outcomes SET engagement = ?, applied_at = ?
+         WHERE account_id = ? AND post_id = ?`
+      )
+      .run(engagement, now, this.accountId, postId);
+  }
+}
+
+function getSettleMs(): number {
+  return getConfig().ranking.feedback_settle_hours * 60 * 60 * 1000;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,433 @@
+import { DatabaseManager } from "../../lib/database-manager";
+import appLogger from "../../lib/log";
+
+/**
+ * Rate-Limit Algorithms - How Each Endpoint's Budget Is Counted
+ *
+ * - fixed_window: epoch-aligned 15min/hour/day buckets in `rate_limits`,
+ *   following Twitter's x-rate-limit-reset when a response reported one.
+ *   Cheap, but a burst at :14 and another at :15 can spend twice the limit.
+ * - sliding_log: every request is logged in `rate_limit_events`; a window
+ *   counts the requests of the last 15min/hour/day, whenever "now" is.
+ * - token_bucket: one bucket per window in `rate_limit_buckets`, holding up
+ *   to `limit` tokens and refilling at limit/window-length. Allows a burst
+ *   of the full limit, then a steady trickle.
+ *
+ * Usage is always recorded in `rate_limits` too (per-worker counts drive the
+ * fair-share check); the configured algorithm decides what is allowed.
+ */
+
+export type RateLimitAlgorithm =
+  "fixed_window" | "sliding_log" | "token_bucket";
+
+export type RateLimitWindowType = "per_15min" | "per_hour" | "per_day";
+
+export const RATE_LIMIT_WINDOWS: Record<RateLimitWindowType, number> = {
+  per_15min: 15 * 60 * 1000,
+  per_hour: 60 * 60 * 1000,
+  per_day: 24 * 60 * 60 * 1000,
+};
+
+export interface WindowEvaluation {
+  used: number; // Requests counted against the limit right now
+  remaining: number; // Requests that would fit right now
+  next_allowed_at: number; // Epoch ms when `units` more requests fit
+  resets_at: number; // Epoch ms when the window is back to full capacity
+}
+
+export interface RateLimitStrategy {
+  readonly algorithm: RateLimitAlgorithm;
+
+  /**
+   * State of one window for an endpoint; `units` is the capacity the caller
+   * needs (including anything held by reservations)
+   */
+  evaluate(
+    endpoint: string,
+    window: RateLimitWindowType,
+    limit: number,
+    units: number,
+    now: number
+  ): WindowEvaluation;
+
+  /**
+   * Count one request against every window of an endpoint
+   */
+  record(
+    endpoint: string,
+    workerId: string,
+    limits: Record<RateLimitWindowType, number>,
+    now: number
+  ): void;
+
+  /**
+   * Drop state that can no longer affect any window (all accounts)
+   */
+  cleanup(now: number): number;
+
+  /**
+   * Drop this account's state (testing helper)
+   */
+  clear(endpoint?: string): void;
+}
+
+export function getWindowStart(
+  window: RateLimitWindowType,
+  now: number
+): number {
+  const duration = RATE_LIMIT_WINDOWS[window];
+  return Math.floor(now / duration) * duration;
+}
+
+/**
+ * Epoch-aligned buckets stored in `rate_limits`
+ */
+export class FixedWindowStrategy implements RateLimitStrategy {
+  readonly algorithm = "fixed_window" as const;
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private accountId: string
+  ) {}
+
+  /**
+   * Usage row for the window containing `now`, treated as empty once
+   * Twitter's reported reset time has passed
+   */
+  getUsage(
+    endpoint: string,
+    window: RateLimitWindowType,
+    now: number
+  ): {
+    total: number;
+    workerUsage: Map<string, number>;
+    twitterResetTime?: number;
+  } {
+    const result = this.dbManager.database
+      .prepare(
+        `SELECT requests_used, worker_usage, twitter_reset_time
+         FROM rate_limits
+         WHERE account_id = ? AND endpoint = ? AND window_type = ? AND window_start = ?`
+      )
+      .get(this.accountId, endpoint, window, getWindowStart(window, now)) as
+      any | undefined;
+
+    if (!result) {
+      return { total: 0, workerUsage: new Map() };
+    }
+
+    const twitterResetTime = result.twitter_reset_time ?? undefined;
+    if (twitterResetTime && now / 1000 >= twitterResetTime) {
+      appLogger.debug(
+        {
+          endpoint,
+          window,
+          twitterResetTime: new Date(twitterResetTime * 1000).toISOString(),
+        },
+        "Twitter reset time has passed, ignoring stored usage"
+      );
+      return { total: 0, workerUsage: new Map(), twitterResetTime };
+    }
+
+    const workerUsage = new Map<string, number>();
+    Object.entries(JSON.parse(result.worker_usage || "{}")).forEach(
+      ([key, value]) => workerUsage.set(key, Number(value) || 0)
+    );
+
+    return {
+      total: result.requests_used || 0,
+      workerUsage,
+      ...(twitterResetTime ? { twitterResetTime } : {}),
+    };
+  }
+
+  evaluate(
+    endpoint: string,
+    window: RateLimitWindowType,
+    limit: number,
+    units: number,
+    now: number
+  ): WindowEvaluation {
+    const usage = this.getUsage(endpoint, window, now);
+    // Twitter's own reset time beats our arithmetic when we have it
+    const resetsAt =
+      usage.twitterResetTime && usage.twitterResetTime * 1000 > now
+        ? usage.twitterResetTime * 1000
+        : getWindowStart(window, now) + RATE_LIMIT_WINDOWS[window];
+    return {
+      used: usage.total,
+      remaining: Math.max(0, limit - usage.total),
+      next_allowed_at: usage.total + units <= limit ? now : resetsAt,
+      resets_at: usage.total > 0 ? resetsAt : now,
+    };
+  }
+
+  record(): void {
+    // Nothing extra: the limiter calls recordWindows() for every algorithm
+  }
+
+  /**
+   * Count one request in every window's rate_limits row
+   */
+  recordWindows(
+    endpoint: string,
+    workerId: string,
+    now: number,
+    twitterResetTime?: number
+  ): void {
+    const upsert = this.dbManager.database.prepare(`
+      INSERT OR REPLACE INTO rate_limits
+      (account_id, endpoint, window_type, window_start, requests_used, worker_usage, twitter_reset_time)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const window of Object.keys(
+      RATE_LIMIT_WINDOWS
+    ) as RateLimitWindowType[]) {
+      const current = this.getUsage(endpoint, window, now);
+      const workerUsage = new Map(current.workerUsage);
+      workerUsage.set(workerId, (workerUsage.get(workerId) || 0) + 1);
+
+      upsert.run(
+        this.accountId,
+        endpoint,
+        window,
+        getWindowStart(window, now),
+        current.total + 1,
+        JSON.stringify(Object.fromEntries(workerUsage)),
+        twitterResetTime
+      );
+    }
+  }
+
+  /**
+   * Store what a window reported after the latest request, for monitoring
+   */
+  snapshot(
+    endpoint: string,
+    window: RateLimitWindowType,
+    algorithm: RateLimitAlgorithm,
+    evaluation: WindowEvaluation,
+    now: number
+  ): void {
+    this.dbManager.database
+      .prepare(
+        `UPDATE rate_limits SET algorithm = ?, remaining = ?, next_allowed_at = ?
+         WHERE account_id = ? AND endpoint = ? AND window_type = ? AND window_start = ?`
+      )
+      .run(
+        algorithm,
+        evaluation.remaining,
+        evaluation.next_allowed_at,
+        this.accountId,
+        endpoint,
+        window,
+        getWindowStart(window, now)
+      );
+  }
+
+  cleanup(now: number): number {
+    return this.dbManager.database
+      .prepare(`DELETE FROM rate_limits WHERE window_start < ?`)
+      .run(now - 7 * RATE_LIMIT_WINDOWS.per_day).changes;
+  }
+
+  clear(endpoint?: string): void {
+    if (endpoint) {
+      this.dbManager.database
+        .prepare(
+          `DELETE FROM rate_limits WHERE account_id = ? AND endpoint = ?`
+        )
+        .run(this.accountId, endpoint);
+    } else {
+      this.dbManager.database
+        .prepare(`DELETE FROM rate_limits WHERE account_id = ?`)
+        .run(this.accountId);
+    }
+  }
+}
+
+/**
+ * One logged timestamp per request; windows slide with the clock
+ */
+export class SlidingLogStrategy implements RateLimitStrategy {
+  readonly algorithm = "sliding_log" as const;
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private accountId: string
+  ) {}
+
+  evaluate(
+    endpoint: string,
+    window: RateLimitWindowType,
+    limit: number,
+    units: number,
+    now: number
+  ): WindowEvaluation {
+    const duration = RATE_LIMIT_WINDOWS[window];
+    const since = now - duration;
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT COUNT(*) AS used, MAX(requested_at) AS newest
+         FROM rate_limit_events
+         WHERE account_id = ? AND endpoint = ? AND requested_at > ?`
+      )
+      .get(this.accountId, endpoint, since) as {
+      used: number;
+      newest: number | null;
+    };
+
+    // A request leaves the window `duration` after it was made, so the
+    // excess-th oldest request decides when enough room frees up
+    let nextAllowedAt = now;
+    const excess = row.used + units - limit;
+    if (excess > 0) {
+      const offset = Math.min(excess, row.used) - 1;
+      const aging = this.dbManager.database
+        .prepare(
+          `SELECT requested_at FROM rate_limit_events
+           WHERE account_id = ? AND endpoint = ? AND requested_at > ?
+           ORDER BY requested_at ASC LIMIT 1 OFFSET ?`
+        )
+        .get(this.accountId, endpoint, since, Math.max(0, offset)) as
+        { requested_at: number } | undefined;
+      nextAllowedAt = aging ? aging.requested_at + duration : now + duration;
+    }
+
+    return {
+      used: row.used,
+      remaining: Math.max(0, limit - row.used),
+      next_allowed_at: nextAllowedAt,
+      resets_at: row.newest !== null ? row.newest + duration : now,
+    };
+  }
+
+  record(
+    endpoint: string,
+    workerId: string,
+    _limits: Record<RateLimitWindowType, number>,
+    now: number
+  ): void {
+    this.dbManager.database
+      .prepare(
+        `INSERT INTO rate_limit_events (account_id, endpoint, worker_id, requested_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(this.accountId, endpoint, workerId, now);
+  }
+
+  cleanup(now: number): number {
+    // The longest window is a day; older requests can't count anywhere
+    return this.dbManager.database
+      .prepare(`DELETE FROM rate_limit_events WHERE requested_at <= ?`)
+      .run(now - RATE_LIMIT_WINDOWS.per_day).changes;
+  }
+
+  clear(endpoint?: string): void {
+    if (endpoint) {
+      this.dbManager.database
+        .prepare(
+          `DELETE FROM rate_limit_events WHERE account_id = ? AND endpoint = ?`
+        )
+        .run(this.accountId, endpoint);
+    } else {
+      this.dbManager.database
+        .prepare(`DELETE FROM rate_limit_events WHERE account_id = ?`)
+        .run(this.accountId);
+    }
+  }
+}
+
+/**
+ * A bucket of `limit` tokens per window, refilled continuously
+ */
+export class TokenBucketStrategy implements RateLimitStrategy {
+  readonly algorithm = "token_bucket" as const;
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private accountId: string
+  ) {}
+
+  /**
+   * Tokens available at `now`; a bucket that was never used is full
+   */
+  private getTokens(
+    endpoint: string,
+    window: RateLimitWindowType,
+    limit: number,
+    now: number
+  ): number {
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT tokens, updated_at FROM rate_limit_buckets
+         WHERE account_id = ? AND endpoint = ? AND window_type = ?`
+      )
+      .get(this.accountId, endpoint, window) as
+      { tokens: number; updated_at: number } | undefined;
+    if (!row) {
+      return limit;
+    }
+    const refillPerMs = limit / RATE_LIMIT_WINDOWS[window];
+    const elapsed = Math.max(0, now - row.updated_at);
+    return Math.min(limit, row.tokens + elapsed * refillPerMs);
+  }
+
+  evaluate(
+    endpoint: string,
+    window: RateLimitWindowType,
+    limit: number,
+    units: number,
+    now: number
+  ): WindowEvaluation {
+    const tokens = this.getTokens(endpoint, window, limit, now);
+    const msPerToken = RATE_LIMIT_WINDOWS[window] / limit;
+    const available = Math.max(0, Math.floor(tokens));
+    return {
+      used: limit - available,
+      remaining: available,
+      next_allowed_at:
+        tokens >= units ? now : now + Math.ceil((units - tokens) * msPerToken),
+      resets_at: now + Math.ceil((limit - tokens) * msPerToken),
+    };
+  }
+
+  record(
+    endpoint: string,
+    _workerId: string,
+    limits: Record<RateLimitWindowType, number>,
+    now: number
+  ): void {
+    const upsert = this.dbManager.database.prepare(`
+      INSERT OR REPLACE INTO rate_limit_buckets
+      (account_id, endpoint, window_type, tokens, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    for (const window of Object.keys(
+      RATE_LIMIT_WINDOWS
+    ) as RateLimitWindowType[]) {
+      // Unchecked (e.g. critical) calls may overdraw; the debt refills first
+      const tokens = this.getTokens(endpoint, window, limits[window], now) - 1;
+      upsert.run(this.accountId, endpoint, window, tokens, now);
+    }
+  }
+
+  cleanup(): number {
+    return 0; // One row per endpoint and window; nothing accumulates
+  }
+
+  clear(endpoint?: string): void {
+    if (endpoint) {
+      this.dbManager.database
+        .prepare(
+          `DELETE FROM rate_limit_buckets WHERE account_id = ? AND endpoint = ?`
+        )
+        .run(this.accountId, endpoint);
+    } else {
+      this.dbManager.database
+        .prepare(`DELETE FROM rate_limit_buckets WHERE account_id = ?`)
+        .run(this.accountId);
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import type { GlitchBotConfig } from "../../lib/config";
+import type { RateLimitAlgorithm } from "./rate-limit-algorithms";
+
+/**
+ * Rate-Limit Profiles - Per-Endpoint Budgets for Each X API Tier
+ *
+ * A deployment picks one profile (config `rate_limit_profile.name`) and the
+ * auth context its token uses (`rate_limit_profile.context`). X publishes
+ * separate limits for user-context calls (OAuth user token, what GAME hands
+ * us) and app-only calls (bearer token); endpoints that don't accept app-only
+ * auth only declare user limits, which then apply in both contexts.
+ *
+ * Figures follow https://docs.x.com/x-api/fundamentals/rate-limits. Limits
+ * X states per 15 minutes are spread over the hour/day windows at the same
+ * rate; limits stated per 24 hours cap every window at the daily figure.
+ * `rate_limits.<endpoint>` in the config still overrides single values.
+ *
+ * X charges replies and posts to the same POST /2/tweets budget, so the
+ * tiers split it between `reply_tweet` (two thirds; mentions come
+ * first) and `post_tweet` rather than granting the full figure to each.
+ */
+
+export type RateLimitProfileName =
+  GlitchBotConfig["rate_limit_profile"]["name"];
+export type RateLimitContext = GlitchBotConfig["rate_limit_profile"]["context"];
+
+export interface WindowLimits {
+  requests_per_15min: number;
+  requests_per_hour: number;
+  requests_per_day: number;
+}
+
+export interface EndpointLimits {
+  user: WindowLimits;
+  app?: WindowLimits; // Only for endpoints that accept app-only auth
+  worker_fair_share: boolean;
+}
+
+export interface RateLimitProfile {
+  description: string;
+  algorithm: RateLimitAlgorithm;
+  endpoints: Record<string, EndpointLimits>;
+}
+
+// N requests per 15 minutes, sustained across the longer windows
+function per15min(n: number): WindowLimits {
+  return {
+    requests_per_15min: n,
+    requests_per_hour: n * 4,
+    requests_per_day: n * 96,
+  };
+}
+
+// N requests per 24 hours, usable in one burst
+function perDay(n: number): WindowLimits {
+  return { requests_per_15min: n, requests_per_hour: n, requests_per_day: n };
+}
+
+// Replies and posts skip the fair-share split so they aren't starved
+const FAIR_SHARE = {
+  fetch_mentions: true,
+  get_user: true,
+  reply_tweet: false,
+  like_tweet: true,
+  search_tweets: true,
+  fetch_timeline: true,
+  lookup_tweets: true,
+  post_tweet: false,
+};
+
+export const RATE_LIMIT_PROFILES: Record<
+  RateLimitProfileName,
+  RateLimitProfile
+> = {
+  // 1 request per minute everywhere; easy to reason about in development
+  testing: {
+    description: "Development limits: 1 request per minute on every endpoint",
+    algorithm: "sliding_log",
+    endpoints: {
+      fetch_mentions: {
+        user: per15min(15),
+        worker_fair_share: FAIR_SHARE.fetch_mentions,
+      },
+      get_user: { user: per15min(15), worker_fair_share: FAIR_SHARE.get_user },
+      reply_tweet: {
+        user: per15min(15),
+        worker_fair_share: FAIR_SHARE.reply_tweet,
+      },
+      like_tweet: {
+        user: per15min(15),
+        worker_fair_share: FAIR_SHARE.like_tweet,
+      },
+      search_tweets: {
+        user: per15min(15),
+        worker_fair_share: FAIR_SHARE.search_tweets,
+      },
+      fetch_timeline: {
+        user: per15min(15),
+        worker_fair_share: FAIR_SHARE.fetch_timeline,
+      },
+      lookup_tweets: {
+        user: per15min(15),
+        worker_fair_share: FAIR_SHARE.lookup_tweets,
+      },
+      post_tweet: {
+        user: per15min(15),
+        worker_fair_share: FAIR_SHARE.post_tweet,
+      },
+    },
+  },
+
+  free: {
+    description: "X API Free tier",
+    algorithm: "sliding_log",
+    endpoints: {
+      fetch_mentions: {
+        user: per15min(1),
+        app: per15min(1),
+        worker_fair_share: FAIR_SHARE.fetch_mentions,
+      },
+      get_user: { user: perDay(25), worker_fair_share: FAIR_SHARE.get_user },
+      // Replies and posts split the 17/day POST /2/tweets budget
+      reply_tweet: {
+        user: perDay(11),
+        worker_fair_share: FAIR_SHARE.reply_tweet,
+      },
+      like_tweet: {
+        user: per15min(1),
+        worker_fair_share: FAIR_SHARE.like_tweet,
+      },
+      search_tweets: {
+        user: per15min(1),
+        app: per15min(1),
+        worker_fair_share: FAIR_SHARE.search_tweets,
+      },
+      fetch_timeline: {
+        user: per15min(1),
+        worker_fair_share: FAIR_SHARE.fetch_timeline,
+      },
+      lookup_tweets: {
+        user: per15min(1),
+        app: per15min(1),
+        worker_fair_share: FAIR_SHARE.lookup_tweets,
+      },
+      post_tweet: {
+        user: perDay(6),
+        worker_fair_share: FAIR_SHARE.post_tweet,
+      },
+    },
+  },
+
+  basic: {
+    description: "X API Basic tier",
+    algorithm: "sliding_log",
+    endpoints: {
+      fetch_mentions: {
+        user: per15min(10),
+        app: per15min(15),
+        worker_fair_share: FAIR_SHARE.fetch_mentions,
+      },
+      get_user: { user: perDay(250), worker_fair_share: FAIR_SHARE.get_user },
+      // Replies and posts split the 100/day POST /2/tweets budget
+      reply_tweet: {
+        user: perDay(67),
+        worker_fair_share: FAIR_SHARE.reply_tweet,
+      },
+      like_tweet: {
+        user: perDay(200),
+        worker_fair_share: FAIR_SHARE.like_tweet,
+      },
+      search_tweets: {
+        user: per15min(60),
+        app: per15min(60),
+        worker_fair_share: FAIR_SHARE.search_tweets,
+      },
+      fetch_timeline: {
+        user: per15min(5),
+        worker_fair_share: FAIR_SHARE.fetch_timeline,
+      },
+      lookup_tweets: {
+        user: per15min(15),
+        app: per15min(15),
+        worker_fair_share: FAIR_SHARE.lookup_tweets,
+      },
+      post_tweet: {
+        user: perDay(33),
+        worker_fair_share: FAIR_SHARE.post_tweet,
+      },
+    },
+  },
+
+  pro: {
+    description: "X API Pro tier",
+    algorithm: "sliding_log",
+    endpoints: {
+      fetch_mentions: {
+        user: per15min(300),
+        app: per15min(450),
+        worker_fair_share: FAIR_SHARE.fetch_mentions,
+      },
+      get_user: { user: per15min(75), worker_fair_share: FAIR_SHARE.get_user },
+      // Replies and posts split the 100/15min POST /2/tweets budget
+      reply_tweet: {
+        user: per15min(67),
+        worker_fair_share: FAIR_SHARE.reply_tweet,
+      },
+      like_tweet: {
+        user: { ...per15min(50), requests_per_day: 1000 },
+        worker_fair_share: FAIR_SHARE.like_tweet,
+      },
+      search_tweets: {
+        user: per15min(300),
+        app: per15min(450),
+        worker_fair_share: FAIR_SHARE.search_tweets,
+      },
+      fetch_timeline: {
+        user: per15min(180),
+        worker_fair_share: FAIR_SHARE.fetch_timeline,
+      },
+      lookup_tweets: {
+        user: per15min(900),
+        app: per15min(450),
+        worker_fair_share: FAIR_SHARE.lookup_tweets,
+      },
+      post_tweet: {
+        user: per15min(33),
+        worker_fair_share: FAIR_SHARE.post_tweet,
+      },
+    },
+  },
+};
+
+/**
+ * Window limits for one endpoint of a profile in the given auth context;
+ * undefined when the profile doesn't know the endpoint
+ */
+export function getProfileLimits(
+  profile: RateLimitProfile,
+  endpoint: string,
+  context: RateLimitContext
+): (WindowLimits & { worker_fair_share: boolean }) | undefined {
+  const limits = profile.endpoints[endpoint];
+  if (!limits) {
+    return undefined;
+  }
+  const windows = (context === "app" && limits.app) || limits.user;
+  return { ...windows, worker_fair_share: limits.worker_fair_share };
+}
@@ -1,8 +1,27 @@
-import { DatabaseManager, databaseManager } from "../../lib/database-manager";
+import {
+  DatabaseManager,
+  getDefaultDatabaseManager,
+} from "../../lib/database-manager";
 import appLogger from "../../lib/log";
+import { DEFAULT_ACCOUNT_ID } from "../../lib/accounts";
+import { getConfig } from "../../lib/config";
+import { ReservationManager, ReservationRequest } from "./reservation-manager";
+import { getProfileLimits, RATE_LIMIT_PROFILES } from "./rate-limit-profiles";
+import { ThrottleManager, ThrottleState } from "./throttle-manager";
+import { RequestPriority, RequestQueue } from "../../lib/request-queue";
+import {
+  FixedWindowStrategy,
+  getWindowStart,
+  RATE_LIMIT_WINDOWS,
+  RateLimitAlgorithm,
+  RateLimitStrategy,
+  RateLimitWindowType,
+  SlidingLogStrategy,
+  TokenBucketStrategy,
+} from "./rate-limit-algorithms";
 
 export interface RateLimitWindow {
-  window_type: "per_15min" | "per_hour" | "per_day";
+  window_type: RateLimitWindowType;
   limit: number;
   used: number;
   reset_time: string;
@@ -15,15 +34,79 @@ export interface RateLimitConfig {
   requests_per_hour: number;
   requests_per_day: number;
   worker_fair_share: boolean;
+  algorithm: RateLimitAlgorithm;
 }
 
-export class GlobalRateLimiter {
-  private dbManager: DatabaseManager;
-  private _configs: Map<string, RateLimitConfig> = new Map();
+export interface WindowCapacity {
+  remaining: number; // After usage and held reservations
+  resets_at: string; // When the window is back to full capacity
+  next_allowed_at: string; // When one more request fits
+}
+
+export type ReservationResult =
+  | { granted: true; id: string; expires_at: string }
+  | {
+      granted: false;
+      endpoint: string;
+      reason: string;
+      retry_after_seconds?: number;
+    };
+
+export type EndpointCapacity = Record<RateLimitWindowType, WindowCapacity> & {
+  algorithm?: RateLimitAlgorithm; // Missing for endpoints without limits
+};
 
-  constructor(dbManager?: DatabaseManager) {
-    this.dbManager = dbManager || databaseManager;
-    this.initializeRateLimits();
+const WINDOW_LABELS: Record<
+  RateLimitWindowType,
+  { reason: string; message: string }
+> = {
+  per_15min: { reason: "15min", message: "15-minute rate limit exceeded" },
+  per_hour: { reason: "Hourly", message: "Hourly rate limit exceeded" },
+  per_day: { reason: "Daily", message: "Daily rate limit exceeded" },
+};
+
+const WINDOW_TYPES = Object.keys(RATE_LIMIT_WINDOWS) as RateLimitWindowType[];
+
+// How long reserved capacity is held if never committed or released
+const DEFAULT_RESERVATION_TTL_SECONDS = 60;
+
+export class GlobalRateLimiter {
+  readonly dbManager: DatabaseManager;
+  readonly reservations: ReservationManager;
+  readonly throttles: ThrottleManager;
+  // Callers waiting for capacity in this process, per endpoint set
+  private queue = new RequestQueue();
+  // Usage is always bucketed here; it also backs the fair-share check
+  private fixedWindow: FixedWindowStrategy;
+  private strategies: Record<RateLimitAlgorithm, RateLimitStrategy>;
+
+  // Each account (Twitter token) has its own usage buckets
+  readonly accountId: string;
+
+  constructor(
+    dbManager?: DatabaseManager,
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ) {
+    this.dbManager = dbManager || getDefaultDatabaseManager();
+    this.accountId = accountId;
+    this.reservations = new ReservationManager(this.dbManager, accountId);
+    this.throttles = new ThrottleManager(this.dbManager, accountId);
+    this.fixedWindow = new FixedWindowStrategy(this.dbManager, accountId);
+    this.strategies = {
+      fixed_window: this.fixedWindow,
+      sliding_log: new SlidingLogStrategy(this.dbManager, accountId),
+      token_bucket: new TokenBucketStrategy(this.dbManager, accountId),
+    };
+    const { name, context } = getConfig().rate_limit_profile;
+    appLogger.info(
+      {
+        account_id: accountId,
+        profile: name,
+        context,
+        endpoints: Object.keys(RATE_LIMIT_PROFILES[name].endpoints),
+      },
+      `Rate limiter initialized with the "${name}" profile (${RATE_LIMIT_PROFILES[name].description})`
+    );
     // Database schema already created by DatabaseManager
   }
 
@@ -37,255 +120,128 @@ export class GlobalRateLimiter {
   // Database schema initialization now handled by DatabaseManager
 
   /**
-   * Initialize Twitter API rate limits - MODIFIED FOR TESTING: 1 per minute for all endpoints
+   * Limits for an endpoint from the configured profile, with any rate_limits
+   * overrides applied (read per call so reloads take effect)
    */
-  private initializeRateLimits(): void {
-    // TESTING CONFIGURATION: All endpoints limited to 1 request per minute
-    // This allows for easier testing and development without hitting real Twitter limits
-
-    this._configs.set("fetch_mentions", {
-      endpoint: "fetch_mentions",
-      requests_per_15min: 15, // 1 per minute = 15 per 15 minutes
-      requests_per_hour: 60, // 1 per minute = 60 per hour
-      requests_per_day: 1440, // 1 per minute = 1440 per day
-      worker_fair_share: true,
-    });
-
-    this._configs.set("get_user", {
-      endpoint: "get_user",
-      requests_per_15min: 15, // 1 per minute = 15 per 15 minutes
-      requests_per_hour: 60, // 1 per minute = 60 per hour
-      requests_per_day: 1440, // 1 per minute = 1440 per day
-      worker_fair_share: true,
-    });
-
-    this._configs.set("reply_tweet", {
-      endpoint: "reply_tweet",
-      requests_per_15min: 15, // 1 per minute = 15 per 15 minutes
-      requests_per_hour: 60, // 1 per minute = 60 per hour
-      requests_per_day: 1440, // 1 per minute = 1440 per day
-      worker_fair_share: false, // Priority for replies
-    });
-
-    this._configs.set("like_tweet", {
-      endpoint: "like_tweet",
-      requests_per_15min: 15, // 1 per minute = 15 per 15 minutes
-      requests_per_hour: 60, // 1 per minute = 60 per hour
-      requests_per_day: 1440, // 1 per minute = 1440 per day
-      worker_fair_share: true,
-    });
-
-    this._configs.set("search_tweets", {
-      endpoint: "search_tweets",
-      requests_per_15min: 15, // 1 per minute = 15 per 15 minutes
-      requests_per_hour: 60, // 1 per minute = 60 per hour
-      requests_per_day: 1440, // 1 per minute = 1440 per day
-      worker_fair_share: true,
-    });
-
-    this._configs.set("fetch_timeline", {
-      endpoint: "fetch_timeline",
-      requests_per_15min: 15, // 1 per minute = 15 per 15 minutes
-      requests_per_hour: 60, // 1 per minute = 60 per hour
-      requests_per_day: 1440, // 1 per minute = 1440 per day
-      worker_fair_share: true,
-    });
-
-    this._configs.set("post_tweet", {
-      endpoint: "post_tweet",
-      requests_per_15min: 15, // 1 per minute = 15 per 15 minutes
-      requests_per_hour: 60, // 1 per minute = 60 per hour
-      requests_per_day: 1440, // 1 per minute = 1440 per day
-      worker_fair_share: false, // Priority for posting
-    });
-
-    appLogger.info(
-      { endpoints: Array.from(this._configs.keys()) },
-      "Rate limiter initialized with TESTING LIMITS: 1 request per minute for all endpoints"
+  private getEndpointConfig(endpoint: string): RateLimitConfig | undefined {
+    const config = getConfig();
+    const profile = RATE_LIMIT_PROFILES[config.rate_limit_profile.name];
+    const base = getProfileLimits(
+      profile,
+      endpoint,
+      config.rate_limit_profile.context
     );
-  }
-
-  /**
-   * Get current time window starts
-   */
-  private getWindowStarts(now = new Date()): {
-    per_15min: number;
-    per_hour: number;
-    per_day: number;
-  } {
-    const timestamp = now.getTime();
+    if (!base) {
+      return undefined;
+    }
+    const override = config.rate_limits[endpoint] || {};
     return {
-      per_15min: Math.floor(timestamp / (15 * 60 * 1000)) * (15 * 60 * 1000),
-      per_hour: Math.floor(timestamp / (60 * 60 * 1000)) * (60 * 60 * 1000),
-      per_day:
-        Math.floor(timestamp / (24 * 60 * 60 * 1000)) * (24 * 60 * 60 * 1000),
+      endpoint,
+      requests_per_15min:
+        override.requests_per_15min ?? base.requests_per_15min,
+      requests_per_hour: override.requests_per_hour ?? base.requests_per_hour,
+      requests_per_day: override.requests_per_day ?? base.requests_per_day,
+      worker_fair_share: override.worker_fair_share ?? base.worker_fair_share,
+      algorithm: override.algorithm ?? profile.algorithm,
     };
   }
 
   /**
-   * Get current usage for endpoint and window (legacy method)
+   * Window limits divided by any backoff multiplier learned from 429s
    */
-  private getCurrentUsage(
-    endpoint: string,
-    windowType: "per_15min" | "per_hour" | "per_day",
-    windowStart: number
-  ): { total: number; workerUsage: Map<string, number> } {
-    // Use the enhanced version internally, but return legacy interface
-    const enhanced = this.getCurrentUsageWithReset(
-      endpoint,
-      windowType,
-      windowStart,
-      new Date()
-    );
+  private getWindowLimits(
+    config: RateLimitConfig,
+    now = Date.now()
+  ): Record<RateLimitWindowType, number> {
+    const multiplier =
+      this.throttles.getState(config.endpoint, now)?.backoff_multiplier ?? 1;
+    const scale = (limit: number) =>
+      Math.max(1, Math.floor(limit / multiplier));
     return {
-      total: enhanced.total,
-      workerUsage: enhanced.workerUsage,
+      per_15min: scale(config.requests_per_15min),
+      per_hour: scale(config.requests_per_hour),
+      per_day: scale(config.requests_per_day),
     };
   }
 
   /**
-   * Get current usage for endpoint and window with Twitter reset time awareness
+   * Refusal while Twitter has told us the endpoint is limited; applies to
+   * every priority and to reserved capacity
    */
-  private getCurrentUsageWithReset(
+  private checkThrottle(
     endpoint: string,
-    windowType: "per_15min" | "per_hour" | "per_day",
-    windowStart: number,
-    now: Date
-  ): {
-    total: number;
-    workerUsage: Map<string, number>;
-    twitterResetTime?: number;
-  } {
-    const stmt = this.dbManager.database.prepare(`
-      SELECT requests_used, worker_usage, twitter_reset_time 
-      FROM rate_limits 
-      WHERE endpoint = ? AND window_type = ? AND window_start = ?
-    `);
-
-    const result = stmt.get(endpoint, windowType, windowStart) as any;
-
-    if (!result) {
-      return { total: 0, workerUsage: new Map() };
-    }
-
-    // Check if Twitter reset time has passed
-    const twitterResetTime = result.twitter_reset_time;
-    if (twitterResetTime && now.getTime() / 1000 >= twitterResetTime) {
-      // Twitter reset time has passed, treat as if no usage
-      appLogger.debug(
-        {
-          endpoint,
-          windowType,
-          twitterResetTime: new Date(twitterResetTime * 1000).toISOString(),
-          now: now.toISOString(),
-        },
-        "Twitter reset time has passed, ignoring stored usage"
-      );
-      return { total: 0, workerUsage: new Map(), twitterResetTime };
+    workerId: string,
+    now: number
+  ): { allowed: false; retry_after_seconds: number; reason: string } | null {
+    const throttle = this.throttles.getState(endpoint, now);
+    if (!throttle?.blocked_until) {
+      return null;
     }
-
-    const workerUsageObj = JSON.parse(result.worker_usage || "{}");
-    const workerUsage = new Map<string, number>();
-    Object.entries(workerUsageObj).forEach(([key, value]) => {
-      workerUsage.set(key, Number(value) || 0);
-    });
-
+    const retryAfter = Math.ceil((throttle.blocked_until - now) / 1000);
+    appLogger.warn(
+      {
+        endpoint,
+        workerId,
+        blocked_until: new Date(throttle.blocked_until).toISOString(),
+      },
+      "Endpoint blocked after Twitter 429"
+    );
     return {
-      total: result.requests_used || 0,
-      workerUsage,
-      twitterResetTime,
+      allowed: false,
+      retry_after_seconds: retryAfter,
+      reason: `Blocked by Twitter until ${new Date(throttle.blocked_until).toISOString()}`,
     };
   }
 
   /**
-   * Calculate reset seconds using Twitter's actual reset time or fallback to math
-   */
-  private calculateResetSeconds(
-    twitterResetTime: number | undefined,
-    windowStart: number,
-    windowDurationSeconds: number,
-    now: Date
-  ): number {
-    const nowTimestamp = now.getTime();
-
-    if (twitterResetTime) {
-      // Use Twitter's actual reset time
-      const resetSeconds = Math.max(
-        0,
-        twitterResetTime - Math.floor(nowTimestamp / 1000)
-      );
-      appLogger.debug(
-        {
-          twitterResetTime: new Date(twitterResetTime * 1000).toISOString(),
-          resetSeconds,
-        },
-        "Using Twitter's actual reset time"
-      );
-      return resetSeconds;
-    } else {
-      // Fall back to mathematical calculation
-      const resetSeconds =
-        windowDurationSeconds - Math.floor((nowTimestamp - windowStart) / 1000);
-      appLogger.debug(
-        {
-          windowStart: new Date(windowStart).toISOString(),
-          windowDuration: windowDurationSeconds,
-          resetSeconds,
-        },
-        "Using mathematical reset calculation (no Twitter reset time available)"
-      );
-      return Math.max(0, resetSeconds);
-    }
-  }
-
-  /**
-   * Update usage for endpoint and window
+   * Check if request is allowed under rate limits
+   *
+   * Units held by outstanding reservations count as used. A call made under
+   * the caller's own reservation (`reservationId`) is allowed while that
+   * reservation still has units for the endpoint.
    */
-  private updateUsage(
+  async canMakeRequest(
     endpoint: string,
-    windowType: "per_15min" | "per_hour" | "per_day",
-    windowStart: number,
     workerId: string,
-    increment = 1,
-    twitterResetTime?: number
-  ): void {
-    const current = this.getCurrentUsage(endpoint, windowType, windowStart);
-    const newWorkerUsage = new Map(current.workerUsage);
-
-    newWorkerUsage.set(
-      workerId,
-      (newWorkerUsage.get(workerId) || 0) + increment
-    );
-
-    const stmt = this.dbManager.database.prepare(`
-      INSERT OR REPLACE INTO rate_limits 
-      (endpoint, window_type, window_start, requests_used, worker_usage, twitter_reset_time)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
-
-    stmt.run(
-      endpoint,
-      windowType,
-      windowStart,
-      current.total + increment,
-      JSON.stringify(Object.fromEntries(newWorkerUsage)),
-      twitterResetTime
-    );
+    priority: "low" | "medium" | "high" | "critical" = "medium",
+    reservationId?: string
+  ): Promise<{
+    allowed: boolean;
+    retry_after_seconds?: number;
+    reason?: string;
+  }> {
+    const blocked = this.checkThrottle(endpoint, workerId, Date.now());
+    if (blocked) {
+      return blocked;
+    }
+    if (reservationId) {
+      const held = this.reservations.getHeld(reservationId, endpoint);
+      if (held && held.units_used < held.units) {
+        appLogger.debug(
+          { endpoint, workerId, reservationId },
+          "Rate limit check passed (reserved capacity)"
+        );
+        return { allowed: true };
+      }
+    }
+    return this.checkCapacity(endpoint, workerId, priority, 1, new Date());
   }
 
   /**
-   * Check if request is allowed under rate limits
+   * Would `units` more requests fit in every window of an endpoint?
    */
-  async canMakeRequest(
+  private checkCapacity(
     endpoint: string,
     workerId: string,
-    priority: "low" | "medium" | "high" | "critical" = "medium"
-  ): Promise<{
+    priority: "low" | "medium" | "high" | "critical",
+    units: number,
+    now: Date
+  ): {
     allowed: boolean;
     retry_after_seconds?: number;
     reason?: string;
-  }> {
-    const config = this._configs.get(endpoint);
+  } {
+    const config = this.getEndpointConfig(endpoint);
     if (!config) {
       appLogger.debug(
         { endpoint },
@@ -294,128 +250,79 @@ export class GlobalRateLimiter {
       return { allowed: true }; // Allow if no config
     }
 
-    const windows = this.getWindowStarts();
-    const now = new Date();
+    const strategy = this.strategies[config.algorithm];
+    const held = this.reservations.getHeldUnits(endpoint, now);
+    const nowMs = now.getTime();
 
     // Check ALL time windows - any one can block the request
-
-    // Check 15-minute window
-    const usage15min = this.getCurrentUsageWithReset(
-      endpoint,
-      "per_15min",
-      windows.per_15min,
-      now
-    );
-
-    if (usage15min.total >= config.requests_per_15min) {
-      const resetSeconds = this.calculateResetSeconds(
-        usage15min.twitterResetTime,
-        windows.per_15min,
-        15 * 60,
-        now
-      );
-
-      appLogger.warn(
-        {
-          endpoint,
-          workerId,
-          used: usage15min.total,
-          limit: config.requests_per_15min,
-          resetIn: resetSeconds,
-          usingTwitterReset: !!usage15min.twitterResetTime,
-        },
-        "15-minute rate limit exceeded"
-      );
-
-      return {
-        allowed: false,
-        retry_after_seconds: resetSeconds,
-        reason: `15min limit exceeded (${usage15min.total}/${config.requests_per_15min})`,
-      };
-    }
-
-    // Check hourly window
-    const usageHour = this.getCurrentUsageWithReset(
-      endpoint,
-      "per_hour",
-      windows.per_hour,
-      now
-    );
-
-    if (usageHour.total >= config.requests_per_hour) {
-      const resetSeconds = this.calculateResetSeconds(
-        usageHour.twitterResetTime,
-        windows.per_hour,
-        60 * 60,
-        now
-      );
-
-      appLogger.warn(
-        {
-          endpoint,
-          workerId,
-          used: usageHour.total,
-          limit: config.requests_per_hour,
-          resetIn: resetSeconds,
-          usingTwitterReset: !!usageHour.twitterResetTime,
-        },
-        "Hourly rate limit exceeded"
+    const limits = this.getWindowLimits(config, nowMs);
+    let used15min = 0;
+    for (const window of WINDOW_TYPES) {
+      const label = WINDOW_LABELS[window];
+      const limit = limits[window];
+      const state = strategy.evaluate(
+        endpoint,
+        window,
+        limit,
+        units + held,
+        nowMs
       );
+      if (window === "per_15min") {
+        used15min = state.used;
+      }
 
-      return {
-        allowed: false,
-        retry_after_seconds: resetSeconds,
-        reason: `Hourly limit exceeded (${usageHour.total}/${config.requests_per_hour})`,
-      };
-    }
-
-    // Check daily window
-    const usageDay = this.getCurrentUsageWithReset(
-      endpoint,
-      "per_day",
-      windows.per_day,
-      now
-    );
-
-    if (usageDay.total >= config.requests_per_day) {
-      const resetSeconds = this.calculateResetSeconds(
-        usageDay.twitterResetTime,
-        windows.per_day,
-        24 * 60 * 60,
-        now
-      );
+      if (state.used + held + units > limit) {
+        // Held units free up when their reservation ends, not with the window
+        const heldUntil =
+          state.used + units <= limit
+            ? this.reservations.getNextExpiry(endpoint, now)
+            : null;
+        const retryAfter = Math.max(
+          0,
+          Math.ceil(
+            (Math.min(state.next_allowed_at, heldUntil ?? Infinity) - nowMs) /
+              1000
+          )
+        );
 
-      appLogger.warn(
-        {
-          endpoint,
-          workerId,
-          used: usageDay.total,
-          limit: config.requests_per_day,
-          resetIn: resetSeconds,
-          usingTwitterReset: !!usageDay.twitterResetTime,
-        },
-        "Daily rate limit exceeded"
-      );
+        appLogger.warn(
+          {
+            endpoint,
+            workerId,
+            algorithm: config.algorithm,
+            used: state.used,
+            held,
+            limit,
+            resetIn: retryAfter,
+          },
+          label.message
+        );
 
-      return {
-        allowed: false,
-        retry_after_seconds: resetSeconds,
-        reason: `Daily limit exceeded (${usageDay.total}/${config.requests_per_day})`,
-      };
+        return {
+          allowed: false,
+          retry_after_seconds: retryAfter,
+          reason: `${label.reason} limit exceeded (${state.used + held}/${limit})`,
+        };
+      }
     }
 
     // Check worker fair share if enabled (only for non-critical requests)
     if (config.worker_fair_share && priority !== "critical") {
+      const usage15min = this.fixedWindow.getUsage(
+        endpoint,
+        "per_15min",
+        nowMs
+      );
       const activeWorkers = Math.max(1, usage15min.workerUsage.size || 1);
       const fairShare = Math.floor(config.requests_per_15min / activeWorkers);
       const workerUsage = usage15min.workerUsage.get(workerId) || 0;
 
-      if (workerUsage >= fairShare) {
-        const resetSeconds =
-          15 * 60 - Math.floor((now.getTime() - windows.per_15min) / 1000);
+      if (workerUsage + units > fairShare) {
+        const windowEnd =
+          getWindowStart("per_15min", nowMs) + RATE_LIMIT_WINDOWS.per_15min;
         return {
           allowed: false,
-          retry_after_seconds: resetSeconds,
+          retry_after_seconds: Math.floor((windowEnd - nowMs) / 1000),
           reason: `Worker fair share exceeded (${workerUsage}/${fairShare})`,
         };
       }
@@ -425,7 +332,9 @@ export class GlobalRateLimiter {
       {
         endpoint,
         workerId,
-        used: usage15min.total,
+        algorithm: config.algorithm,
+        used: used15min,
+        held,
         limit: config.requests_per_15min,
       },
       "Rate limit check passed"
@@ -434,6 +343,122 @@ export class GlobalRateLimiter {
     return { allowed: true };
   }
 
+  /**
+   * Reserve capacity on one or more endpoints for a multi-call flow
+   *
+   * All-or-nothing: either every endpoint has room for its units and the
+   * reservation is stored, or nothing is held. The check and insert run in
+   * an IMMEDIATE transaction so concurrent processes can't both pass.
+   */
+  async reserve(
+    requests: ReservationRequest[],
+    workerId: string,
+    options: {
+      ttlSeconds?: number;
+      priority?: "low" | "medium" | "high" | "critical";
+    } = {}
+  ): Promise<ReservationResult> {
+    const priority = options.priority || "medium";
+    const ttlSeconds = options.ttlSeconds ?? DEFAULT_RESERVATION_TTL_SECONDS;
+    const id = `res_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+    const attempt = this.dbManager.database.transaction(() => {
+      const now = new Date();
+      for (const request of requests) {
+        const check =
+          this.checkThrottle(request.endpoint, workerId, now.getTime()) ||
+          this.checkCapacity(
+            request.endpoint,
+            workerId,
+            priority,
+            request.units ?? 1,
+            now
+          );
+        if (!check.allowed) {
+          return {
+            granted: false as const,
+            endpoint: request.endpoint,
+            reason: check.reason || "Rate limited",
+            ...(check.retry_after_seconds !== undefined
+              ? { retry_after_seconds: check.retry_after_seconds }
+              : {}),
+          };
+        }
+      }
+      const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+      this.reservations.create(id, requests, workerId, expiresAt, now);
+      return {
+        granted: true as const,
+        id,
+        expires_at: expiresAt.toISOString(),
+      };
+    });
+
+    const result = attempt.immediate();
+    appLogger.debug(
+      {
+        workerId,
+        endpoints: requests.map((r) => r.endpoint),
+        granted: result.granted,
+        ...(result.granted ? { reservation_id: result.id } : {}),
+      },
+      "Rate limit reservation requested"
+    );
+    return result;
+  }
+
+  /**
+   * Like reserve(), but waits up to `maxWaitMs` for capacity instead of
+   * refusing. Waiters are served by priority, then arrival; the reservation
+   * keeps a freed slot from being taken between the wait and the call.
+   */
+  async waitForCapacity(
+    requests: ReservationRequest[],
+    workerId: string,
+    priority: RequestPriority,
+    maxWaitMs: number
+  ): Promise<ReservationResult> {
+    const key = requests.map((r) => r.endpoint).join("+");
+    return this.queue.acquire(
+      key,
+      priority,
+      maxWaitMs,
+      async () => {
+        const result = await this.reserve(requests, workerId, { priority });
+        return result.granted
+          ? { ...result, allowed: true }
+          : { ...result, allowed: false };
+      },
+      // Granted after the caller stopped waiting: nobody will use it
+      async (late) => {
+        if (late.granted) await this.releaseReservation(late.id);
+      }
+    );
+  }
+
+  /**
+   * Number of callers waiting for capacity, per endpoint set
+   */
+  getQueueDepths(): Record<string, number> {
+    return this.queue.getDepths();
+  }
+
+  /**
+   * Finish a reservation after its calls succeeded (unused units are freed)
+   */
+  async commitReservation(reservationId: string): Promise<void> {
+    this.reservations.commit(reservationId);
+    this.queue.wake();
+  }
+
+  /**
+   * Abandon a reservation (unused units are freed)
+   */
+  async releaseReservation(reservationId: string): Promise<void> {
+    this.reservations.release(reservationId);
+    this.queue.wake();
+  }
+
   /**
    * Record API request usage
    */
@@ -441,7 +466,8 @@ export class GlobalRateLimiter {
     endpoint: string,
     workerId: string,
     success: boolean,
-    responseHeaders?: Record<string, string>
+    responseHeaders?: Record<string, string>,
+    reservationId?: string
   ): Promise<void> {
     if (!success) {
       appLogger.debug(
@@ -451,7 +477,12 @@ export class GlobalRateLimiter {
       return;
     }
 
-    const windows = this.getWindowStarts();
+    const now = Date.now();
+
+    // The call now shows up in rate_limits, so it no longer counts as held
+    if (reservationId) {
+      this.reservations.consume(reservationId, endpoint);
+    }
 
     // Extract Twitter's reset time if available
     let twitterResetTime: number | undefined;
@@ -460,30 +491,33 @@ export class GlobalRateLimiter {
     }
 
     // Update all time windows
-    this.updateUsage(
-      endpoint,
-      "per_15min",
-      windows.per_15min,
-      workerId,
-      1,
-      twitterResetTime
-    );
-    this.updateUsage(
-      endpoint,
-      "per_hour",
-      windows.per_hour,
-      workerId,
-      1,
-      twitterResetTime
-    );
-    this.updateUsage(
-      endpoint,
-      "per_day",
-      windows.per_day,
-      workerId,
-      1,
-      twitterResetTime
-    );
+    this.fixedWindow.recordWindows(endpoint, workerId, now, twitterResetTime);
+
+    const config = this.getEndpointConfig(endpoint);
+    if (config) {
+      const limits = this.getWindowLimits(config);
+      const strategy = this.strategies[config.algorithm];
+      strategy.record(endpoint, workerId, limits, now);
+
+      // Leave what each window now reports on its rate_limits row
+      const held = this.reservations.getHeldUnits(endpoint, new Date(now));
+      for (const window of WINDOW_TYPES) {
+        const state = strategy.evaluate(
+          endpoint,
+          window,
+          limits[window],
+          1 + held,
+          now
+        );
+        this.fixedWindow.snapshot(
+          endpoint,
+          window,
+          config.algorithm,
+          { ...state, remaining: Math.max(0, state.remaining - held) },
+          now
+        );
+      }
+    }
 
     // Log Twitter API rate limit headers if available
     if (responseHeaders) {
@@ -522,11 +556,10 @@ export class GlobalRateLimiter {
     const twitterUsed = twitterRateLimit.limit - twitterRateLimit.remaining;
 
     // Get our local tracking for 15-minute window
-    const windows = this.getWindowStarts();
-    const localUsage = this.getCurrentUsage(
+    const localUsage = this.fixedWindow.getUsage(
       endpoint,
       "per_15min",
-      windows.per_15min
+      Date.now()
     );
 
     // If there's a significant discrepancy, log it
@@ -555,73 +588,102 @@ export class GlobalRateLimiter {
         "Rate limit in sync with Twitter API"
       );
     }
+
+    // Twitter has nothing left for us; don't spend a call finding out
+    if (twitterRateLimit.remaining === 0 && resetTime.getTime() > Date.now()) {
+      this.throttles.block(endpoint, resetTime.getTime());
+    }
   }
 
   /**
-   * Get remaining capacity for endpoint
+   * Learn from a Twitter 429: block the endpoint until Twitter's reset time
+   * (epoch seconds, from x-rate-limit-reset) and back off on repeats
    */
-  async getRemainingCapacity(endpoint: string): Promise<{
-    per_15min: { remaining: number; resets_at: string };
-    per_hour: { remaining: number; resets_at: string };
-    per_day: { remaining: number; resets_at: string };
-  }> {
-    const config = this._configs.get(endpoint);
+  async recordRateLimited(
+    endpoint: string,
+    workerId: string,
+    resetSeconds?: number
+  ): Promise<ThrottleState> {
+    const state = this.throttles.record429(endpoint, resetSeconds);
+    appLogger.warn(
+      {
+        endpoint,
+        workerId,
+        blocked_until: new Date(state.blocked_until!).toISOString(),
+        backoff_multiplier: state.backoff_multiplier,
+        consecutive_429s: state.consecutive_429s,
+      },
+      "Twitter returned 429; endpoint throttled"
+    );
+    return state;
+  }
+
+  /**
+   * Get remaining capacity for endpoint, as counted by its algorithm
+   */
+  async getRemainingCapacity(endpoint: string): Promise<EndpointCapacity> {
+    const now = Date.now();
+    const config = this.getEndpointConfig(endpoint);
     if (!config) {
-      const now = new Date();
-      return {
-        per_15min: { remaining: 0, resets_at: now.toISOString() },
-        per_hour: { remaining: 0, resets_at: now.toISOString() },
-        per_day: { remaining: 0, resets_at: now.toISOString() },
-      };
+      const nowIso = new Date(now).toISOString();
+      const none = { remaining: 0, resets_at: nowIso, next_allowed_at: nowIso };
+      return { per_15min: none, per_hour: none, per_day: none };
     }
 
-    const windows = this.getWindowStarts();
-
-    const usage15min = this.getCurrentUsage(
-      endpoint,
-      "per_15min",
-      windows.per_15min
-    );
-    const usageHour = this.getCurrentUsage(
-      endpoint,
-      "per_hour",
-      windows.per_hour
-    );
-    const usageDay = this.getCurrentUsage(endpoint, "per_day", windows.per_day);
+    const strategy = this.strategies[config.algorithm];
+    const limits = this.getWindowLimits(config, now);
+    const blockedUntil = this.throttles.getState(endpoint, now)?.blocked_until;
+    // Reserved-but-unused units are not available to anyone else
+    const held = this.reservations.getHeldUnits(endpoint, new Date(now));
 
-    return {
-      per_15min: {
-        remaining: Math.max(0, config.requests_per_15min - usage15min.total),
-        resets_at: new Date(windows.per_15min + 15 * 60 * 1000).toISOString(),
-      },
-      per_hour: {
-        remaining: Math.max(0, config.requests_per_hour - usageHour.total),
-        resets_at: new Date(windows.per_hour + 60 * 60 * 1000).toISOString(),
-      },
-      per_day: {
-        remaining: Math.max(0, config.requests_per_day - usageDay.total),
-        resets_at: new Date(
-          windows.per_day + 24 * 60 * 60 * 1000
-        ).toISOString(),
-      },
-    };
+    const capacity = {} as Record<RateLimitWindowType, WindowCapacity>;
+    for (const window of WINDOW_TYPES) {
+      const state = strategy.evaluate(
+        endpoint,
+        window,
+        limits[window],
+        1 + held,
+        now
+      );
+      capacity[window] = blockedUntil
+        ? {
+            remaining: 0,
+            resets_at: new Date(
+              Math.max(state.resets_at, blockedUntil)
+            ).toISOString(),
+            next_allowed_at: new Date(
+              Math.max(state.next_allowed_at, blockedUntil)
+            ).toISOString(),
+          }
+        : {
+            remaining: Math.max(0, state.remaining - held),
+            resets_at: new Date(state.resets_at).toISOString(),
+            next_allowed_at: new Date(state.next_allowed_at).toISOString(),
+          };
+    }
+    return { algorithm: config.algorithm, ...capacity };
   }
 
   /**
    * Clean up old usage history
    */
   async cleanup(): Promise<void> {
-    const cutoff = Date.now() - 7 * 24 * 60 * 60 * 1000; // 7 days ago
-
-    const stmt = this.dbManager.database.prepare(`
-      DELETE FROM rate_limits 
-      WHERE window_start < ?
-    `);
-
-    const result = stmt.run(cutoff);
+    const now = Date.now();
+    const deleted = new Map<RateLimitAlgorithm, number>();
+    for (const strategy of Object.values(this.strategies)) {
+      deleted.set(strategy.algorithm, strategy.cleanup(now));
+    }
+    const reservations = this.reservations.cleanup(new Date(now));
+    const throttles = this.throttles.cleanup(now);
 
     appLogger.info(
-      { deleted_records: result.changes },
+      {
+        deleted_records: deleted.get("fixed_window"),
+        deleted_events: deleted.get("sliding_log"),
+        expired_reservations: reservations.expired,
+        deleted_reservations: reservations.deleted,
+        deleted_throttles: throttles,
+      },
       "Rate limiter cleanup completed"
     );
   }
@@ -630,24 +692,21 @@ export class GlobalRateLimiter {
    * Reset rate limits for testing purposes (USE WITH CAUTION)
    */
   async resetLimitsForTesting(endpoint?: string): Promise<void> {
-    let stmt;
-    let result;
+    for (const strategy of Object.values(this.strategies)) {
+      strategy.clear(endpoint);
+    }
+    this.throttles.clear(endpoint);
 
     if (endpoint) {
-      stmt = this.dbManager.database.prepare(
-        `DELETE FROM rate_limits WHERE endpoint = ?`
-      );
-      result = stmt.run(endpoint);
       appLogger.warn(
-        { endpoint, deleted_records: result.changes },
+        { account_id: this.accountId, endpoint },
         "Rate limits reset for specific endpoint (TESTING ONLY)"
       );
     } else {
-      stmt = this.dbManager.database.prepare(`DELETE FROM rate_limits`);
-      result = stmt.run();
+      this.reservations.clear();
       appLogger.warn(
-        { deleted_records: result.changes },
-        "ALL rate limits reset (TESTING ONLY)"
+        { account_id: this.accountId },
+        "ALL rate limits reset for account (TESTING ONLY)"
       );
     }
   }
@@ -661,6 +720,9 @@ export class GlobalRateLimiter {
     oldestWindow: string;
     newestWindow: string;
     cacheHits: number;
+    limits: Record<string, EndpointCapacity>;
+    throttles: ThrottleState[]; // Endpoints blocked or backing off after 429s
+    queued: Record<string, number>; // Callers waiting for capacity
   }> {
     const stmt = this.dbManager.database.prepare(`
       SELECT 
@@ -669,20 +731,42 @@ export class GlobalRateLimiter {
         MIN(datetime(window_start/1000, 'unixepoch')) as oldest_window,
         MAX(datetime(window_start/1000, 'unixepoch')) as newest_window
       FROM rate_limits
-      WHERE requests_used > 0
+      WHERE account_id = ? AND requests_used > 0
     `);
 
-    const result = stmt.get() as any;
+    const result = stmt.get(this.accountId) as any;
+
+    // Live view per endpoint, whichever algorithm counts it
+    const limits: Record<string, EndpointCapacity> = {};
+    const endpoints = Object.keys(
+      RATE_LIMIT_PROFILES[getConfig().rate_limit_profile.name].endpoints
+    );
+    for (const endpoint of endpoints) {
+      limits[endpoint] = await this.getRemainingCapacity(endpoint);
+    }
 
     return {
-      endpoints: Array.from(this._configs.keys()),
+      endpoints,
       totalUsage: result.total_usage || 0,
       oldestWindow: result.oldest_window || "none",
       newestWindow: result.newest_window || "none",
       cacheHits: 0, // Would need to track this separately
+      limits,
+      throttles: this.throttles.getAll(),
+      queued: this.queue.getDepths(),
     };
   }
 }
 
-// Global singleton instance
-export const globalRateLimiter = new GlobalRateLimiter();
+// Process-wide default, bound to the default DatabaseManager on first use
+let defaultRateLimiter: GlobalRateLimiter | undefined;
+
+/**
+ * Shared rate limiter for clients that aren't handed one explicitly
+ */
+export function getGlobalRateLimiter(): GlobalRateLimiter {
+  if (!defaultRateLimiter) {
+    defaultRateLimiter = new GlobalRateLimiter();
+  }
+  return defaultRateLimiter;
+}
@@ -1 +1,205 @@
- 
\ No newline at end of file
+import {
+  DatabaseManager,
+  getDefaultDatabaseManager,
+} from "../../lib/database-manager";
+import appLogger from "../../lib/log";
+import { DEFAULT_ACCOUNT_ID } from "../../lib/accounts";
+
+/**
+ * Rate-Limit Reservations - Pre-Reserved Capacity Across Workers
+ *
+ * A reservation holds N units of an endpoint's budget for a worker until it
+ * is committed, released or its TTL runs out. Held-but-unused units count as
+ * used for everyone else, so a multi-call flow can claim all the capacity it
+ * needs up front instead of failing halfway. Each API call made under the
+ * reservation consumes one unit (and is recorded in rate_limits as usual).
+ *
+ * Capacity decisions live in GlobalRateLimiter.reserve(); this class only
+ * stores and reads reservations.
+ */
+
+export interface ReservationRequest {
+  endpoint: string;
+  units?: number; // Default 1
+}
+
+export interface ReservationRow {
+  id: string;
+  endpoint: string;
+  worker_id: string;
+  units: number;
+  units_used: number;
+  created_at: string;
+  expires_at: string;
+  status: "held" | "committed" | "released" | "expired";
+}
+
+// Finished reservations are kept this long for debugging
+const RESERVATION_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export class ReservationManager {
+  private dbManager: DatabaseManager;
+
+  // Reservations are per account, like the usage buckets they hold
+  readonly accountId: string;
+
+  constructor(
+    dbManager?: DatabaseManager,
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ) {
+    this.dbManager = dbManager || getDefaultDatabaseManager();
+    this.accountId = accountId;
+  }
+
+  /**
+   * Store a reservation; callers check capacity first (in one transaction)
+   */
+  create(
+    id: string,
+    requests: ReservationRequest[],
+    workerId: string,
+    expiresAt: Date,
+    now = new Date()
+  ): void {
+    const insert = this.dbManager.database.prepare(`
+      INSERT INTO rate_limit_reservations
+        (id, endpoint, account_id, worker_id, units, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const request of requests) {
+      insert.run(
+        id,
+        request.endpoint,
+        this.accountId,
+        workerId,
+        request.units ?? 1,
+        now.toISOString(),
+        expiresAt.toISOString()
+      );
+    }
+  }
+
+  /**
+   * Units held but not yet used on an endpoint by live reservations
+   */
+  getHeldUnits(endpoint: string, now = new Date()): number {
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT COALESCE(SUM(units - units_used), 0) AS held
+         FROM rate_limit_reservations
+         WHERE account_id = ? AND endpoint = ? AND status = 'held'
+           AND expires_at > ?`
+      )
+      .get(this.accountId, endpoint, now.toISOString()) as { held: number };
+    return row.held;
+  }
+
+  /**
+   * When the soonest live reservation on an endpoint expires (epoch ms)
+   */
+  getNextExpiry(endpoint: string, now = new Date()): number | null {
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT MIN(expires_at) AS expires_at
+         FROM rate_limit_reservations
+         WHERE account_id = ? AND endpoint = ? AND status = 'held'
+           AND expires_at > ?`
+      )
+      .get(this.accountId, endpoint, now.toISOString()) as {
+      expires_at: string | null;
+    };
+    return row.expires_at ? Date.parse(row.expires_at) : null;
+  }
+
+  /**
+   * Live reservation row for one endpoint, or null if missing/finished/expired
+   */
+  getHeld(
+    id: string,
+    endpoint: string,
+    now = new Date()
+  ): ReservationRow | null {
+    const row = this.dbManager.database
+      .prepare(
+        `SELECT id, endpoint, worker_id, units, units_used, created_at, expires_at, status
+         FROM rate_limit_reservations
+         WHERE id = ? AND endpoint = ? AND account_id = ? AND status = 'held'
+           AND expires_at > ?`
+      )
+      .get(id, endpoint, this.accountId, now.toISOString()) as
+      ReservationRow | undefined;
+    return row || null;
+  }
+
+  /**
+   * Use one unit of a reservation; false when none is left
+   */
+  consume(id: string, endpoint: string, now = new Date()): boolean {
+    const result = this.dbManager.database
+      .prepare(
+        `UPDATE rate_limit_reservations SET units_used = units_used + 1
+         WHERE id = ? AND endpoint = ? AND account_id = ? AND status = 'held'
+           AND expires_at > ? AND units_used < units`
+      )
+      .run(id, endpoint, this.accountId, now.toISOString());
+    return result.changes > 0;
+  }
+
+  /**
+   * Finish a reservation after its flow succeeded; unused units are freed
+   */
+  commit(id: string): boolean {
+    return this.finish(id, "committed");
+  }
+
+  /**
+   * Abandon a reservation; unused units are freed
+   */
+  release(id: string): boolean {
+    return this.finish(id, "released");
+  }
+
+  private finish(id: string, status: "committed" | "released"): boolean {
+    const result = this.dbManager.database
+      .prepare(
+        `UPDATE rate_limit_reservations SET status = ?
+         WHERE id = ? AND account_id = ? AND status = 'held'`
+      )
+      .run(status, id, this.accountId);
+    if (result.changes > 0) {
+      appLogger.debug({ reservation_id: id, status }, "Reservation finished");
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Mark lapsed reservations expired and drop old finished ones (all accounts)
+   */
+  cleanup(now = new Date()): { expired: number; deleted: number } {
+    const database = this.dbManager.database;
+    const expired = database
+      .prepare(
+        `UPDATE rate_limit_reservations SET status = 'expired'
+         WHERE status = 'held' AND expires_at <= ?`
+      )
+      .run(now.toISOString()).changes;
+    const deleted = database
+      .prepare(
+        `DELETE FROM rate_limit_reservations
+         WHERE status != 'held' AND created_at < ?`
+      )
+      .run(
+        new Date(now.getTime() - RESERVATION_RETENTION_MS).toISOString()
+      ).changes;
+    return { expired, deleted };
+  }
+
+  /**
+   * Drop every reservation for this account (testing helper)
+   */
+  clear(): void {
+    this.dbManager.database
+      .prepare(`DELETE FROM rate_limit_reservations WHERE account_id = ?`)
+      .run(this.accountId);
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  DatabaseManager,
+  getDefaultDatabaseManager,
+} from "../../lib/database-manager";
+import { DEFAULT_ACCOUNT_ID } from "../../lib/accounts";
+
+/**
+ * Adaptive Throttling - What Twitter Told Us About Our Limits
+ *
+ * Our budgets are a model of Twitter's. When Twitter answers 429 anyway, the
+ * endpoint is hard-blocked until the x-rate-limit-reset it reported (or
+ * DEFAULT_BLOCK_MS without one). A 429 that follows another within
+ * REPEAT_WINDOW_MS doubles a backoff multiplier (up to MAX_MULTIPLIER) that
+ * divides the endpoint's limits; it halves every MULTIPLIER_HALF_LIFE_MS
+ * without new 429s, so the budget recovers on its own.
+ *
+ * State lives in `rate_limit_throttles` so every process sharing the
+ * database backs off together.
+ */
+
+export interface ThrottleState {
+  endpoint: string;
+  blocked_until: number | null; // Epoch ms; null once the block has passed
+  backoff_multiplier: number; // >= 1, already decayed to "now"
+  consecutive_429s: number;
+  last_429_at: number;
+}
+
+const DEFAULT_BLOCK_MS = 15 * 60 * 1000;
+const REPEAT_WINDOW_MS = 60 * 60 * 1000;
+const MULTIPLIER_HALF_LIFE_MS = 30 * 60 * 1000;
+const MAX_MULTIPLIER = 8;
+// Rows with no block and a multiplier back at 1 are dropped after this
+const THROTTLE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+interface ThrottleRow {
+  endpoint: string;
+  blocked_until: number | null;
+  backoff_multiplier: number;
+  consecutive_429s: number;
+  last_429_at: number;
+}
+
+export class ThrottleManager {
+  private dbManager: DatabaseManager;
+
+  // Twitter limits each token separately, so throttles are per account
+  readonly accountId: string;
+
+  constructor(
+    dbManager?: DatabaseManager,
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ) {
+    this.dbManager = dbManager || getDefaultDatabaseManager();
+    this.accountId = accountId;
+  }
+
+  /**
+   * Learn from a 429: block until `resetSeconds` (epoch seconds) and grow the
+   * backoff multiplier if the previous 429 was recent
+   */
+  record429(
+    endpoint: string,
+    resetSeconds?: number,
+    now = Date.now()
+  ): ThrottleState {
+    const previous = this.getRow(endpoint);
+    const repeated =
+      previous !== undefined && now - previous.last_429_at <= REPEAT_WINDOW_MS;
+    const multiplier = repeated
+      ? Math.min(MAX_MULTIPLIER, decay(previous, now) * 2)
+      : 1;
+    const consecutive = repeated ? previous.consecutive_429s + 1 : 1;
+
+    const resetAt =
+      resetSeconds && resetSeconds * 1000 > now
+        ? resetSeconds * 1000
+        : now + DEFAULT_BLOCK_MS;
+    const blockedUntil = Math.max(resetAt, previous?.blocked_until ?? 0);
+
+    this.dbManager.database
+      .prepare(
+        `INSERT OR REPLACE INTO rate_limit_throttles
+          (account_id, endpoint, blocked_until, backoff_multiplier, consecutive_429s, last_429_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        this.accountId,
+        endpoint,
+        blockedUntil,
+        multiplier,
+        consecutive,
+        now,
+        now
+      );
+
+    return {
+      endpoint,
+      blocked_until: blockedUntil,
+      backoff_multiplier: multiplier,
+      consecutive_429s: consecutive,
+      last_429_at: now,
+    };
+  }
+
+  /**
+   * Hard-block an endpoint until `until` (epoch ms) without counting a 429,
+   * e.g. when a successful response reports zero remaining
+   */
+  block(endpoint: string, until: number, now = Date.now()): void {
+    this.dbManager.database
+      .prepare(
+        `INSERT INTO rate_limit_throttles
+          (account_id, endpoint, blocked_until, backoff_multiplier, consecutive_429s, last_429_at, updated_at)
+         VALUES (?, ?, ?, 1, 0, 0, ?)
+         ON CONFLICT(account_id, endpoint) DO UPDATE SET
+           blocked_until = MAX(COALESCE(blocked_until, 0), excluded.blocked_until),
+           updated_at = excluded.updated_at`
+      )
+      .run(this.accountId, endpoint, until, now);
+  }
+
+  /**
+   * Current throttle for an endpoint, or null when it isn't throttled
+   */
+  getState(endpoint: string, now = Date.now()): ThrottleState | null {
+    const row = this.getRow(endpoint);
+    return row ? toState(row, now) : null;
+  }
+
+  /**
+   * Every endpoint still blocked or backing off
+   */
+  getAll(now = Date.now()): ThrottleState[] {
+    const rows = this.dbManager.database
+      .prepare(
+        `SELECT endpoint, blocked_until, backoff_multiplier, consecutive_429s, last_429_at
+         FROM rate_limit_throttles WHERE account_id = ? ORDER BY endpoint`
+      )
+      .all(this.accountId) as ThrottleRow[];
+    return rows
+      .map((row) => toState(row, now))
+      .filter(
+        (state) => state.blocked_until !== null || state.backoff_multiplier > 1
+      );
+  }
+
+  /**
+   * Drop throttles that have fully recovered (all accounts)
+   */
+  cleanup(now = Date.now()): number {
+    return this.dbManager.database
+      .prepare(
+        `DELETE FROM rate_limit_throttles
+         WHERE COALESCE(blocked_until, 0) < ? AND updated_at < ?`
+      )
+      .run(now, now - THROTTLE_RETENTION_MS).changes;
+  }
+
+  /**
+   * Drop this account's throttles (testing helper)
+   */
+  clear(endpoint?: string): void {
+    if (endpoint) {
+      this.dbManager.database
+        .prepare(
+          `DELETE FROM rate_limit_throttles WHERE account_id = ? AND endpoint = ?`
+        )
+        .run(this.accountId, endpoint);
+    } else {
+      this.dbManager.database
+        .prepare(`DELETE FROM rate_limit_throttles WHERE account_id = ?`)
+        .run(this.accountId);
+    }
+  }
+
+  private getRow(endpoint: string): ThrottleRow | undefined {
+    return this.dbManager.database
+      .prepare(
+        `SELECT endpoint, blocked_until, backoff_multiplier, consecutive_429s, last_429_at
+         FROM rate_limit_throttles WHERE account_id = ? AND endpoint = ?`
+      )
+      .get(this.accountId, endpoint) as ThrottleRow | undefined;
+  }
+}
+
+// The multiplier halves every half-life since the last 429, never below 1
+function decay(row: ThrottleRow, now: number): number {
+  const halfLives =
+    Math.max(0, now - row.last_429_at) / MULTIPLIER_HALF_LIFE_MS;
+  return Math.max(1, row.backoff_multiplier * Math.pow(0.5, halfLives));
+}
+
+function toState(row: ThrottleRow, now: number): ThrottleState {
+  return {
+    endpoint: row.endpoint,
+    blocked_until:
+      row.blocked_until !== null && row.blocked_until > now
+        ? row.blocked_until
+        : null,
+    backoff_multiplier: decay(row, now),
+    consecutive_429s: row.consecutive_429s,
+    last_429_at: row.last_429_at,
+  };
+}
@@ -1,31 +1,22 @@
 import { GameAgent } from "@virtuals-protocol/game";
 import dotenv from "dotenv";
-import timelineWorker from "./workers/timeline-worker";
+import { createTimelineWorker } from "./workers/timeline-worker";
+import { readAccountDescription } from "./lib/accounts";
+import { AppContext, createAppContext } from "./lib/app-context";
+import { printEffectiveConfig } from "./lib/config";
+import { startRuntimeReloader } from "./lib/hot-reload";
+import {
+  getAgentLoopSettings,
+  printAgentLoopSettings,
+  runAgentLoop,
+} from "./lib/agent-loop";
 
 dotenv.config();
 
-/**
- * TimelineAgent: Discovers and analyzes the Twitter home timeline for @glitchbot_ai.
- *
- * This agent fetches the home timeline using the timelineWorker and is designed for future AI-driven tweet selection and quote-tweeting.
- * For now, it only fetches and returns the timeline.
- */
-async function main() {
-  console.log("🤖 Starting TimelineAgent...");
-
-  const apiKey = process.env.VIRTUALS_API_KEY || process.env.GAME_API_KEY;
-  if (!apiKey) {
-    console.error(
-      "❌ Please set VIRTUALS_API_KEY or GAME_API_KEY in your .env file"
-    );
-    process.exit(1);
-  }
+export const TIMELINE_AGENT_GOAL =
+  "Continuously discover and quote-tweet the most valuable AI, crypto, software, and tech content from the home timeline to share with the @glitchbot_ai community.";
 
-  // Create the agent
-  const agent = new GameAgent(apiKey, {
-    name: "TimelineAgent",
-    goal: "Continuously discover and quote-tweet the most valuable AI, crypto, software, and tech content from the home timeline to share with the @glitchbot_ai community.",
-    description: `
+export const TIMELINE_AGENT_DESCRIPTION = `
       I am TimelineAgent, an AI-powered content curator for @glitchbot_ai. My mission is to discover and share the most valuable technical content with our community of developers, researchers, and tech innovators.
 
       WORKFLOW STRATEGY:
@@ -59,52 +50,77 @@ async function main() {
 
       QUOTING CALL DISCIPLINE:
       When calling quote_tweet, pass:
-      - tweet_id: the ID of the selected tweet
-      - username: the EXACT author username of that tweet (from includes.users in get_timeline; match user.id == tweet.author_id; no @)
+      - tweet_id: the ID of the selected tweet (from get_timeline; its author is looked up automatically)
       - comment: your technical commentary
 
-      Never guess the username or substitute with a popular account. If the author username isn't available, skip quoting.
       Example:
-      quote_tweet({ tweet_id: "19533...", username: "janedoe", comment: "Great paper on LLM context optimizations…" })
-    `,
-    workers: [timelineWorker],
+      quote_tweet({ tweet_id: "19533...", comment: "Great paper on LLM context optimizations…" })
+    `;
+
+/**
+ * TimelineAgent: Discovers and analyzes the Twitter home timeline for @glitchbot_ai.
+ *
+ * This agent fetches the home timeline using the timelineWorker and is designed for future AI-driven tweet selection and quote-tweeting.
+ * For now, it only fetches and returns the timeline.
+ */
+export function createTimelineAgent(
+  apiKey: string,
+  context: AppContext
+): GameAgent {
+  return new GameAgent(apiKey, {
+    name: "TimelineAgent",
+    goal: TIMELINE_AGENT_GOAL,
+    description:
+      readAccountDescription(context.account) || TIMELINE_AGENT_DESCRIPTION,
+    workers: [createTimelineWorker(context)],
   });
+}
+
+async function main() {
+  console.log("🤖 Starting TimelineAgent...");
+
+  const apiKey = process.env.VIRTUALS_API_KEY || process.env.GAME_API_KEY;
+  if (!apiKey) {
+    console.error(
+      "❌ Please set VIRTUALS_API_KEY or GAME_API_KEY in your .env file"
+    );
+    process.exit(1);
+  }
+
+  try {
+    printEffectiveConfig();
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  const context = createAppContext();
+  const agent = createTimelineAgent(apiKey, context);
 
   // Initialize and start
   await agent.init();
   console.log("✅ TimelineAgent initialized! Running continuously...");
   console.log("Press Ctrl+C to stop");
 
-  // Get timeout values from environment variables
-  const stepInterval = parseInt(process.env.AGENT_STEP_INTERVAL || "180000"); // Default: 3 minutes
-  const errorInterval = parseInt(process.env.AGENT_ERROR_INTERVAL || "180000"); // Default: 3 minutes
-  const verboseLogging = process.env.AGENT_VERBOSE === "true";
-
-  console.log(`⚙️ Agent configuration:`);
-  console.log(`   Step interval: ${stepInterval / 1000}s`);
-  console.log(`   Error interval: ${errorInterval / 1000}s`);
-  console.log(`   Verbose logging: ${verboseLogging}`);
-
-  // Use step method with proper error handling and throttling
-  let stepCount = 0;
-  while (true) {
-    console.log("--------------------------------");
-    console.log("Step #", stepCount);
-    stepCount++;
-    try {
-      await agent.step({ verbose: verboseLogging });
-      await new Promise((r) => setTimeout(r, stepInterval));
-    } catch (err) {
-      console.error("Agent step error:", err);
-      await new Promise((r) => setTimeout(r, errorInterval));
-    }
-  }
+  // Expire stale engagement locks and prune old history
+  context.engagementTracker.startCleanupJob();
+
+  const settings = getAgentLoopSettings();
+  printAgentLoopSettings(settings);
+
+  const reloader = startRuntimeReloader([context.account]);
+  await runAgentLoop(agent, settings, {
+    ...(reloader ? { reloader } : {}),
+    rebuild: () => createTimelineAgent(apiKey, context),
+  });
 }
 
-// Graceful shutdown
-process.on("SIGINT", () => {
-  console.log("\n👋 TimelineAgent shutting down...");
-  process.exit(0);
-});
+if (require.main === module) {
+  // Graceful shutdown
+  process.on("SIGINT", () => {
+    console.log("\n👋 TimelineAgent shutting down...");
+    process.exit(0);
+  });
 
-main().catch(console.error);
+  main().catch(console.error);
+}
@@ -14,14 +14,18 @@
 // - Respects rate limits and prioritizes by urgency
 
 import { GameWorker } from "@virtuals-protocol/game";
-import fetchMentionsFunction from "../functions/mentions/fetch-mentions";
-import getPendingMentionsFunction from "../functions/mentions/get-pending-mentions";
-import replyMentionFunction from "../functions/mentions/reply-mention";
+import { AppContext } from "../lib/app-context";
+import { getConfig } from "../lib/config";
+import { createFetchMentionsFunction } from "../functions/mentions/fetch-mentions";
+import { createGetPendingMentionsFunction } from "../functions/mentions/get-pending-mentions";
+import { createReplyMentionFunction } from "../functions/mentions/reply-mention";
 
-const mentionsWorker = new GameWorker({
-  id: "mentions_processing_worker",
-  name: "Mentions Processing Worker",
-  description: `
+export function createMentionsWorker(context?: AppContext): GameWorker {
+  const maxEmojis = getConfig().content_policy.max_emojis_per_tweet;
+  return new GameWorker({
+    id: "mentions_processing_worker",
+    name: "Mentions Processing Worker",
+    description: `
     You are the Mentions Processing Worker for @glitchbot_ai. Your primary job is to acknowledge users who tag @glitchbot_ai to share interesting content, tweets, and discoveries.
 
     CORE PURPOSE:
@@ -98,7 +102,8 @@ const mentionsWorker = new GameWorker({
       * Reference content type: "thread", "research", "analysis", "breakdown"
     - For direct mentions (no suggested tweets): focus on the question/topic mentioned
     - Use phrases like "thanks for flagging this", "great find", "appreciate the share"
-    - Use emojis appropriately (1-2 max): 👀 🤖 🙏 🔥 💡 ⚡
+    - Use emojis appropriately (${maxEmojis} max; more is rejected): 👀 🤖 🙏 🔥 💡 ⚡
+    - Never add links, price talk or "buy $TOKEN" phrasing, and only @-mention people already in the conversation; reply_mention rejects these with a reason to rewrite
     - Maintain @glitchbot_ai's voice: grateful, engaged, and community-focused
     - Show appreciation for their curation efforts AND the quality of content they found
     
@@ -131,11 +136,14 @@ const mentionsWorker = new GameWorker({
     
     Remember: Users are your content scouts and curators. They're helping build a valuable knowledge network. With suggested tweet context, you can now provide intelligent, specific responses that show you actually understand and appreciate the exact content they're sharing. This creates a much richer interaction than generic thanks.
   `,
-  functions: [
-    fetchMentionsFunction,
-    getPendingMentionsFunction,
-    replyMentionFunction,
-  ],
-});
+    functions: [
+      createFetchMentionsFunction(context),
+      createGetPendingMentionsFunction(context),
+      createReplyMentionFunction(context),
+    ],
+  });
+}
+
+const mentionsWorker = createMentionsWorker();
 
 export default mentionsWorker;
@@ -1,7 +1,8 @@
 import { GameWorker } from "@virtuals-protocol/game";
-import getTimelineFunction from "../functions/timeline/get-timeline";
-import getTimelineWithSuggestionFunction from "../functions/timeline/get-timeline-with-suggestion";
-import quoteTweetFunction from "../functions/timeline/quote-tweet";
+import { AppContext } from "../lib/app-context";
+import { createGetTimelineFunction } from "../functions/timeline/get-timeline";
+import { createGetTimelineWithSuggestionFunction } from "../functions/timeline/get-timeline-with-suggestion";
+import { createQuoteTweetFunction } from "../functions/timeline/quote-tweet";
 
 /**
  * Timeline Worker
@@ -9,10 +10,11 @@ import quoteTweetFunction from "../functions/timeline/quote-tweet";
  * This worker fetches the home timeline and can quote-tweet interesting content.
  * Inspired by mentions-worker workflow.
  */
-const timelineWorker = new GameWorker({
-  id: "timeline_worker",
-  name: "Timeline Worker",
-  description: `
+export function createTimelineWorker(context?: AppContext): GameWorker {
+  return new GameWorker({
+    id: "timeline_worker",
+    name: "Timeline Worker",
+    description: `
     You are the Timeline Worker for @glitchbot_ai. You provide functions to fetch timeline content and quote-tweet selected content.
 
     CORE FUNCTION:
@@ -22,6 +24,7 @@ const timelineWorker = new GameWorker({
     - **ONLY ACCEPT**: AI, machine learning, cryptocurrency, blockchain, software development, programming, technology, tech news, startups, research
     - **IMMEDIATELY REJECT**: Food, entertainment, sports, politics (elections, policy, social security, immigration), personal updates, lifestyle content, general news, non-tech topics
     - **VALIDATION**: Check tweet text, context_annotations, and author background before processing
+    - **HARD GUARD**: Timeline tweets are pre-classified (topic: ai, crypto, devtools, research); off-topic tweets are already removed and quote_tweet rejects them anyway
 
     TARGET CONTENT CATEGORIES:
     1. **AI & Machine Learning**: Research, models, technical insights, breakthroughs
@@ -36,22 +39,21 @@ const timelineWorker = new GameWorker({
     - Examples: "Solid cryptographic analysis", "This could reshape smart contract security", "Interesting ML optimization approach"
 
     ARGUMENTS CONTRACT (for quote_tweet):
-    - tweet_id: ID of the selected tweet.
-    - username: EXACT username of the selected tweet's author (without @). Do not use any other handle (mentions, quoted author, popular accounts).
+    - tweet_id: ID of the selected tweet, as returned by get_timeline.
     - comment: Your technical commentary.
-
-    SOURCING USERNAME:
-    - Always extract the author's username from the get_timeline response (includes.users where user.id == tweet.author_id).
-    - If the author username can't be determined with certainty, do not call quote_tweet.
+    - username is not needed: the tweet is quoted natively and its author comes from the fetched tweet.
 
     SAFETY GUARANTEE:
     This worker will NEVER process or quote-tweet content outside of AI/crypto/software/tech domains, ensuring safe and relevant output regardless of which agent calls it.
   `,
-  functions: [
-    getTimelineFunction,
-    getTimelineWithSuggestionFunction,
-    quoteTweetFunction,
-  ],
-});
+    functions: [
+      createGetTimelineFunction(context),
+      createGetTimelineWithSuggestionFunction(context),
+      createQuoteTweetFunction(context),
+    ],
+  });
+}
+
+const timelineWorker = createTimelineWorker();
 
 export default timelineWorker;
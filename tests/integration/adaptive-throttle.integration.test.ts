@@ -0,0 +1,113 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Adaptive throttling: a Twitter 429 blocks the endpoint until its reset,
+ * repeated 429s shrink the budget, and the backoff decays over time
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+process.env.TWITTER_TRANSPORT = "fake";
+
+const {
+  fakeTwitterServer,
+  createFakeApiError,
+} = require("../../src/lib/fake-twitter-server");
+const { createAppContext } = require("../../src/lib/app-context");
+const {
+  createRateLimitedTwitterClient,
+} = require("../../src/lib/rate-limited-twitter-client");
+
+const suite = createTestSuite("Adaptive throttling from 429s");
+
+const MINUTE = 60 * 1000;
+const context = createAppContext({ dbPath: ":memory:" });
+const limiter = context.rateLimiter;
+
+suite.test("a 429 blocks the endpoint until Twitter's reset", async () => {
+  await limiter.resetLimitsForTesting();
+  fakeTwitterServer.reset("glitchbot_ai");
+  const reset = Math.floor((Date.now() + 10 * MINUTE) / 1000);
+  fakeTwitterServer.failNext(
+    "userMentionTimeline",
+    createFakeApiError(429, "Too Many Requests", {
+      rateLimit: { limit: 15, remaining: 0, reset },
+    })
+  );
+
+  const client = createRateLimitedTwitterClient({
+    gameTwitterAccessToken: "throttle-test-token",
+    workerId: "mentions-worker",
+    rateLimiter: limiter,
+  });
+  await assert.throws(() => client.fetchUserMentions({}), "429 surfaces");
+
+  const check = await limiter.canMakeRequest(
+    "fetch_mentions",
+    "other-worker",
+    "critical"
+  );
+  assert.falsy(check.allowed, "Blocked for every priority");
+  assert.truthy(check.reason.startsWith("Blocked by Twitter"), check.reason);
+  assert.truthy(check.retry_after_seconds > 590, "Until the reset");
+
+  const reservation = await limiter.reserve(
+    [{ endpoint: "fetch_mentions" }],
+    "other-worker"
+  );
+  assert.falsy(reservation.granted, "Reservations are refused too");
+
+  const status = await limiter.getSystemStatus();
+  assert.equals(status.throttles.length, 1);
+  assert.equals(status.throttles[0].endpoint, "fetch_mentions");
+  assert.equals(status.throttles[0].blocked_until, reset * 1000);
+  assert.equals(status.limits.fetch_mentions.per_15min.remaining, 0);
+});
+
+suite.test("repeated 429s shrink the budget, then decay", async () => {
+  await limiter.resetLimitsForTesting();
+  const start = Date.now() - 2 * MINUTE;
+  const throttles = limiter.throttles;
+
+  assert.equals(
+    throttles.record429("get_user", undefined, start).backoff_multiplier,
+    1
+  );
+  assert.equals(
+    throttles.record429("get_user", undefined, start + MINUTE)
+      .backoff_multiplier,
+    2,
+    "Second 429 within the hour doubles"
+  );
+
+  // Both blocks ended a moment after they started; only the backoff remains
+  throttles.clear("get_user");
+  const shortReset = Math.floor(start / 1000) + 1;
+  throttles.record429("get_user", shortReset, start - MINUTE);
+  throttles.record429("get_user", shortReset, start);
+  const capacity = await limiter.getRemainingCapacity("get_user");
+  assert.equals(capacity.per_15min.remaining, 7, "15 / 2 once unblocked");
+
+  const later = throttles.getState("get_user", start + 30 * MINUTE);
+  assert.truthy(
+    Math.abs(later.backoff_multiplier - 1) < 0.01,
+    `Halves every 30 minutes (${later.backoff_multiplier})`
+  );
+});
+
+suite.test("zero remaining on success blocks until reset", async () => {
+  await limiter.resetLimitsForTesting();
+  const reset = Math.floor((Date.now() + 5 * MINUTE) / 1000);
+  await limiter.syncWithTwitter("search_tweets", {
+    limit: 15,
+    remaining: 0,
+    reset,
+  });
+
+  const state = limiter.throttles.getState("search_tweets");
+  assert.equals(state.blocked_until, reset * 1000);
+  assert.equals(state.backoff_multiplier, 1, "Not counted as a 429");
+  assert.falsy((await limiter.canMakeRequest("search_tweets", "w")).allowed);
+});
+
+suite.run();
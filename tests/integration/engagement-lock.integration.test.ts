@@ -0,0 +1,135 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Engagement locks: exclusive across connections to one database file, TTL
+ * takeover, history/stats, cleanup (which keeps completed locks), and
+ * reply_mention refusing a tweet that another process holds
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+process.env.TWITTER_TRANSPORT = "fake";
+
+const { fakeTwitterServer } = require("../../src/lib/fake-twitter-server");
+const { createAppContext } = require("../../src/lib/app-context");
+const {
+  createReplyMentionFunction,
+} = require("../../src/functions/mentions/reply-mention");
+
+const suite = createTestSuite("Engagement locks - cross-process");
+
+// Two contexts on one file stand in for two agent processes
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "glitchbot-locks-"));
+const dbPath = path.join(dir, "glitchbot.db");
+const account = { id: "default", agent: "glitchbot", gameTwitterToken: "t" };
+const procA = createAppContext({ dbPath, account });
+const procB = createAppContext({ dbPath, account });
+const log = () => {};
+
+suite.test("only one process gets the lock", async () => {
+  const a = procA.engagementTracker;
+  const b = procB.engagementTracker;
+
+  assert.truthy(await a.requestLock("t1", "worker-a", "quote"));
+  assert.falsy(await b.requestLock("t1", "worker-b", "quote"));
+  assert.truthy(
+    await a.requestLock("t1", "worker-a", "quote"),
+    "Holder can re-acquire"
+  );
+
+  await a.releaseLock("t1", "worker-a", true, { quote_tweet_id: "q1" });
+  assert.falsy(
+    await b.requestLock("t1", "worker-b", "quote"),
+    "Completed engagement is never handed out again"
+  );
+  assert.truthy(await b.hasRecentEngagement("t1"));
+  assert.equals(b.getHistory("t1")[0]!.metadata.quote_tweet_id, "q1");
+});
+
+suite.test("failed or expired locks can be taken over", async () => {
+  const a = procA.engagementTracker;
+  const b = procB.engagementTracker;
+
+  assert.truthy(await a.requestLock("t2", "worker-a", "reply"));
+  await a.releaseLock("t2", "worker-a", false, { error: "boom" });
+  assert.truthy(await b.requestLock("t2", "worker-b", "reply"), "After fail");
+
+  assert.truthy(await a.requestLock("t3", "worker-a", "reply", 0));
+  await new Promise((r) => setTimeout(r, 5));
+  assert.truthy(await b.requestLock("t3", "worker-b", "reply"), "After TTL");
+  assert.equals(a.getLock("t3")!.worker_id, "worker-b");
+
+  await a.releaseLock("t3", "worker-a", true);
+  assert.equals(a.getLock("t3")!.status, "pending", "Only holder releases");
+});
+
+suite.test("stats count engagements in the window", async () => {
+  const stats = await procA.engagementTracker.getEngagementStats(24);
+
+  assert.equals(stats.total_engagements, 2);
+  assert.equals(stats.successful_engagements, 1);
+  assert.equals(stats.quote_tweets, 1);
+  assert.equals(stats.replies, 0);
+  assert.equals(stats.success_rate, 0.5);
+});
+
+suite.test("cleanup expires stale locks", async () => {
+  const tracker = procA.engagementTracker;
+  await tracker.requestLock("t4", "worker-a", "like", 0);
+  await new Promise((r) => setTimeout(r, 5));
+
+  await tracker.cleanup();
+  assert.equals(tracker.getLock("t4")!.status, "expired");
+  assert.equals(tracker.getLock("t1")!.status, "completed");
+});
+
+suite.test(
+  "cleanup prunes old failed locks but keeps completed ones",
+  async () => {
+    const tracker = procA.engagementTracker;
+    const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    procA.dbManager.database
+      .prepare(
+        `UPDATE engagement_locks SET locked_at = ? WHERE tweet_id IN ('t1', 't4')`
+      )
+      .run(monthAgo.toISOString());
+
+    await tracker.cleanup();
+    assert.equals(tracker.getLock("t4"), null, "Old expired lock pruned");
+    assert.equals(tracker.getLock("t1")!.status, "completed");
+    assert.falsy(
+      await procB.engagementTracker.requestLock("t1", "worker-b", "quote"),
+      "Completed engagement is never handed out again, even after cleanup"
+    );
+  }
+);
+
+suite.test("reply_mention refuses a mention locked elsewhere", async () => {
+  const { mention } = fakeTwitterServer.addMention({
+    author: "dev_user",
+    text: "hey @glitchbot_ai",
+  });
+  await procB.engagementTracker.requestLock(mention.id, "other-proc", "reply");
+
+  const reply = createReplyMentionFunction(procA);
+  const refused = await reply.executable(
+    { mention_id: mention.id, reply_text: "Thanks for the report!" },
+    log
+  );
+  assert.equals(refused.status, "failed");
+  assert.truthy(refused.feedback.includes("another worker"), refused.feedback);
+  assert.equals(fakeTwitterServer.getPostedTweets().length, 0, "No post");
+
+  await procB.engagementTracker.releaseLock(mention.id, "other-proc", false);
+  const posted = await reply.executable(
+    { mention_id: mention.id, reply_text: "Thanks for the report!" },
+    log
+  );
+  assert.equals(posted.status, "done", posted.feedback);
+  assert.truthy(await procA.engagementTracker.hasRecentEngagement(mention.id));
+});
+
+suite.run();
@@ -0,0 +1,243 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Offline end-to-end cycles for mentionsWorker and timelineWorker
+ * Runs every GameFunction against the in-process fake Twitter server (no network)
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+// Configure the fake transport and a throwaway in-memory database before any
+// source module is loaded
+process.env.TWITTER_TRANSPORT = "fake";
+process.env.GAME_TWITTER_TOKEN = "fake-token";
+process.env.BOT_TWITTER_USERNAME = "glitchbot_ai";
+process.env.GLITCHBOT_DB_PATH = ":memory:";
+
+const { fakeTwitterServer } = require("../../src/lib/fake-twitter-server");
+const {
+  default: mentionsWorker,
+} = require("../../src/workers/mentions-worker");
+const {
+  default: timelineWorker,
+} = require("../../src/workers/timeline-worker");
+
+const suite = createTestSuite("Fake Twitter transport - worker cycles");
+const log = (msg: string) => console.log(`[Function Log]: ${msg}`);
+
+function fn(worker: any, name: string): any {
+  const found = worker.functions.find((f: any) => f.name === name);
+  if (!found) throw new Error(`Function ${name} not found on ${worker.id}`);
+  return found;
+}
+
+let mentionId: string;
+let quotedId: string;
+let timelineTweetId: string;
+
+suite.beforeAll(() => {
+  const seeded = fakeTwitterServer.addMention({
+    author: "dev_user",
+    text: "hey check this out!",
+    quoting: {
+      author: "researcher",
+      text: "We just open-sourced VectorDB 2.0 with a new write path",
+      public_metrics: { like_count: 120, retweet_count: 30 },
+    },
+  });
+  mentionId = seeded.mention.id;
+  quotedId = seeded.quoted.id;
+
+  timelineTweetId = fakeTwitterServer.addTimelineTweet({
+    author: "ml_engineer",
+    text: "New paper: speculative decoding cuts LLM inference latency by 2x",
+  }).id;
+});
+
+suite.test("mentions cycle: fetch, list and reply", async () => {
+  const fetched = await fn(mentionsWorker, "fetch_mentions").executable(
+    { max_results: "10" },
+    log
+  );
+  assert.equals(fetched.status, "done", fetched.feedback);
+  const fetchData = JSON.parse(fetched.feedback);
+  assert.equals(fetchData.storage.stored_count, 1, "Should store the mention");
+  assert.equals(fetchData.meta.newest_id, mentionId, "Checkpoint candidate");
+
+  const pending = await fn(mentionsWorker, "get_pending_mentions").executable(
+    { limit: "10" },
+    log
+  );
+  const pendingData = JSON.parse(pending.feedback);
+  const queued = pendingData.mentions.find(
+    (m: any) => m.mention_id === mentionId
+  );
+  assert.truthy(queued, "Mention should be queued as pending");
+  assert.equals(queued.author_username, "dev_user");
+  assert.equals(queued.suggested_tweets.length, 1, "Quoted tweet linked");
+  assert.equals(queued.suggested_tweets[0].tweet_id, quotedId);
+
+  const replied = await fn(mentionsWorker, "reply_mention").executable(
+    { mention_id: mentionId, reply_text: "Thanks @dev_user, great find 👀" },
+    log
+  );
+  assert.equals(replied.status, "done", replied.feedback);
+  const reply = fakeTwitterServer
+    .getPostedTweets()
+    .find((t: any) => t.in_reply_to_tweet_id === mentionId);
+  assert.truthy(reply, "Fake server should hold the reply");
+
+  const completed = await fn(mentionsWorker, "get_pending_mentions").executable(
+    { status: "completed" },
+    log
+  );
+  assert.truthy(
+    JSON.parse(completed.feedback).mentions.some(
+      (m: any) => m.mention_id === mentionId
+    ),
+    "Mention should be completed"
+  );
+});
+
+suite.test("second fetch only returns new mentions", async () => {
+  const fetched = await fn(mentionsWorker, "fetch_mentions").executable(
+    { max_results: "10" },
+    log
+  );
+  assert.equals(fetched.status, "done", fetched.feedback);
+  assert.equals(JSON.parse(fetched.feedback).mentions.length, 0);
+});
+
+suite.test("timeline cycle: fetch and quote once", async () => {
+  const timeline = await fn(timelineWorker, "get_timeline").executable({}, log);
+  assert.equals(timeline.status, "done", timeline.feedback);
+  const tweets = JSON.parse(timeline.feedback).tweets;
+  const candidate = tweets.find((t: any) => t.id === timelineTweetId);
+  assert.truthy(candidate, "Seeded timeline tweet should be returned");
+  assert.falsy(
+    tweets.some((t: any) => t.author?.username === "glitchbot_ai"),
+    "Self-authored tweets are filtered"
+  );
+
+  const quote = fn(timelineWorker, "quote_tweet");
+  const quoted = await quote.executable(
+    {
+      tweet_id: candidate.id,
+      username: candidate.author.username,
+      comment: "Notable inference-time optimization",
+    },
+    log
+  );
+  assert.equals(quoted.status, "done", quoted.feedback);
+
+  const again = await quote.executable(
+    {
+      tweet_id: candidate.id,
+      username: candidate.author.username,
+      comment: "Quoting twice",
+    },
+    log
+  );
+  assert.equals(again.status, "failed", "Duplicate quote must be rejected");
+});
+
+suite.test("injected API errors surface as failed responses", async () => {
+  const { createFakeApiError } = require("../../src/lib/fake-twitter-server");
+  fakeTwitterServer.failNext(
+    "homeTimeline",
+    createFakeApiError(503, "Service Unavailable")
+  );
+
+  const result = await fn(timelineWorker, "get_timeline").executable({}, log);
+  assert.equals(result.status, "failed");
+  assert.truthy(result.feedback.includes("server error"));
+});
+
+suite.test("failed replies back off, then dead-letter", async () => {
+  const { createFakeApiError } = require("../../src/lib/fake-twitter-server");
+  const { default: GlitchBotDB } = require("../../src/lib/db");
+  const db = new GlitchBotDB();
+
+  const transient = fakeTwitterServer.addMention({
+    author: "dev_user",
+    text: "retry me",
+  }).mention;
+  const gone = fakeTwitterServer.addMention({
+    author: "dev_user",
+    text: "about to be deleted",
+  }).mention;
+  await fn(mentionsWorker, "fetch_mentions").executable({}, log);
+
+  // 503 is retryable: back to pending with a backoff deadline
+  fakeTwitterServer.failNext(
+    "reply",
+    createFakeApiError(503, "Service Unavailable")
+  );
+  const first = await fn(mentionsWorker, "reply_mention").executable(
+    { mention_id: transient.id, reply_text: "Thanks @dev_user" },
+    log
+  );
+  assert.equals(first.status, "failed");
+  assert.truthy(first.feedback.includes("retry 1/"), first.feedback);
+  const backingOff = db.getPendingMentionById(transient.id);
+  assert.equals(backingOff.status, "pending");
+  assert.equals(backingOff.retry_count, 1);
+  assert.truthy(backingOff.next_attempt_at > new Date().toISOString());
+
+  const early = await fn(mentionsWorker, "reply_mention").executable(
+    { mention_id: transient.id, reply_text: "Thanks @dev_user" },
+    log
+  );
+  assert.truthy(early.feedback.includes("backing off"), early.feedback);
+
+  // Seeing the mention again in a fetch keeps its retry state
+  db.database.prepare("DELETE FROM mention_state").run();
+  await fn(mentionsWorker, "fetch_mentions").executable({}, log);
+  const refetched = db.getPendingMentionById(transient.id);
+  assert.equals(refetched.status, "pending");
+  assert.equals(refetched.retry_count, 1, "Refetch kept the retry count");
+  assert.equals(refetched.next_attempt_at, backingOff.next_attempt_at);
+  assert.equals(refetched.last_error, backingOff.last_error);
+
+  // Deleted tweet is permanent: straight to failed, error kept
+  fakeTwitterServer.deleteTweet(gone.id);
+  const permanent = await fn(mentionsWorker, "reply_mention").executable(
+    { mention_id: gone.id, reply_text: "Thanks @dev_user" },
+    log
+  );
+  assert.equals(permanent.status, "failed");
+  assert.truthy(permanent.feedback.includes("moved to failed"));
+
+  const failed = await fn(mentionsWorker, "get_pending_mentions").executable(
+    { status: "failed" },
+    log
+  );
+  const deadLetter = JSON.parse(failed.feedback).mentions.find(
+    (m: any) => m.mention_id === gone.id
+  );
+  assert.truthy(deadLetter, "Dead-lettered mention listed as failed");
+  assert.truthy(deadLetter.last_error.startsWith("tweet_unavailable"));
+
+  // 429s wait for the limit to reset without using up an attempt
+  const throttled = fakeTwitterServer.addMention({
+    author: "dev_user",
+    text: "rate limited",
+  }).mention;
+  await fn(mentionsWorker, "fetch_mentions").executable({}, log);
+  fakeTwitterServer.failNext(
+    "reply",
+    createFakeApiError(429, "Too Many Requests")
+  );
+  const limited = await fn(mentionsWorker, "reply_mention").executable(
+    { mention_id: throttled.id, reply_text: "Thanks @dev_user" },
+    log
+  );
+  assert.equals(limited.status, "failed");
+  const deferred = db.getPendingMentionById(throttled.id);
+  assert.equals(deferred.status, "pending");
+  assert.equals(deferred.retry_count, 0, "Rate limit isn't an attempt");
+  assert.truthy(deferred.last_error.startsWith("rate_limited"));
+  assert.truthy(deferred.next_attempt_at > new Date().toISOString());
+});
+
+suite.run();
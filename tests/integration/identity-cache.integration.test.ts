@@ -0,0 +1,88 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Persistent self-identity cache: a second client on the same database reuses
+ * the cached v2.me() result, the raw token never reaches SQLite, and expiry
+ * and forced refreshes go back to the API
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+process.env.TWITTER_TRANSPORT = "fake";
+
+import { fakeTwitterServer } from "../../src/lib/fake-twitter-server";
+import { createAppContext } from "../../src/lib/app-context";
+import { createRateLimitedTwitterClient } from "../../src/lib/rate-limited-twitter-client";
+import { hashToken } from "../../src/persistence/global/identity-cache";
+
+const suite = createTestSuite("Persistent identity cache");
+
+const TOKEN = "identity-cache-secret-token";
+
+const context = createAppContext({ dbPath: ":memory:" });
+const limiter = context.rateLimiter;
+
+function newClient(ttlHours?: number) {
+  return createRateLimitedTwitterClient({
+    gameTwitterAccessToken: TOKEN,
+    workerId: "identity-worker",
+    rateLimiter: limiter,
+    ...(ttlHours !== undefined ? { cache: { ttlHours } } : {}),
+  });
+}
+
+async function remaining(): Promise<number> {
+  return (await limiter.getRemainingCapacity("get_user")).per_15min.remaining;
+}
+
+suite.test("a new client reuses the stored identity", async () => {
+  await limiter.resetLimitsForTesting();
+  fakeTwitterServer.reset("glitchbot_ai");
+
+  const before = await remaining();
+  const first = await newClient().getCurrentUserId();
+  assert.equals(await remaining(), before - 1, "First lookup hits the API");
+
+  // Simulates a restart: nothing in memory, same database
+  const restarted = newClient();
+  assert.truthy(restarted.getCacheStatus().hasCachedUser);
+  const second = await restarted.getCurrentUserId();
+  assert.equals(second.id, first.id);
+  assert.equals(second.username, "glitchbot_ai");
+  assert.equals(await remaining(), before - 1, "No second get_user call");
+});
+
+suite.test("only the token hash is stored", async () => {
+  const rows = limiter.dbManager.database
+    .prepare(`SELECT * FROM identity_cache`)
+    .all() as Array<Record<string, unknown>>;
+  assert.equals(rows.length, 1);
+  assert.equals(rows[0]?.token_hash, hashToken(TOKEN));
+  assert.falsy(JSON.stringify(rows).includes(TOKEN), "Raw token never written");
+});
+
+suite.test("expired entries and forced refreshes call the API", async () => {
+  await limiter.resetLimitsForTesting();
+  const before = await remaining();
+
+  // Backdate the entry past the default 2h TTL
+  limiter.dbManager.database
+    .prepare(`UPDATE identity_cache SET cached_at = ?`)
+    .run(Date.now() - 3 * 60 * 60 * 1000);
+
+  const client = newClient(24);
+  assert.truthy(client.getCacheStatus().hasCachedUser, "24h TTL still fresh");
+
+  const defaultTtl = newClient();
+  assert.falsy(defaultTtl.getCacheStatus().hasCachedUser, "Pruned at 2h");
+  await defaultTtl.getCurrentUserId();
+  assert.equals(await remaining(), before - 1);
+
+  await defaultTtl.getCurrentUserId(true);
+  assert.equals(await remaining(), before - 2, "forceRefresh skips cache");
+
+  defaultTtl.clearUserCache();
+  assert.falsy(newClient().getCacheStatus().hasCachedUser);
+});
+
+suite.run();
@@ -0,0 +1,164 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Mention lease/claim semantics in GlitchBotDB: exclusive claims,
+ * heartbeats, release and reaping of expired leases, and the batch claim
+ * get_pending_mentions makes for its worker
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import GlitchBotDB from "../../src/lib/db";
+import { DatabaseManager } from "../../src/lib/database-manager";
+import { createAppContext } from "../../src/lib/app-context";
+import { createGetPendingMentionsFunction } from "../../src/functions/mentions/get-pending-mentions";
+
+const suite = createTestSuite("Mention leases - claim/heartbeat/reap");
+const db = new GlitchBotDB(new DatabaseManager(":memory:"));
+
+function insertMention(id: string, priority = 5): void {
+  db.database
+    .prepare(
+      `INSERT INTO pending_mentions
+        (mention_id, author_id, author_username, text, created_at, priority)
+       VALUES (?, 'a1', 'dev_user', 'hi @glitchbot_ai', ?, ?)`
+    )
+    .run(id, new Date().toISOString(), priority);
+}
+
+function resetQueue(): void {
+  db.database.prepare("DELETE FROM pending_mentions").run();
+}
+
+function status(id: string): any {
+  return db.database
+    .prepare(
+      "SELECT status, worker_id, lease_expires_at FROM pending_mentions WHERE mention_id = ?"
+    )
+    .get(id);
+}
+
+suite.test("claimMentions hands out disjoint batches", async () => {
+  resetQueue();
+  insertMention("m1", 9);
+  insertMention("m2", 5);
+  insertMention("m3", 1);
+
+  const first = db.claimMentions("worker-a", 2, 60);
+  const second = db.claimMentions("worker-b", 2, 60);
+
+  assert.equals(
+    first.map((m: any) => m.mention_id).join(","),
+    "m1,m2",
+    "Highest priority first"
+  );
+  assert.equals(second.map((m: any) => m.mention_id).join(","), "m3");
+  assert.equals(status("m1").worker_id, "worker-a");
+  assert.equals(status("m1").status, "processing");
+  assert.equals(db.claimMentions("worker-c", 5, 60).length, 0);
+});
+
+suite.test("claimMention is exclusive until the lease expires", async () => {
+  resetQueue();
+  insertMention("m1");
+
+  assert.truthy(db.claimMention("m1", "worker-a", 60));
+  assert.falsy(db.claimMention("m1", "worker-b", 60), "Held by worker-a");
+  assert.truthy(db.claimMention("m1", "worker-a", 60), "Owner may re-claim");
+
+  // Expire the lease
+  db.database
+    .prepare(
+      "UPDATE pending_mentions SET lease_expires_at = ? WHERE mention_id = ?"
+    )
+    .run(new Date(Date.now() - 1000).toISOString(), "m1");
+  assert.truthy(db.claimMention("m1", "worker-b", 60), "Expired lease");
+  assert.equals(status("m1").worker_id, "worker-b");
+});
+
+suite.test("heartbeat only extends the owner's lease", async () => {
+  resetQueue();
+  insertMention("m1");
+  db.claimMention("m1", "worker-a", 1);
+  const before = status("m1").lease_expires_at;
+
+  assert.falsy(db.heartbeatMentionLease("m1", "worker-b", 600));
+  assert.truthy(db.heartbeatMentionLease("m1", "worker-a", 600));
+  assert.truthy(status("m1").lease_expires_at > before, "Lease extended");
+});
+
+suite.test("release and reap return mentions to pending", async () => {
+  resetQueue();
+  insertMention("m1");
+  insertMention("m2");
+  db.claimMention("m1", "worker-a", 60);
+  db.claimMention("m2", "worker-a", 60);
+
+  assert.falsy(db.releaseMention("m1", "worker-b"), "Only owner releases");
+  assert.truthy(db.releaseMention("m1", "worker-a"));
+  assert.equals(status("m1").status, "pending");
+
+  assert.equals(db.reapExpiredMentionLeases(), 0, "m2 lease still valid");
+  db.database
+    .prepare(
+      "UPDATE pending_mentions SET lease_expires_at = ? WHERE mention_id = ?"
+    )
+    .run(new Date(Date.now() - 1000).toISOString(), "m2");
+  assert.equals(db.reapExpiredMentionLeases(), 1);
+  assert.equals(status("m2").status, "pending");
+  assert.equals(status("m2").worker_id, null);
+});
+
+suite.test("completed mentions cannot be claimed", async () => {
+  resetQueue();
+  insertMention("m1");
+  db.claimMention("m1", "worker-a", 60);
+  db.markMentionProcessed("m1", new Date().toISOString(), "worker-a");
+
+  assert.equals(status("m1").lease_expires_at, null);
+  assert.falsy(db.claimMention("m1", "worker-b", 60));
+  assert.equals(db.claimMentions("worker-b", 5, 60).length, 0);
+});
+
+suite.test("get_pending_mentions claims its batch for the worker", async () => {
+  const context = createAppContext({ dbPath: ":memory:" });
+  const getPending = createGetPendingMentionsFunction(context);
+  for (const [id, priority] of [
+    ["m1", 9],
+    ["m2", 5],
+  ] as const) {
+    context.db.database
+      .prepare(
+        `INSERT INTO pending_mentions
+          (mention_id, author_id, author_username, text, created_at, priority)
+         VALUES (?, 'a1', 'dev_user', 'hi @glitchbot_ai', ?, ?)`
+      )
+      .run(id, new Date().toISOString(), priority);
+  }
+
+  const list = async (workerId: string, limit: string) => {
+    process.env.MENTIONS_WORKER_ID = workerId;
+    const result = await getPending.executable({ limit }, () => {});
+    return JSON.parse(result.feedback).mentions as any[];
+  };
+
+  try {
+    const first = await list("worker-a", "1");
+    assert.equals(first.map((m) => m.mention_id).join(","), "m1");
+    assert.equals(first[0].status, "processing");
+
+    const second = await list("worker-b", "5");
+    assert.equals(
+      second.map((m) => m.mention_id).join(","),
+      "m2",
+      "Claimed mentions aren't handed to another worker"
+    );
+    const owner = context.db.database
+      .prepare("SELECT worker_id FROM pending_mentions WHERE mention_id = ?")
+      .get("m1") as { worker_id: string };
+    assert.equals(owner.worker_id, "worker-a");
+  } finally {
+    delete process.env.MENTIONS_WORKER_ID;
+  }
+});
+
+suite.run();
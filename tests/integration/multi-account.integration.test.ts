@@ -0,0 +1,138 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Multi-account isolation: two personas on one database keep separate
+ * checkpoints, cadence, mention queues, suggested tweets and rate-limit
+ * buckets
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { DatabaseManager } from "../../src/lib/database-manager";
+import { createAppContext } from "../../src/lib/app-context";
+import { loadAccountsFile } from "../../src/lib/accounts";
+
+const suite = createTestSuite("Multi-account - per-account state");
+
+const dbManager = new DatabaseManager(":memory:");
+const main = createAppContext({
+  dbManager,
+  account: { id: "default", agent: "glitchbot", gameTwitterToken: "t1" },
+});
+const curator = createAppContext({
+  dbManager,
+  account: { id: "curator", agent: "timeline", gameTwitterToken: "t2" },
+});
+
+function enqueue(db: typeof main.db, mentionId: string): void {
+  db.database
+    .prepare(
+      `INSERT INTO pending_mentions
+        (account_id, mention_id, author_id, author_username, text, created_at)
+       VALUES (?, ?, 'a1', 'dev_user', 'hi', ?)`
+    )
+    .run(db.accountId, mentionId, new Date().toISOString());
+}
+
+suite.test("checkpoints and cadence are per account", () => {
+  main.db.setMentionCheckpoint("100");
+  curator.db.setMentionCheckpoint("200");
+  main.db.setTimelineState("last_newest_id", "t-main");
+  curator.db.setCadence("last_quote_ts", "2025-01-01T00:00:00.000Z");
+
+  assert.equals(main.db.getLastMentionSinceId(), "100");
+  assert.equals(curator.db.getLastMentionSinceId(), "200");
+  assert.equals(curator.db.getTimelineState("last_newest_id"), null);
+  assert.equals(main.db.getCadence("last_quote_ts"), null);
+});
+
+suite.test("the same mention is queued and claimed once per account", () => {
+  enqueue(main.db, "m1");
+  enqueue(curator.db, "m1");
+
+  assert.equals(main.db.claimMentions("w-main", 10).length, 1);
+  assert.equals(curator.db.getPendingMentions("pending", 10).length, 1);
+  assert.truthy(curator.db.claimMention("m1", "w-curator"));
+
+  main.db.recordMentionEngagement("m1", "reply");
+  assert.falsy(curator.db.isMentionEngaged("m1"));
+});
+
+function suggest(db: typeof main.db, tweetId: string, mentionId: string) {
+  db.addSuggestedTweet({
+    tweet_id: tweetId,
+    author_id: "a2",
+    author_username: "ml_engineer",
+    content: "New paper: speculative decoding cuts LLM inference latency",
+    created_at: new Date().toISOString(),
+    public_metrics: "{}",
+    discovered_via_mention_id: mentionId,
+    discovery_timestamp: new Date().toISOString(),
+    curation_score: 16,
+  });
+}
+
+suite.test("suggested tweets stay with the account that found them", () => {
+  // The mention isn't queued, so only the discovery-time fallback finds it
+  suggest(main.db, "s1", "m-unqueued");
+
+  assert.equals(
+    main.db.getRecentSuggestedTweetRowsByMentionWindow(24, 10).length,
+    1
+  );
+  assert.equals(
+    curator.db.getRecentSuggestedTweetRowsByMentionWindow(24, 10).length,
+    0,
+    "Fallback is scoped too"
+  );
+  assert.falsy(curator.db.suggestedTweetExists("s1"));
+  assert.equals(curator.db.getSuggestedTweet("s1") ?? null, null);
+  assert.equals(curator.db.getSuggestedStats().total, 0);
+  assert.equals(curator.db.getBestSuggestedTweets().length, 0);
+
+  // Each persona can hold the same tweet; removing one leaves the other
+  suggest(curator.db, "s1", "m1");
+  assert.equals(curator.db.getSuggestedTweetsForMentions(["m1"]).length, 1);
+  curator.db.removeSuggestedTweet("s1");
+  assert.truthy(main.db.suggestedTweetExists("s1"));
+  assert.equals(main.db.getSuggestedStats().total, 1);
+});
+
+suite.test("rate-limit buckets are per account", async () => {
+  for (let i = 0; i < 15; i++) {
+    await main.rateLimiter.recordUsage("fetch_mentions", "w", true);
+  }
+  const blocked = await main.rateLimiter.canMakeRequest("fetch_mentions", "w");
+  const other = await curator.rateLimiter.canMakeRequest("fetch_mentions", "w");
+
+  assert.falsy(blocked.allowed, "Main account used its 15-minute budget");
+  assert.truthy(other.allowed, "Curator account has its own budget");
+});
+
+suite.test("accounts file reads tokens from env", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "glitchbot-accounts-"));
+  const file = path.join(dir, "accounts.json");
+  fs.writeFileSync(
+    file,
+    JSON.stringify([
+      { id: "main", game_twitter_token_env: "MAIN_TOKEN" },
+      { id: "curator", agent: "timeline", game_twitter_token: "t2" },
+    ])
+  );
+  const accounts = loadAccountsFile(file, { MAIN_TOKEN: "t1" });
+  assert.equals(
+    accounts.map((a) => `${a.id}:${a.agent}`).join(","),
+    "main:glitchbot,curator:timeline"
+  );
+  assert.equals(accounts[0]!.gameTwitterToken, "t1");
+
+  fs.writeFileSync(
+    file,
+    JSON.stringify([{ id: "bad id", game_twitter_token: "x" }])
+  );
+  await assert.throws(() => loadAccountsFile(file, {}), "Invalid id rejected");
+});
+
+suite.run();
@@ -0,0 +1,104 @@
+#!/usr/bin/env ts-node
+
+/**
+ * quote_tweet posts native quotes (quote_tweet_id) by default, pastes the
+ * link in url mode, and takes the author from the cached tweet rather than
+ * the username argument in both. A quote Twitter accepted is never reported
+ * as failed because of bookkeeping after the post.
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+process.env.TWITTER_TRANSPORT = "fake";
+process.env.GAME_TWITTER_TOKEN = "quote-test-token";
+
+import { fakeTwitterServer } from "../../src/lib/fake-twitter-server";
+import { createAppContext } from "../../src/lib/app-context";
+import { loadConfig, setConfig } from "../../src/lib/config";
+import { createQuoteTweetFunction } from "../../src/functions/timeline/quote-tweet";
+
+const suite = createTestSuite("Native quote tweets");
+const log = () => {};
+
+// Fresh database per case so the quote cadence never blocks
+async function quote(
+  text: string,
+  comment: string,
+  setup: (context: ReturnType<typeof createAppContext>) => void = () => {}
+) {
+  const target = fakeTwitterServer.addTimelineTweet({
+    author: "ml_engineer",
+    text,
+  });
+  const context = createAppContext({ dbPath: ":memory:" });
+  setup(context);
+  context.db.cacheTweets([
+    { ...target, author: { id: target.author_id, username: "ml_engineer" } },
+  ]);
+
+  const result = await createQuoteTweetFunction(context).executable(
+    { tweet_id: target.id, username: "popular_account", comment },
+    log
+  );
+  const posted = fakeTwitterServer.getPostedTweets().at(-1);
+  return { target, result, posted, context };
+}
+
+suite.test("native mode attaches the tweet with quote_tweet_id", async () => {
+  fakeTwitterServer.reset("glitchbot_ai");
+  setConfig(loadConfig({ env: {} }));
+
+  const { target, result, posted, context } = await quote(
+    "New paper: speculative decoding cuts LLM inference latency by 2x",
+    "Notable inference-time optimization"
+  );
+  assert.equals(result.status, "done", result.feedback);
+  assert.truthy(result.feedback.includes("@ml_engineer"), "Cached author");
+  assert.equals(posted?.text, "Notable inference-time optimization");
+  assert.equals(posted?.referenced_tweets?.[0]?.type, "quoted");
+  assert.equals(posted?.referenced_tweets?.[0]?.id, target.id);
+
+  // Saved so the quote's engagement can train the ranking weights
+  const outcome = context.dbManager.database
+    .prepare(
+      `SELECT tweet_id, features FROM ranking_outcomes WHERE post_id = ?`
+    )
+    .get(posted?.id) as { tweet_id: string; features: string } | undefined;
+  assert.equals(outcome?.tweet_id, target.id);
+  assert.equals(JSON.parse(outcome!.features).keywords, 3);
+});
+
+suite.test("url mode pastes the link with the cached author", async () => {
+  setConfig(loadConfig({ env: { GLITCHBOT__TIMELINE__QUOTE_MODE: "url" } }));
+
+  const { target, result, posted } = await quote(
+    "Open-sourcing our Rust compiler plugin for zk circuits",
+    "Clean approach to circuit tooling"
+  );
+  assert.equals(result.status, "done", result.feedback);
+  assert.equals(
+    posted?.text,
+    `Clean approach to circuit tooling https://x.com/ml_engineer/status/${target.id}`
+  );
+  assert.falsy(posted?.text.includes("popular_account"));
+});
+
+suite.test("a failed lock write after posting still succeeds", async () => {
+  setConfig(loadConfig({ env: {} }));
+  const before = fakeTwitterServer.getPostedTweets().length;
+
+  const { target, result, context } = await quote(
+    "Benchmarks for the new open-source LLM inference server",
+    "Useful numbers for serving costs",
+    (ctx) => {
+      ctx.engagementTracker.releaseLock = async () => {
+        throw new Error("database is locked");
+      };
+    }
+  );
+  assert.equals(result.status, "done", result.feedback);
+  assert.equals(fakeTwitterServer.getPostedTweets().length, before + 1);
+  assert.truthy(context.db.isTweetQuoted(target.id), "Engagement recorded");
+});
+
+suite.run();
@@ -0,0 +1,158 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Ranking feedback: settled quotes move the weights of the features they
+ * were strong on (up when they beat the average, down when they fell short),
+ * unsettled ones wait, quotes the cache hasn't seen since they settled are
+ * looked up, and quotes never seen again are closed without counting
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+process.env.TWITTER_TRANSPORT = "fake";
+
+import { fakeTwitterServer } from "../../src/lib/fake-twitter-server";
+import { createAppContext } from "../../src/lib/app-context";
+import { createRateLimitedTwitterClient } from "../../src/lib/rate-limited-twitter-client";
+import { loadConfig, setConfig } from "../../src/lib/config";
+import { normalizeTweetMetrics } from "../../src/lib/tweet-normalizer";
+import { RankingFeedback } from "../../src/persistence/global/ranking-feedback";
+
+const suite = createTestSuite("Ranking feedback");
+
+setConfig(
+  loadConfig({
+    env: {
+      GLITCHBOT__RANKING__LEARNING_RATE: "0.1",
+      GLITCHBOT__RANKING__FEEDBACK_SETTLE_HOURS: "24",
+    },
+  })
+);
+
+const HOUR = 60 * 60 * 1000;
+const context = createAppContext({ dbPath: ":memory:" });
+const feedback = new RankingFeedback(context.dbManager, context.account.id);
+
+const NONE = { keywords: 0, engagement: 0, author: 0, sentiment: 0 };
+
+// Our quote as the home timeline last showed it (metrics captured now)
+function observe(postId: string, likes: number) {
+  context.db.cacheTweets([
+    {
+      id: postId,
+      text: `our quote ${postId}`,
+      author_id: "bot",
+      created_at: new Date(Date.now() - 48 * HOUR).toISOString(),
+      public_metrics: normalizeTweetMetrics({ like_count: likes }),
+    },
+  ]);
+}
+
+suite.test("the first settled quote sets the baseline only", async () => {
+  feedback.recordPost(
+    "c1",
+    "p1",
+    { ...NONE, keywords: 15 },
+    Date.now() - 48 * HOUR
+  );
+  observe("p1", 10);
+
+  assert.equals(feedback.applyOutcomes(), 1);
+  assert.equals(feedback.getWeights().keywords, 1);
+});
+
+suite.test("beating the average raises the strong features", async () => {
+  feedback.recordPost(
+    "c2",
+    "p2",
+    { ...NONE, keywords: 15, sentiment: 5 },
+    Date.now() - 48 * HOUR
+  );
+  observe("p2", 30);
+
+  assert.equals(feedback.applyOutcomes(), 1);
+  const weights = feedback.getWeights();
+  assert.equals(weights.keywords, 1.1, "Full share, full reward");
+  assert.equals(weights.sentiment, 1.05, "Half share");
+  assert.equals(weights.author, 1, "Unused feature stays put");
+});
+
+suite.test("falling short lowers them", async () => {
+  feedback.recordPost(
+    "c3",
+    "p3",
+    { ...NONE, author: 15 },
+    Date.now() - 48 * HOUR
+  );
+  observe("p3", 0);
+
+  assert.equals(feedback.applyOutcomes(), 1);
+  assert.equals(feedback.getWeights().author, 0.9);
+});
+
+suite.test("unsettled and unseen quotes don't count", async () => {
+  feedback.recordPost("c4", "p4", { ...NONE, keywords: 15 }, Date.now() - HOUR);
+  observe("p4", 500);
+  feedback.recordPost(
+    "c5",
+    "p5",
+    { ...NONE, keywords: 15 },
+    Date.now() - 8 * 24 * HOUR
+  );
+
+  assert.equals(feedback.applyOutcomes(), 0);
+  assert.equals(feedback.getWeights().keywords, 1.1);
+
+  const rows = context.dbManager.database
+    .prepare(
+      `SELECT post_id, engagement, applied_at FROM ranking_outcomes
+       WHERE post_id IN ('p4', 'p5') ORDER BY post_id`
+    )
+    .all() as Array<{
+    post_id: string;
+    engagement: number | null;
+    applied_at: number | null;
+  }>;
+  assert.equals(rows[0]?.applied_at, null, "p4 is still settling");
+  assert.truthy(rows[1]?.applied_at, "p5 was closed");
+  assert.equals(rows[1]?.engagement, null, "p5 was never observed");
+});
+
+suite.test("settled quotes are looked up before they count", async () => {
+  fakeTwitterServer.reset("glitchbot_ai");
+  const client = createRateLimitedTwitterClient({
+    gameTwitterAccessToken: "ranking-feedback-token",
+    workerId: "timeline-worker",
+    rateLimiter: context.rateLimiter,
+  });
+
+  // Posted through the API, never seen by a timeline fetch
+  const posted = await client.v2.tweet("our quote p6");
+  fakeTwitterServer.getTweet(posted.data.id)!.public_metrics.like_count = 40;
+  feedback.recordPost(
+    "c6",
+    posted.data.id,
+    { ...NONE, keywords: 15 },
+    Date.now() - 48 * HOUR
+  );
+  assert.equals(feedback.applyOutcomes(), 0, "Nothing cached yet");
+
+  assert.equals(await feedback.fetchOutcomeMetrics(client.v2, context.db), 1);
+  assert.equals(fakeTwitterServer.getCallCount("tweets"), 1);
+  assert.equals(feedback.applyOutcomes(), 1);
+  assert.equals(feedback.getWeights().keywords.toFixed(2), "1.20");
+
+  assert.equals(
+    await feedback.fetchOutcomeMetrics(client.v2, context.db),
+    0,
+    "Nothing left to look up"
+  );
+  assert.equals(fakeTwitterServer.getCallCount("tweets"), 1, "No call made");
+});
+
+suite.test("weights are per account", async () => {
+  const other = new RankingFeedback(context.dbManager, "other");
+  assert.equals(other.getWeights().keywords, 1);
+});
+
+suite.run();
@@ -0,0 +1,163 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Rate-limit reservations: held capacity blocks other workers, multi-endpoint
+ * reservations are all-or-nothing, fetchUserMentions refuses up front
+ * instead of spending get_user budget first, and a fetch that went out
+ * still succeeds (and frees its reservation) when recording it fails
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+process.env.TWITTER_TRANSPORT = "fake";
+
+const { fakeTwitterServer } = require("../../src/lib/fake-twitter-server");
+const { createAppContext } = require("../../src/lib/app-context");
+const { loadConfig, setConfig } = require("../../src/lib/config");
+const {
+  createRateLimitedTwitterClient,
+} = require("../../src/lib/rate-limited-twitter-client");
+
+const suite = createTestSuite("Rate-limit reservations");
+
+// Small budgets, no fair-share split, so the arithmetic stays readable
+const budget = JSON.stringify({
+  requests_per_15min: 3,
+  worker_fair_share: false,
+});
+setConfig(
+  loadConfig({
+    env: {
+      GLITCHBOT__RATE_LIMITS__FETCH_MENTIONS: budget,
+      GLITCHBOT__RATE_LIMITS__GET_USER: budget,
+    },
+  })
+);
+
+const context = createAppContext({ dbPath: ":memory:" });
+const limiter = context.rateLimiter;
+
+suite.test("reserved units block other workers", async () => {
+  await limiter.resetLimitsForTesting();
+  const held = await limiter.reserve(
+    [{ endpoint: "fetch_mentions", units: 2 }],
+    "worker-a"
+  );
+  assert.truthy(held.granted);
+
+  assert.truthy((await limiter.canMakeRequest("fetch_mentions", "b")).allowed);
+  await limiter.recordUsage("fetch_mentions", "b", true);
+  assert.falsy(
+    (await limiter.canMakeRequest("fetch_mentions", "b")).allowed,
+    "Last units are held by worker-a"
+  );
+
+  const own = await limiter.canMakeRequest(
+    "fetch_mentions",
+    "worker-a",
+    "medium",
+    held.id
+  );
+  assert.truthy(own.allowed, "Reservation holder may still call");
+  await limiter.recordUsage("fetch_mentions", "worker-a", true, {}, held.id);
+  assert.equals(limiter.reservations.getHeldUnits("fetch_mentions"), 1);
+
+  await limiter.commitReservation(held.id);
+  assert.equals(limiter.reservations.getHeldUnits("fetch_mentions"), 0);
+  const capacity = await limiter.getRemainingCapacity("fetch_mentions");
+  assert.equals(capacity.per_15min.remaining, 1, "Unused unit is freed");
+});
+
+suite.test("multi-endpoint reservations are all-or-nothing", async () => {
+  await limiter.resetLimitsForTesting();
+  for (let i = 0; i < 3; i++) {
+    await limiter.recordUsage("get_user", "w", true);
+  }
+
+  const refused = await limiter.reserve(
+    [{ endpoint: "fetch_mentions" }, { endpoint: "get_user" }],
+    "w"
+  );
+  assert.falsy(refused.granted);
+  assert.equals(refused.endpoint, "get_user");
+  assert.equals(
+    limiter.reservations.getHeldUnits("fetch_mentions"),
+    0,
+    "Nothing held when any endpoint is full"
+  );
+});
+
+suite.test("released and expired reservations free capacity", async () => {
+  await limiter.resetLimitsForTesting();
+  const released = await limiter.reserve(
+    [{ endpoint: "fetch_mentions", units: 3 }],
+    "w"
+  );
+  assert.falsy((await limiter.canMakeRequest("fetch_mentions", "x")).allowed);
+  await limiter.releaseReservation(released.id);
+  assert.truthy((await limiter.canMakeRequest("fetch_mentions", "x")).allowed);
+
+  await limiter.reserve([{ endpoint: "fetch_mentions", units: 3 }], "w", {
+    ttlSeconds: 0,
+  });
+  assert.truthy(
+    (await limiter.canMakeRequest("fetch_mentions", "x")).allowed,
+    "Expired reservation holds nothing"
+  );
+});
+
+suite.test("fetchUserMentions refuses before calling get_user", async () => {
+  await limiter.resetLimitsForTesting();
+  fakeTwitterServer.reset("glitchbot_ai");
+  const client = createRateLimitedTwitterClient({
+    gameTwitterAccessToken: "reservation-test-token",
+    workerId: "mentions-worker",
+    rateLimiter: limiter,
+  });
+
+  for (let i = 0; i < 3; i++) {
+    await limiter.recordUsage("fetch_mentions", "other", true);
+  }
+  await assert.throws(() => client.fetchUserMentions({}), "Mentions full");
+  assert.equals(fakeTwitterServer.getCallCount("me"), 0, "No get_user spent");
+
+  await limiter.resetLimitsForTesting();
+  await client.fetchUserMentions({});
+  assert.equals(fakeTwitterServer.getCallCount("me"), 1);
+  assert.equals(limiter.reservations.getHeldUnits("get_user"), 0);
+  assert.equals(limiter.reservations.getHeldUnits("fetch_mentions"), 0);
+});
+
+suite.test("failing to record usage doesn't fail the fetch", async () => {
+  await limiter.resetLimitsForTesting();
+  fakeTwitterServer.reset("glitchbot_ai");
+  const client = createRateLimitedTwitterClient({
+    gameTwitterAccessToken: "record-failure-token",
+    workerId: "mentions-worker",
+    rateLimiter: limiter,
+  });
+
+  const recordUsage = limiter.recordUsage;
+  limiter.recordUsage = async () => {
+    throw new Error("database is locked");
+  };
+  try {
+    const response = await client.fetchUserMentions({
+      forceRefreshUser: true,
+    });
+    assert.equals(response.data.meta?.result_count, 0);
+  } finally {
+    limiter.recordUsage = recordUsage;
+  }
+
+  assert.equals(fakeTwitterServer.getCallCount("me"), 1);
+  assert.truthy(
+    (await client.getCurrentUserId()).id,
+    "Identity was cached despite the failure"
+  );
+  assert.equals(fakeTwitterServer.getCallCount("me"), 1, "No second get_user");
+  assert.equals(limiter.reservations.getHeldUnits("get_user"), 0);
+  assert.equals(limiter.reservations.getHeldUnits("fetch_mentions"), 0);
+});
+
+suite.run();
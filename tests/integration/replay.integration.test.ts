@@ -0,0 +1,105 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Replay regression: a recorded mentions + timeline session must replay
+ * against the current functions with identical results and DB writes, and
+ * leave the database in the state the session implies
+ *
+ * The fixture is a single recording. When a change legitimately alters a
+ * result or a write, patch those fields in the fixture; don't re-record it,
+ * or every id and timestamp changes and the diff hides what moved.
+ */
+
+import * as path from "path";
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+process.env.GAME_TWITTER_TOKEN = "replay";
+process.env.BOT_TWITTER_USERNAME = "glitchbot_ai";
+
+const {
+  loadReplayRecording,
+  replayRecording,
+} = require("../../src/lib/replay");
+const { createAppContext } = require("../../src/lib/app-context");
+const { createMentionsWorker } = require("../../src/workers/mentions-worker");
+const { createTimelineWorker } = require("../../src/workers/timeline-worker");
+
+const FIXTURE = path.join(
+  __dirname,
+  "../fixtures/replay/mentions-timeline.jsonl"
+);
+
+const suite = createTestSuite("Replay harness - recorded session");
+
+// The recording starts from an empty database, so each replay gets its own
+function replayAgainstFreshDatabase(
+  recording: any,
+  context = createAppContext({ dbPath: ":memory:" })
+) {
+  return replayRecording(
+    recording,
+    [createMentionsWorker(context), createTimelineWorker(context)],
+    { database: context.dbManager.database }
+  );
+}
+
+suite.test("recording replays without divergence", async () => {
+  const recording = loadReplayRecording(FIXTURE);
+  assert.truthy(recording.steps.length > 0, "Fixture should contain steps");
+
+  const report = await replayAgainstFreshDatabase(recording);
+
+  assert.truthy(report.ok, JSON.stringify(report.mismatches, null, 2));
+  assert.equals(report.steps_replayed, recording.steps.length);
+});
+
+suite.test("replayed session leaves the expected state", async () => {
+  const recording = loadReplayRecording(FIXTURE);
+  const context = createAppContext({ dbPath: ":memory:" });
+  await replayAgainstFreshDatabase(recording, context);
+  const db = context.dbManager.database;
+  const rows = (sql: string) => db.prepare(sql).all() as any[];
+
+  // One mention, replied to once and completed
+  const mentions = rows(`SELECT status, retry_count FROM pending_mentions`);
+  assert.equals(mentions.length, 1);
+  assert.equals(mentions[0].status, "completed");
+  assert.equals(mentions[0].retry_count, 0);
+  assert.equals(rows(`SELECT * FROM engaged_mentions`).length, 1);
+
+  // One quote despite the planner asking twice
+  assert.equals(rows(`SELECT * FROM engaged_quotes`).length, 1);
+  assert.equals(
+    rows(`SELECT * FROM engagement_locks WHERE status != 'completed'`).length,
+    0,
+    "Every lock completed"
+  );
+  assert.equals(
+    rows(`SELECT * FROM rate_limit_reservations WHERE status = 'held'`).length,
+    0,
+    "No reservation left held"
+  );
+});
+
+suite.test("diverging responses are reported", async () => {
+  const recording = loadReplayRecording(FIXTURE);
+  const first = recording.steps[0].calls[0];
+  first.twitter_calls = first.twitter_calls.map((call: any) =>
+    call.method === "userMentionTimeline"
+      ? { ...call, response: { data: { data: [], meta: {} } } }
+      : call
+  );
+
+  const report = await replayAgainstFreshDatabase({
+    header: recording.header,
+    steps: [recording.steps[0]],
+  });
+
+  assert.falsy(report.ok, "Changed Twitter data must change the outcome");
+  assert.truthy(
+    report.mismatches.some((m: any) => m.field === "feedback"),
+    "Feedback mismatch expected"
+  );
+});
+
+suite.run();
@@ -0,0 +1,133 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Request queue: callers wait for capacity instead of failing, are served by
+ * priority, and get the last refusal back once their max wait expires
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { DatabaseManager } from "../../src/lib/database-manager";
+import { loadConfig, setConfig } from "../../src/lib/config";
+import { GlobalRateLimiter } from "../../src/persistence/global/rate-limiter";
+import { RequestQueue } from "../../src/lib/request-queue";
+
+const suite = createTestSuite("Priority request queue");
+
+// One call per window, so a single held reservation exhausts it
+setConfig(
+  loadConfig({
+    env: {
+      GLITCHBOT__RATE_LIMITS__LIKE_TWEET: JSON.stringify({
+        requests_per_15min: 1,
+        worker_fair_share: false,
+      }),
+    },
+  })
+);
+
+const limiter = new GlobalRateLimiter(new DatabaseManager(":memory:"));
+const like = [{ endpoint: "like_tweet" }];
+
+// Held for a few seconds, so waiters expect it back within their max wait
+async function holdCapacity(): Promise<string> {
+  const held = await limiter.reserve(like, "holder", { ttlSeconds: 3 });
+  if (!held.granted) throw new Error("Expected capacity to be free");
+  return held.id;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+suite.test("a queued call resolves once capacity frees", async () => {
+  await limiter.resetLimitsForTesting();
+  const heldId = await holdCapacity();
+
+  const waiting = limiter.waitForCapacity(like, "liker", "low", 5000);
+  await sleep(50);
+  assert.equals(limiter.getQueueDepths()["like_tweet"], 1, "Queued");
+
+  await limiter.releaseReservation(heldId);
+  const result = await waiting;
+  assert.truthy(result.granted, "Granted after the release");
+  assert.equals(limiter.getQueueDepths()["like_tweet"], undefined);
+  if (result.granted) await limiter.releaseReservation(result.id);
+});
+
+suite.test("higher priority waiters are served first", async () => {
+  await limiter.resetLimitsForTesting();
+  const heldId = await holdCapacity();
+
+  const order: string[] = [];
+  const low = limiter
+    .waitForCapacity(like, "low-worker", "low", 4000)
+    .then((r) => (order.push("low"), r));
+  await sleep(20);
+  const critical = limiter
+    .waitForCapacity(like, "reply-worker", "critical", 4000)
+    .then((r) => (order.push("critical"), r));
+  await sleep(20);
+  assert.equals(limiter.getQueueDepths()["like_tweet"], 2);
+
+  await limiter.releaseReservation(heldId);
+  const first = await critical;
+  assert.truthy(first.granted, "Critical jumps the queue");
+  assert.equals(order.join(","), "critical", "Low still waiting");
+
+  await limiter.releaseReservation(first.granted ? first.id : "");
+  assert.truthy((await low).granted, "Low gets the next slot");
+  assert.equals(order.join(","), "critical,low");
+});
+
+suite.test("max wait expires with the last refusal", async () => {
+  const queue = new RequestQueue();
+  let attempts = 0;
+  const started = Date.now();
+  const result = await queue.acquire("like_tweet", "medium", 300, async () => {
+    attempts++;
+    return { allowed: false, retry_after_seconds: 0.05, reason: "full" };
+  });
+  assert.falsy(result.allowed);
+  assert.equals(result.reason, "full");
+  assert.truthy(Date.now() - started >= 290, "Waited for max wait");
+  assert.truthy(attempts > 2, `Head kept retrying (${attempts})`);
+  assert.equals(queue.getDepths()["like_tweet"], undefined);
+
+  // A block that outlasts the max wait is refused without queueing
+  await limiter.resetLimitsForTesting();
+  limiter.throttles.block("like_tweet", Date.now() + 60 * 60 * 1000);
+  const blockedAt = Date.now();
+  const blocked = await limiter.waitForCapacity(like, "liker", "high", 5000);
+  assert.falsy(blocked.granted);
+  assert.truthy(Date.now() - blockedAt < 1000, "Didn't queue");
+
+  setConfig(loadConfig({ env: {} }));
+});
+
+suite.test("a grant the waiter gave up on is discarded", async () => {
+  const queue = new RequestQueue();
+  let attempts = 0;
+  let discarded: (id: string) => void = () => {};
+  const discardedId = new Promise<string>((resolve) => (discarded = resolve));
+
+  const result = await queue.acquire(
+    "like_tweet",
+    "medium",
+    500,
+    async () => {
+      attempts++;
+      if (attempts === 1) {
+        return { allowed: false, retry_after_seconds: 0.1, reason: "full" };
+      }
+      await sleep(1000); // Still running when the max wait expires
+      return { allowed: true, id: `late-${attempts}` };
+    },
+    (late) => discarded(late.id!)
+  );
+  assert.falsy(result.allowed, "Caller got the refusal");
+
+  const id = await Promise.race([discardedId, sleep(5000).then(() => "")]);
+  assert.equals(id, "late-2", "Late grant handed back");
+});
+
+suite.run();
@@ -0,0 +1,63 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Typed v2 facade: every operation is charged to its declared endpoint, and
+ * operations without a rate-limit mapping don't exist on the client
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+
+process.env.TWITTER_TRANSPORT = "fake";
+
+import { fakeTwitterServer } from "../../src/lib/fake-twitter-server";
+import { createAppContext } from "../../src/lib/app-context";
+import { createRateLimitedTwitterClient } from "../../src/lib/rate-limited-twitter-client";
+import { TWITTER_V2_OPERATIONS } from "../../src/lib/twitter-v2";
+import { RATE_LIMIT_PROFILES } from "../../src/persistence/global/rate-limit-profiles";
+
+const suite = createTestSuite("Typed Twitter v2 facade");
+
+const context = createAppContext({ dbPath: ":memory:" });
+const limiter = context.rateLimiter;
+const client = createRateLimitedTwitterClient({
+  gameTwitterAccessToken: "facade-test-token",
+  workerId: "facade-worker",
+  rateLimiter: limiter,
+});
+
+async function remaining(endpoint: string): Promise<number> {
+  return (await limiter.getRemainingCapacity(endpoint)).per_15min.remaining;
+}
+
+suite.test("calls are charged to the declared endpoint", async () => {
+  await limiter.resetLimitsForTesting();
+  fakeTwitterServer.reset("glitchbot_ai");
+
+  const before = await remaining("post_tweet");
+  const posted = await client.v2.tweet("typed facade check");
+  assert.truthy(posted.data.id, "Typed response");
+  assert.equals(await remaining("post_tweet"), before - 1);
+
+  const timelineBefore = await remaining("fetch_timeline");
+  const timeline = await client.v2.homeTimeline({ max_results: 5 });
+  assert.equals(
+    timeline.data.meta.result_count,
+    timeline.data.data?.length ?? 0
+  );
+  assert.equals(await remaining("fetch_timeline"), timelineBefore - 1);
+});
+
+suite.test("unmapped operations are not on the client", async () => {
+  // @ts-expect-error like() has no rate-limit mapping, so it isn't exposed
+  assert.equals(typeof client.v2.like, "undefined");
+
+  for (const [method, operation] of Object.entries(TWITTER_V2_OPERATIONS)) {
+    assert.equals(typeof (client.v2 as any)[method], "function", method);
+    assert.truthy(
+      RATE_LIMIT_PROFILES.testing.endpoints[operation.endpoint],
+      `${method} -> ${operation.endpoint} has a budget`
+    );
+  }
+});
+
+suite.run();
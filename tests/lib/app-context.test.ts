@@ -0,0 +1,53 @@
+#!/usr/bin/env ts-node
+
+/**
+ * App context: database path resolution and isolation between contexts
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { createAppContext } from "../../src/lib/app-context";
+import { resolveDatabasePath } from "../../src/lib/database-manager";
+
+const suite = createTestSuite("App context - injectable database");
+
+function restoreEnv(key: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[key];
+  } else {
+    process.env[key] = value;
+  }
+}
+
+suite.test("GLITCHBOT_DB_PATH wins over the legacy DATABASE_PATH", () => {
+  const saved = {
+    glitchbot: process.env.GLITCHBOT_DB_PATH,
+    legacy: process.env.DATABASE_PATH,
+  };
+  process.env.DATABASE_PATH = "./legacy.db";
+  delete process.env.GLITCHBOT_DB_PATH;
+  assert.equals(resolveDatabasePath(), "./legacy.db");
+
+  process.env.GLITCHBOT_DB_PATH = ":memory:";
+  assert.equals(resolveDatabasePath(), ":memory:");
+  assert.equals(resolveDatabasePath("./explicit.db"), "./explicit.db");
+
+  restoreEnv("GLITCHBOT_DB_PATH", saved.glitchbot);
+  restoreEnv("DATABASE_PATH", saved.legacy);
+});
+
+suite.test("in-memory contexts do not share state", () => {
+  const first = createAppContext({ dbPath: ":memory:" });
+  const second = createAppContext({ dbPath: ":memory:" });
+
+  first.dbManager.database
+    .prepare("INSERT INTO cadence (key, value) VALUES ('last_quote', 'x')")
+    .run();
+
+  const row = second.dbManager.database
+    .prepare("SELECT value FROM cadence WHERE key = 'last_quote'")
+    .get();
+  assert.equals(row, undefined, "Second context must start empty");
+  assert.equals(first.db.database, first.dbManager.database);
+});
+
+suite.run();
@@ -0,0 +1,109 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Runtime config: schema defaults, file + env overrides and validation errors
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { loadConfig } from "../../src/lib/config";
+
+const suite = createTestSuite("Runtime config");
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "glitchbot-config-"));
+const missing = path.join(dir, "absent.json");
+
+function writeConfig(name: string, contents: unknown): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(
+    file,
+    typeof contents === "string" ? contents : JSON.stringify(contents)
+  );
+  return file;
+}
+
+suite.test("defaults apply without a config file", () => {
+  const loaded = loadConfig({ env: {} });
+
+  assert.equals(loaded.config.timeline.max_results, 10);
+  assert.equals(loaded.config.timeline.suggestion_mix_limit, 2);
+  assert.equals(loaded.config.cadence.quote_interval_minutes, 60);
+  assert.equals(loaded.config.ranking.min_score, 8);
+  assert.truthy(loaded.config.ranking.high_priority_keywords.includes("ai"));
+  assert.equals(loaded.envOverrides.length, 0);
+});
+
+suite.test("env overrides win over the file", () => {
+  const file = writeConfig("overrides.json", {
+    cadence: { quote_interval_minutes: 90 },
+    timeline: { max_results: 20 },
+  });
+  const loaded = loadConfig({
+    file,
+    env: {
+      GLITCHBOT__TIMELINE__MAX_RESULTS: "30",
+      GLITCHBOT__RANKING__HIGH_PRIORITY_KEYWORDS: '["zk","rollup"]',
+      MENTION_MAX_ATTEMPTS: "3",
+    },
+  });
+
+  assert.equals(loaded.file, file);
+  assert.equals(loaded.config.cadence.quote_interval_minutes, 90);
+  assert.equals(loaded.config.timeline.max_results, 30);
+  assert.equals(
+    loaded.config.ranking.high_priority_keywords.join(","),
+    "zk,rollup"
+  );
+  assert.equals(loaded.config.mentions.max_attempts, 3, "Legacy env honoured");
+  assert.truthy(loaded.envOverrides.includes("timeline.max_results"));
+});
+
+suite.test("numeric-looking strings stay strings", () => {
+  const loaded = loadConfig({
+    env: {
+      GLITCHBOT__OWNER_HANDLE: "123",
+      GLITCHBOT__RANKING__MEDIUM_PRIORITY_KEYWORDS: '["0xabc"]',
+      GLITCHBOT__RATE_LIMITS__POST_TWEET: '{"requests_per_15min":5}',
+    },
+  });
+
+  assert.equals(loaded.config.owner_handle, "123");
+  assert.equals(loaded.config.ranking.medium_priority_keywords[0], "0xabc");
+  assert.equals(
+    loaded.config.rate_limits.post_tweet?.requests_per_15min,
+    5,
+    "Non-string settings are still parsed"
+  );
+
+  const exponent = loadConfig({ env: { GLITCHBOT__OWNER_HANDLE: "1e3" } });
+  assert.equals(exponent.config.owner_handle, "1e3");
+});
+
+suite.test("invalid values are reported with their path", async () => {
+  const file = writeConfig("invalid.json", {
+    timeline: { max_results: 500 },
+    cadence: { quote_interval: 30 },
+  });
+
+  let message = "";
+  try {
+    loadConfig({ file, env: {} });
+  } catch (error: any) {
+    message = error.message;
+  }
+  assert.truthy(message.includes("timeline.max_results"), message);
+  assert.truthy(message.includes("cadence"), "Unknown keys rejected");
+
+  await assert.throws(
+    () => loadConfig({ file: missing, env: {} }),
+    "Explicit missing file is an error"
+  );
+  await assert.throws(
+    () => loadConfig({ file: writeConfig("broken.json", "{"), env: {} }),
+    "Malformed JSON is an error"
+  );
+});
+
+suite.run();
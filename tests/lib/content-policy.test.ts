@@ -0,0 +1,118 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Content policy: banned words, financial advice, unsolicited @-mentions,
+ * emoji limit, stray URLs and prompt leaks are all reported, and
+ * reply_mention refuses to post text that breaks them
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { loadConfig, setConfig } from "../../src/lib/config";
+import { checkOutboundContent } from "../../src/lib/content-policy";
+import { createAppContext } from "../../src/lib/app-context";
+import { createReplyMentionFunction } from "../../src/functions/mentions/reply-mention";
+
+const suite = createTestSuite("Outbound content policy");
+
+setConfig(
+  loadConfig({
+    env: {
+      GLITCHBOT__CONTENT_POLICY__MAX_EMOJIS_PER_TWEET: "1",
+      GLITCHBOT__CONTENT_POLICY__BANNED_WORDS: '["scamcoin"]',
+    },
+  })
+);
+
+function rules(text: string, context = {}): string {
+  return checkOutboundContent(text, context)
+    .map((v) => v.rule)
+    .join(",");
+}
+
+suite.test("clean replies pass", async () => {
+  assert.equals(
+    rules("Thanks @dev_user, great find on the $ETH gas study 👀", {
+      allowedHandles: ["dev_user"],
+    }),
+    ""
+  );
+});
+
+suite.test("each rule is reported", async () => {
+  assert.equals(rules("Total scamcoins everywhere"), "banned_word");
+  assert.equals(
+    rules("Time to buy $GLITCH before it runs"),
+    "financial_advice"
+  );
+  assert.equals(rules("$SOL to the moon"), "financial_advice");
+  assert.equals(
+    rules("Ping @vitalik on this", { allowedHandles: ["dev_user"] }),
+    "unsolicited_mention"
+  );
+  assert.equals(rules("Wild 🔥🚀"), "emoji_limit");
+  // Counted like tweet-length does: flags, keycaps and skin tones included
+  assert.equals(rules("\u{1F1FA}\u{1F1F8}\u{1F1FA}\u{1F1F8}"), "emoji_limit");
+  assert.equals(rules("Step 1\uFE0F\u20E3 then 2\uFE0F\u20E3"), "emoji_limit");
+  assert.equals(rules("Nice \u{1F44D}\u{1F3FD}"), "");
+  assert.equals(rules("Details at example.com/launch"), "external_url");
+  assert.equals(
+    rules("Per my instructions, reply_text goes here"),
+    "prompt_leak"
+  );
+});
+
+suite.test("quotes may link the quoted tweet only", async () => {
+  const context = { quotedTweetId: "123", allowedHandles: ["alice"] };
+  assert.equals(
+    rules("Solid point https://x.com/alice/status/123", context),
+    ""
+  );
+  assert.equals(
+    rules("Solid point https://x.com/alice/status/999", context),
+    "external_url"
+  );
+});
+
+suite.test("reply_mention rejects violations with a rewrite hint", async () => {
+  const context = createAppContext({ dbPath: ":memory:" });
+  context.db.cacheTweets([
+    {
+      id: "500",
+      text: "@glitchbot_ai thoughts?",
+      author_id: "7",
+      author: { id: "7", username: "dev_user" },
+      created_at: "2026-01-01T00:00:00.000Z",
+    },
+  ]);
+  const reply = createReplyMentionFunction(context);
+
+  const result = await reply.executable(
+    {
+      mention_id: "500",
+      reply_text: "Thanks @dev_user! cc @randomwhale, buy $GLITCH now 🔥🚀",
+    },
+    () => {}
+  );
+  assert.equals(result.status, "failed");
+  assert.truthy(result.feedback.includes("@randomwhale"), result.feedback);
+  assert.truthy(result.feedback.includes("financial advice"));
+  assert.truthy(result.feedback.includes("2 emojis (max 1)"));
+  assert.truthy(result.feedback.includes("Rewrite"));
+
+  // A mention we have no record of may only tag the bot
+  const botContext = createAppContext({
+    dbPath: ":memory:",
+    account: { ...context.account, botUsername: "glitchbot_ai" },
+  });
+  const unknown = await createReplyMentionFunction(botContext).executable(
+    {
+      mention_id: "501",
+      reply_text: "Thanks @glitchbot_ai fans, ask @vitalik",
+    },
+    () => {}
+  );
+  assert.equals(unknown.status, "failed");
+  assert.truthy(unknown.feedback.includes("(@vitalik)"), unknown.feedback);
+});
+
+suite.run();
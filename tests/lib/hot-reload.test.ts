@@ -0,0 +1,101 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Hot reload: config edits applied at the step boundary with a diff, invalid
+ * edits rejected, and descriptions refreshed on the running agent
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GameAgent, GameWorker } from "@virtuals-protocol/game";
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { getConfig, loadConfig, setConfig } from "../../src/lib/config";
+import { RuntimeReloader } from "../../src/lib/hot-reload";
+import { applyAgentDescriptions } from "../../src/lib/agent-loop";
+
+const suite = createTestSuite("Hot reload");
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "glitchbot-reload-"));
+const configFile = path.join(dir, "glitchbot.config.json");
+
+function writeConfig(contents: unknown): void {
+  fs.writeFileSync(configFile, JSON.stringify(contents));
+}
+
+function agentWith(description: string, workerDescription: string) {
+  return new GameAgent("test-key", {
+    name: "Test",
+    goal: "test",
+    description,
+    workers: [
+      new GameWorker({
+        id: "w",
+        name: "W",
+        description: workerDescription,
+        functions: [],
+      }),
+    ],
+  });
+}
+
+suite.test("edits apply at the step boundary with a diff", () => {
+  writeConfig({ cadence: { quote_interval_minutes: 60 } });
+  setConfig(loadConfig({ file: configFile, env: {} }));
+  const reloader = new RuntimeReloader({ configFile });
+
+  writeConfig({
+    cadence: { quote_interval_minutes: 30 },
+    ranking: { high_priority_keywords: ["ai", "zk"] },
+  });
+  assert.equals(getConfig().cadence.quote_interval_minutes, 60, "Not yet");
+
+  reloader.markChanged();
+  const result = reloader.applyPending();
+
+  assert.truthy(result);
+  assert.equals(result!.generation, 1);
+  assert.equals(getConfig().cadence.quote_interval_minutes, 30);
+  assert.truthy(
+    result!.changes.includes("cadence.quote_interval_minutes: 60 → 30")
+  );
+  assert.truthy(
+    result!.changes.some((c) => c.startsWith("ranking.high_priority_keywords"))
+  );
+  assert.equals(reloader.applyPending(), null, "Nothing pending");
+});
+
+suite.test("invalid edits keep the previous config", () => {
+  writeConfig({ cadence: { quote_interval_minutes: 45 } });
+  setConfig(loadConfig({ file: configFile, env: {} }));
+  const reloader = new RuntimeReloader({ configFile });
+
+  writeConfig({ cadence: { quote_interval_minutes: -1 } });
+  reloader.markChanged();
+
+  assert.equals(reloader.applyPending(), null);
+  assert.equals(reloader.generation, 0);
+  assert.equals(getConfig().cadence.quote_interval_minutes, 45);
+});
+
+suite.test("descriptions are copied onto the running agent", () => {
+  const running = agentWith("old persona", "old worker");
+  const worker = running.workers[0];
+
+  const changed = applyAgentDescriptions(
+    running,
+    agentWith("new persona", "new worker")
+  );
+
+  assert.equals(changed.join(","), "agent,worker w");
+  assert.equals(running.description, "new persona");
+  assert.equals(running.workers[0], worker, "Worker objects are kept");
+  assert.equals(worker!.description, "new worker");
+  assert.equals(
+    applyAgentDescriptions(running, agentWith("new persona", "new worker"))
+      .length,
+    0
+  );
+});
+
+suite.run();
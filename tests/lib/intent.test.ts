@@ -0,0 +1,89 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Rule-based mention intent classifier
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import {
+  classifyMentionIntent,
+  setIntentClassifier,
+  INTENT_BASE_PRIORITY,
+} from "../../src/lib/intent";
+
+const suite = createTestSuite("Mention intent classifier");
+
+suite.test("owner mentions are commands with top priority", () => {
+  const result = classifyMentionIntent({
+    text: "@glitchbot_ai post a recap of today",
+    author_username: "LemonCheli",
+  });
+  assert.equals(result.intent, "owner_command");
+  assert.equals(result.priority, 10);
+});
+
+suite.test("questions outrank shares and bare tags", () => {
+  const question = classifyMentionIntent({
+    text: "@glitchbot_ai what do you think about speculative decoding?",
+  });
+  const share = classifyMentionIntent({
+    text: "@dev_user hey @glitchbot_ai check this out!",
+    has_referenced_tweets: true,
+  });
+  const bare = classifyMentionIntent({ text: "@glitchbot_ai" });
+
+  assert.equals(question.intent, "question");
+  assert.equals(share.intent, "content_share");
+  assert.equals(bare.intent, "bare_tag");
+  assert.truthy(question.priority > share.priority);
+  assert.truthy(share.priority > bare.priority);
+});
+
+suite.test("spam is detected and pinned to lowest priority", () => {
+  const result = classifyMentionIntent({
+    text: "@glitchbot_ai huge AIRDROP giveaway, connect wallet at t.me/scam 100x?",
+    author_followers: 90000,
+  });
+  assert.equals(result.intent, "spam");
+  assert.equals(result.priority, INTENT_BASE_PRIORITY.spam);
+  assert.truthy(result.confidence >= 0.9);
+});
+
+suite.test("follower count raises priority within an intent", () => {
+  const small = classifyMentionIntent({
+    text: "@glitchbot_ai how does this compare to vLLM?",
+    author_followers: 120,
+  });
+  const large = classifyMentionIntent({
+    text: "@glitchbot_ai how does this compare to vLLM?",
+    author_followers: 60000,
+  });
+  assert.equals(large.priority, small.priority + 2);
+});
+
+suite.test("custom classifier is used and falls back on error", () => {
+  setIntentClassifier({
+    name: "always-question",
+    classify: () => ({
+      intent: "question",
+      confidence: 1,
+      priority: 9,
+      signals: ["model"],
+    }),
+  });
+  assert.equals(classifyMentionIntent({ text: "@glitchbot_ai" }).priority, 9);
+
+  setIntentClassifier({
+    name: "broken",
+    classify: () => {
+      throw new Error("model offline");
+    },
+  });
+  assert.equals(
+    classifyMentionIntent({ text: "@glitchbot_ai" }).intent,
+    "bare_tag"
+  );
+  setIntentClassifier(undefined);
+});
+
+suite.run();
@@ -0,0 +1,131 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Numbered schema migrations: fresh install, adoption of pre-migration
+ * databases, rollback, dry runs and the newer-schema guard
+ */
+
+import Database from "better-sqlite3";
+import { createTestSuite, assert } from "../helpers/test-utils";
+import {
+  MIGRATIONS,
+  getLatestSchemaVersion,
+  getSchemaVersion,
+  runMigrations,
+} from "../../src/lib/migrations";
+
+const suite = createTestSuite("Schema migrations");
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map(
+    (c) => c.name
+  );
+}
+
+suite.test("fresh database migrates to latest", () => {
+  const db = new Database(":memory:");
+  const result = runMigrations(db);
+
+  assert.equals(result.fromVersion, 0);
+  assert.equals(result.toVersion, getLatestSchemaVersion());
+  assert.equals(result.steps.length, MIGRATIONS.length);
+  assert.truthy(columns(db, "pending_mentions").includes("next_attempt_at"));
+
+  const again = runMigrations(db);
+  assert.equals(again.steps.length, 0, "Second run is a no-op");
+});
+
+suite.test("pre-migration database is adopted without data loss", () => {
+  const db = new Database(":memory:");
+  // Shape of a production DB from before referenced_tweets existed
+  db.exec(`
+    CREATE TABLE pending_mentions (
+      mention_id TEXT PRIMARY KEY,
+      author_id TEXT NOT NULL,
+      author_username TEXT NOT NULL,
+      text TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      processed_at TIMESTAMP,
+      status TEXT DEFAULT 'pending',
+      priority INTEGER DEFAULT 5,
+      retry_count INTEGER DEFAULT 0,
+      last_error TEXT,
+      intent_type TEXT,
+      confidence REAL,
+      original_fetch_id TEXT,
+      worker_id TEXT
+    );
+    INSERT INTO pending_mentions (mention_id, author_id, author_username, text, created_at)
+      VALUES ('m1', 'a1', 'dev_user', 'hi', '2025-01-01');
+  `);
+
+  runMigrations(db);
+
+  const cols = columns(db, "pending_mentions");
+  assert.truthy(cols.includes("referenced_tweets"));
+  assert.truthy(cols.includes("lease_expires_at"));
+  const row = db
+    .prepare("SELECT text FROM pending_mentions WHERE mention_id = 'm1'")
+    .get() as any;
+  assert.equals(row.text, "hi");
+});
+
+suite.test("down migrations roll back to a target version", () => {
+  const db = new Database(":memory:");
+  runMigrations(db);
+
+  const result = runMigrations(db, { targetVersion: 1 });
+  assert.equals(result.toVersion, 1);
+  assert.equals(result.steps[0]!.direction, "down");
+  assert.falsy(columns(db, "pending_mentions").includes("lease_expires_at"));
+
+  runMigrations(db);
+  assert.truthy(columns(db, "pending_mentions").includes("lease_expires_at"));
+});
+
+suite.test("account scoping moves existing rows to 'default'", () => {
+  const db = new Database(":memory:");
+  runMigrations(db, { targetVersion: 3 });
+  db.exec(
+    "INSERT INTO mention_state (key, value) VALUES ('last_since_id', '42')"
+  );
+
+  runMigrations(db);
+  const row = db
+    .prepare("SELECT account_id, value FROM mention_state")
+    .get() as any;
+  assert.equals(row.account_id, "default");
+  assert.equals(row.value, "42");
+
+  db.exec(
+    "INSERT INTO mention_state (account_id, key, value) VALUES ('curator', 'last_since_id', '7')"
+  );
+  runMigrations(db, { targetVersion: 3 });
+  assert.falsy(columns(db, "mention_state").includes("account_id"));
+  const remaining = db
+    .prepare("SELECT value FROM mention_state")
+    .all() as any[];
+  assert.equals(remaining.length, 1, "Only default-account rows survive");
+});
+
+suite.test("dry run reports the plan without applying it", () => {
+  const db = new Database(":memory:");
+  const result = runMigrations(db, { dryRun: true });
+
+  assert.truthy(result.dryRun);
+  assert.equals(result.steps.length, MIGRATIONS.length);
+  assert.equals(getSchemaVersion(db), 0);
+});
+
+suite.test("newer schema versions are refused", async () => {
+  const db = new Database(":memory:");
+  runMigrations(db);
+  db.prepare(
+    "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'future', ?)"
+  ).run(getLatestSchemaVersion() + 1, new Date().toISOString());
+
+  await assert.throws(() => runMigrations(db), "Should refuse newer schema");
+});
+
+suite.run();
@@ -0,0 +1,111 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Timeline ranking: hard exclusions and low scores are dropped with a reason,
+ * survivors carry their score and feature breakdown and are sorted best
+ * first; keywords match whole words and weights scale each feature
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { loadConfig, setConfig } from "../../src/lib/config";
+import {
+  calculateKeywordScore,
+  rankTweets,
+  scoreTweet,
+} from "../../src/lib/ranking";
+import { Tweet, normalizeUserMetrics } from "../../src/lib/tweet-normalizer";
+
+const suite = createTestSuite("Timeline ranking");
+
+setConfig(
+  loadConfig({
+    env: {
+      GLITCHBOT__RANKING__MIN_SCORE: "8",
+      GLITCHBOT__RANKING__MIN_LENGTH: "20",
+    },
+  })
+);
+
+function tweet(id: string, text: string, followers = 0): Tweet {
+  return {
+    id,
+    text,
+    author_id: `author-${id}`,
+    author: {
+      id: `author-${id}`,
+      username: `user${id}`,
+      public_metrics: normalizeUserMetrics({ followers_count: followers }),
+    },
+    created_at: new Date(Date.now() - Number(id) * 60_000).toISOString(),
+  };
+}
+
+suite.test("drops exclusions and weak tweets with reasons", async () => {
+  const { ranked, dropped } = rankTweets([
+    tweet("1", "gm"),
+    tweet("2", "Sooooooo good, this new crypto wallet"),
+    tweet("3", "Lunch was fine, nothing else to report today"),
+    tweet("4", "New ethereum rollup ships a zk prover for AI agents"),
+  ]);
+
+  assert.equals(ranked.map((t) => t.id).join(","), "4");
+  const reasons = Object.fromEntries(dropped.map((d) => [d.id, d.reason]));
+  assert.equals(reasons["1"], "too short (2 < 20 chars)");
+  assert.equals(reasons["2"], "repeated characters");
+  assert.truthy(reasons["3"]?.includes("< min_score 8"), reasons["3"]);
+});
+
+suite.test("attaches scores and sorts best first", async () => {
+  const { ranked } = rankTweets([
+    tweet("1", "Thoughts on the new ethereum rollup design?"),
+    tweet("2", "Thoughts on the new ethereum rollup design?", 60000),
+    tweet("3", "Thoughts on the new ethereum rollup design?"),
+  ]);
+
+  assert.equals(
+    ranked.map((t) => t.id).join(","),
+    "2,1,3",
+    "Score, then newest"
+  );
+  assert.truthy(ranked[0]!.score > ranked[1]!.score);
+  assert.equals(ranked[1]!.score, ranked[2]!.score);
+  assert.truthy(ranked[0]!.score_reason.includes("author: 10"));
+});
+
+suite.test("keywords match whole words only", async () => {
+  assert.equals(calculateKeywordScore("She said the method was fine"), 0);
+  assert.equals(calculateKeywordScore("AI agents settle on ETH"), 6);
+  assert.equals(
+    calculateKeywordScore("Shipping LLMs with machine learning"),
+    6
+  );
+  assert.equals(calculateKeywordScore("Better decoding for speech"), 0);
+});
+
+suite.test("weights scale each feature in the breakdown", async () => {
+  const candidate = tweet("1", "Thoughts on the new ethereum rollup design?");
+  const plain = scoreTweet(candidate);
+  assert.equals(plain.features.keywords.value, 3);
+  assert.equals(plain.features.keywords.weight, 1);
+
+  const weighted = scoreTweet(candidate, {
+    keywords: 2,
+    engagement: 1,
+    author: 1,
+    sentiment: 0.5,
+  });
+  assert.equals(weighted.features.keywords.contribution, 6);
+  assert.equals(
+    weighted.features.sentiment.contribution,
+    plain.features.sentiment.value / 2
+  );
+  assert.equals(
+    weighted.score,
+    plain.score + 3 - plain.features.sentiment.value / 2
+  );
+
+  const [ranked] = rankTweets([candidate]).ranked;
+  assert.equals(ranked?.score_features.keywords.value, 3);
+});
+
+suite.run();
@@ -0,0 +1,146 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Rate-limit algorithms: sliding log closes the fixed-window boundary burst,
+ * token buckets refill at limit/window, and the limiter reports what the
+ * configured algorithm has left
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { DatabaseManager } from "../../src/lib/database-manager";
+import { loadConfig, setConfig } from "../../src/lib/config";
+import { GlobalRateLimiter } from "../../src/persistence/global/rate-limiter";
+import {
+  FixedWindowStrategy,
+  SlidingLogStrategy,
+  TokenBucketStrategy,
+} from "../../src/persistence/global/rate-limit-algorithms";
+
+const suite = createTestSuite("Rate-limit algorithms");
+
+const MINUTE = 60 * 1000;
+// 12:14 and 12:15 UTC straddle a 15-minute boundary
+const beforeBoundary = Date.UTC(2026, 0, 1, 12, 14);
+const afterBoundary = Date.UTC(2026, 0, 1, 12, 15);
+const limits = { per_15min: 3, per_hour: 100, per_day: 1000 };
+
+suite.test("sliding log blocks the burst a fixed window allows", () => {
+  const dbManager = new DatabaseManager(":memory:");
+  const fixed = new FixedWindowStrategy(dbManager, "default");
+  const sliding = new SlidingLogStrategy(dbManager, "default");
+
+  for (let i = 0; i < 3; i++) {
+    fixed.recordWindows("post_tweet", "w", beforeBoundary);
+    sliding.record("post_tweet", "w", limits, beforeBoundary + i * MINUTE);
+  }
+
+  const fixedState = fixed.evaluate(
+    "post_tweet",
+    "per_15min",
+    3,
+    1,
+    afterBoundary
+  );
+  assert.equals(fixedState.remaining, 3, "New fixed window starts empty");
+
+  const slidingState = sliding.evaluate(
+    "post_tweet",
+    "per_15min",
+    3,
+    1,
+    afterBoundary
+  );
+  assert.equals(slidingState.remaining, 0);
+  assert.equals(
+    slidingState.next_allowed_at,
+    beforeBoundary + 15 * MINUTE,
+    "Oldest request ages out first"
+  );
+  assert.equals(
+    sliding.evaluate("post_tweet", "per_15min", 3, 2, afterBoundary)
+      .next_allowed_at,
+    beforeBoundary + 16 * MINUTE,
+    "Two units wait for the second-oldest"
+  );
+});
+
+suite.test("token bucket bursts to the limit, then refills", () => {
+  const dbManager = new DatabaseManager(":memory:");
+  const bucket = new TokenBucketStrategy(dbManager, "default");
+
+  assert.equals(
+    bucket.evaluate("fetch_timeline", "per_15min", 3, 1, beforeBoundary)
+      .remaining,
+    3,
+    "Unused bucket is full"
+  );
+  for (let i = 0; i < 3; i++) {
+    bucket.record("fetch_timeline", "w", limits, beforeBoundary);
+  }
+
+  const empty = bucket.evaluate(
+    "fetch_timeline",
+    "per_15min",
+    3,
+    1,
+    beforeBoundary
+  );
+  assert.equals(empty.remaining, 0);
+  // 3 tokens per 15 minutes is one every 5 minutes
+  assert.equals(empty.next_allowed_at, beforeBoundary + 5 * MINUTE);
+  assert.equals(empty.resets_at, beforeBoundary + 15 * MINUTE);
+
+  const later = bucket.evaluate(
+    "fetch_timeline",
+    "per_15min",
+    3,
+    1,
+    beforeBoundary + 11 * MINUTE
+  );
+  assert.equals(later.remaining, 2);
+  assert.equals(later.next_allowed_at, beforeBoundary + 11 * MINUTE);
+});
+
+suite.test("limiter reports the configured algorithm's capacity", async () => {
+  setConfig(
+    loadConfig({
+      env: {
+        GLITCHBOT__RATE_LIMITS__FETCH_TIMELINE: JSON.stringify({
+          requests_per_15min: 2,
+          worker_fair_share: false,
+          algorithm: "token_bucket",
+        }),
+      },
+    })
+  );
+  const dbManager = new DatabaseManager(":memory:");
+  const limiter = new GlobalRateLimiter(dbManager);
+
+  await limiter.recordUsage("fetch_timeline", "w", true);
+  await limiter.recordUsage("fetch_timeline", "w", true);
+  const check = await limiter.canMakeRequest("fetch_timeline", "w");
+  assert.falsy(check.allowed);
+  assert.truthy(
+    check.retry_after_seconds! > 0 && check.retry_after_seconds! <= 450,
+    `One token refills within 7.5 minutes (${check.retry_after_seconds})`
+  );
+
+  const status = await limiter.getSystemStatus();
+  assert.equals(status.limits.fetch_timeline!.algorithm, "token_bucket");
+  assert.equals(status.limits.fetch_timeline!.per_15min.remaining, 0);
+  assert.equals(status.limits.post_tweet!.algorithm, "sliding_log");
+
+  const row = dbManager.database
+    .prepare(
+      `SELECT algorithm, remaining, next_allowed_at FROM rate_limits
+       WHERE endpoint = 'fetch_timeline' AND window_type = 'per_15min'`
+    )
+    .get() as { algorithm: string; remaining: number; next_allowed_at: number };
+  assert.equals(row.algorithm, "token_bucket");
+  assert.equals(row.remaining, 0);
+  assert.truthy(row.next_allowed_at > Date.now(), "Next slot is in the future");
+
+  setConfig(loadConfig({ env: {} }));
+});
+
+suite.run();
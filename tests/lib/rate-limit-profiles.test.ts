@@ -0,0 +1,81 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Rate-limit profiles: the configured tier and auth context decide each
+ * endpoint's budget, with per-endpoint overrides on top
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { DatabaseManager } from "../../src/lib/database-manager";
+import { loadConfig, setConfig } from "../../src/lib/config";
+import { GlobalRateLimiter } from "../../src/persistence/global/rate-limiter";
+
+const suite = createTestSuite("Rate-limit profiles");
+
+const limiter = new GlobalRateLimiter(new DatabaseManager(":memory:"));
+
+async function remaining15min(endpoint: string): Promise<number> {
+  return (await limiter.getRemainingCapacity(endpoint)).per_15min.remaining;
+}
+
+suite.test("profiles are selected from config", async () => {
+  setConfig(loadConfig({ env: {} }));
+  assert.equals(await remaining15min("fetch_mentions"), 15, "testing default");
+
+  setConfig(
+    loadConfig({ env: { GLITCHBOT__RATE_LIMIT_PROFILE__NAME: "free" } })
+  );
+  assert.equals(await remaining15min("fetch_mentions"), 1);
+  const post = await limiter.getRemainingCapacity("post_tweet");
+  const reply = await limiter.getRemainingCapacity("reply_tweet");
+  assert.equals(
+    post.per_day.remaining + reply.per_day.remaining,
+    17,
+    "Replies and posts share the daily budget"
+  );
+  assert.equals(post.per_15min.remaining, 6, "Usable in one burst");
+
+  await assert.throws(
+    () =>
+      loadConfig({
+        env: { GLITCHBOT__RATE_LIMIT_PROFILE__NAME: "enterprise" },
+      }),
+    "Unknown profile"
+  );
+});
+
+suite.test("app context uses app limits where X declares them", async () => {
+  setConfig(
+    loadConfig({
+      env: {
+        GLITCHBOT__RATE_LIMIT_PROFILE__NAME: "basic",
+        GLITCHBOT__RATE_LIMIT_PROFILE__CONTEXT: "app",
+      },
+    })
+  );
+  assert.equals(await remaining15min("fetch_mentions"), 15);
+  assert.equals(await remaining15min("fetch_timeline"), 5, "User-only");
+
+  setConfig(
+    loadConfig({ env: { GLITCHBOT__RATE_LIMIT_PROFILE__NAME: "basic" } })
+  );
+  assert.equals(await remaining15min("fetch_mentions"), 10);
+});
+
+suite.test("per-endpoint overrides apply on top of the profile", async () => {
+  setConfig(
+    loadConfig({
+      env: {
+        GLITCHBOT__RATE_LIMIT_PROFILE__NAME: "pro",
+        GLITCHBOT__RATE_LIMITS__LIKE_TWEET: '{"requests_per_15min":5}',
+      },
+    })
+  );
+  const like = await limiter.getRemainingCapacity("like_tweet");
+  assert.equals(like.per_15min.remaining, 5);
+  assert.equals(like.per_day.remaining, 1000, "Rest of the profile kept");
+
+  setConfig(loadConfig({ env: {} }));
+});
+
+suite.run();
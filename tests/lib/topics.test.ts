@@ -0,0 +1,122 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Topic classifier: context_annotations and keywords map tweets onto the
+ * taxonomy, politics annotations veto (keywords only when they outscore the
+ * allowed topics), and quote_tweet refuses off-topic or unknown
+ * tweets before posting
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import { classifyTopic, filterOnTopic } from "../../src/lib/topics";
+import { createAppContext } from "../../src/lib/app-context";
+import { createQuoteTweetFunction } from "../../src/functions/timeline/quote-tweet";
+import type { Tweet } from "../../src/lib/tweet-normalizer";
+
+const suite = createTestSuite("Topic classifier");
+
+function tweet(id: string, text: string, annotations: string[] = []): Tweet {
+  return {
+    id,
+    text,
+    author_id: "42",
+    created_at: "2026-01-01T00:00:00.000Z",
+    context_annotations: annotations.map((name, i) => ({
+      domain: { id: "66", name: "Interests and Hobbies Category" },
+      entity: { id: String(i), name },
+    })),
+  };
+}
+
+suite.test("keywords and annotations pick the topic", async () => {
+  assert.equals(
+    classifyTopic(tweet("1", "Our new LLM eval harness")).topic,
+    "ai"
+  );
+  assert.equals(
+    classifyTopic(tweet("2", "Shipping a faster TypeScript compiler")).topic,
+    "devtools"
+  );
+  assert.equals(
+    classifyTopic(tweet("3", "Great thread", ["Cryptocurrencies"])).topic,
+    "crypto"
+  );
+
+  // One annotation outweighs one keyword from another topic
+  const mixed = classifyTopic(
+    tweet("4", "New paper out today", ["Artificial intelligence"])
+  );
+  assert.equals(mixed.topic, "ai");
+  assert.equals(
+    mixed.matched.join(","),
+    'annotation "Artificial intelligence"'
+  );
+
+  const other = classifyTopic(tweet("5", "Best pasta recipe ever"));
+  assert.equals(other.topic, "other");
+  assert.falsy(other.allowed);
+});
+
+suite.test("politics annotations veto otherwise on-topic tweets", async () => {
+  const result = classifyTopic(
+    tweet("6", "Senate hearing on AI safety rules", [
+      "Politics",
+      "Artificial intelligence",
+    ])
+  );
+  assert.equals(result.topic, "politics");
+  assert.falsy(result.allowed);
+
+  const { kept, dropped } = filterOnTopic([
+    tweet("7", "Bitcoin ETF flows hit a record"),
+    tweet("6", "Senate vote on the budget tonight"),
+  ]);
+  assert.equals(kept.map((t) => `${t.id}:${t.topic}`).join(","), "7:crypto");
+  assert.equals(dropped[0]?.reason, 'off-topic (politics: keyword "senate")');
+});
+
+suite.test(
+  "politics keywords don't veto stronger on-topic tweets",
+  async () => {
+    const dao = classifyTopic(tweet("10", "DAO voting opens today"));
+    assert.equals(dao.topic, "crypto");
+    assert.truthy(dao.allowed);
+
+    const openai = classifyTopic(
+      tweet("11", "OpenAI president on the new model", [
+        "Artificial intelligence",
+      ])
+    );
+    assert.equals(openai.topic, "ai");
+    assert.truthy(openai.allowed);
+
+    // Keyword-only politics still wins when nothing allowed matches
+    assert.equals(
+      classifyTopic(tweet("12", "Campaign trail stops in Ohio")).topic,
+      "politics"
+    );
+  }
+);
+
+suite.test("quote_tweet rejects off-topic and unknown tweets", async () => {
+  const context = createAppContext({ dbPath: ":memory:" });
+  context.db.cacheTweets([tweet("8", "Who wins the election tonight?")]);
+  const quote = createQuoteTweetFunction(context);
+  const log = () => {};
+
+  const offTopic = await quote.executable(
+    { tweet_id: "8", username: "someone", comment: "Interesting" },
+    log
+  );
+  assert.equals(offTopic.status, "failed");
+  assert.truthy(offTopic.feedback.includes("off-topic (politics"));
+
+  const unknown = await quote.executable(
+    { tweet_id: "9", username: "someone", comment: "Interesting" },
+    log
+  );
+  assert.equals(unknown.status, "failed");
+  assert.truthy(unknown.feedback.includes("unknown"));
+});
+
+suite.run();
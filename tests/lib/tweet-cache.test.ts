@@ -0,0 +1,95 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Tweet/user cache: fetched tweets, their authors and referenced tweets are
+ * upserted with first/last seen timestamps, partial payloads don't erase
+ * known fields, and metrics follow the newest snapshot
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import GlitchBotDB from "../../src/lib/db";
+import { DatabaseManager } from "../../src/lib/database-manager";
+import { normalizeTweets } from "../../src/lib/tweet-normalizer";
+
+const suite = createTestSuite("Tweet and user cache");
+
+const db = new GlitchBotDB(new DatabaseManager(":memory:"));
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const includes: any = {
+  users: [
+    {
+      id: "1",
+      username: "Alice",
+      name: "Alice",
+      verified: false,
+      public_metrics: { followers_count: 120 },
+    },
+    { id: "2", username: "bob" },
+  ],
+  tweets: [
+    {
+      id: "900",
+      text: "original thought",
+      author_id: "2",
+      created_at: "2026-01-01T00:00:00.000Z",
+    },
+  ],
+};
+
+const mention = {
+  id: "1000",
+  text: "@glitchbot_ai look",
+  author_id: "1",
+  created_at: "2026-01-01T01:00:00.000Z",
+  public_metrics: { like_count: 1 },
+  referenced_tweets: [{ type: "quoted", id: "900" }],
+};
+
+suite.test("caches tweets, authors and referenced tweets", async () => {
+  db.cacheTweets(normalizeTweets([mention], includes));
+
+  const cached = db.getCachedTweet("1000");
+  assert.equals(cached?.text, "@glitchbot_ai look");
+  assert.equals(cached?.public_metrics?.like_count, 1);
+  assert.equals(cached?.referenced_tweets?.[0]?.id, "900");
+  assert.equals(cached?.author?.username, "Alice", "Author joined in");
+  assert.truthy(cached?.metrics_updated_at, "Snapshot time recorded");
+
+  assert.truthy(db.getCachedTweet("900"), "Referenced tweet cached");
+  assert.equals(db.getCachedUser("2")?.username, "bob", "Its author too");
+
+  const alice = db.getCachedUserByUsername("@alice");
+  assert.equals(alice?.id, "1", "Username lookup ignores case and @");
+  assert.equals(alice?.verified, false);
+  assert.equals(alice?.public_metrics?.followers_count, 120);
+  assert.equals(db.getCachedTweetsByAuthor("1").length, 1);
+});
+
+suite.test("re-fetches refresh last_seen and metrics only", async () => {
+  const before = db.getCachedTweet("1000")!;
+  await sleep(5);
+
+  // Same tweet again: new metrics, author without user.fields this time
+  db.cacheTweets(
+    normalizeTweets([{ ...mention, public_metrics: { like_count: 9 } }], {
+      users: [{ id: "1", username: "alice" }],
+    } as any)
+  );
+
+  const after = db.getCachedTweet("1000")!;
+  assert.equals(after.first_seen_at, before.first_seen_at);
+  assert.truthy(after.last_seen_at > before.last_seen_at, "last_seen moved");
+  assert.equals(after.public_metrics?.like_count, 9, "Newest snapshot");
+  assert.equals(after.referenced_tweets?.length, 1);
+
+  const alice = db.getCachedUser("1")!;
+  assert.equals(alice.username, "alice", "Renames are picked up");
+  assert.equals(alice.name, "Alice", "Missing fields keep cached values");
+  assert.equals(alice.public_metrics?.followers_count, 120);
+});
+
+suite.run();
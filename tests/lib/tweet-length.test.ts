@@ -0,0 +1,41 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Weighted tweet length: URLs count 23, emojis and CJK count 2, and the
+ * 280 limit applies to the weighted count, not text.length
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import {
+  getTweetLength,
+  validateTweetLength,
+} from "../../src/lib/tweet-length";
+
+const suite = createTestSuite("Weighted tweet length");
+
+suite.test("URLs, emojis and CJK are weighted", async () => {
+  assert.equals(getTweetLength("hello"), 5);
+  assert.equals(getTweetLength("see https://x.com/a/status/1234567890123"), 27);
+  assert.equals(getTweetLength("docs at example.com/very/long/path/here"), 31);
+  assert.equals(getTweetLength("👀"), 2);
+  assert.equals(getTweetLength("👩‍💻🇦🇷"), 4, "ZWJ sequence and flag");
+  assert.equals(getTweetLength("👍🏽"), 2, "Skin tone");
+  assert.equals(getTweetLength("日本語"), 6);
+  assert.equals(getTweetLength("café — “quoted”"), 15);
+});
+
+suite.test("limits follow the weighted count", async () => {
+  // 257 chars + long URL: over 280 raw, 281 weighted
+  const comment = "a".repeat(257);
+  const url = "https://x.com/some_long_username/status/1234567890123456789";
+  assert.truthy(`${comment} ${url}`.length > 280);
+  assert.equals(validateTweetLength(`${comment} ${url}`).weightedLength, 281);
+  assert.truthy(validateTweetLength(`${"a".repeat(256)} ${url}`).valid);
+
+  // 141 CJK characters fit raw but not weighted
+  assert.falsy(validateTweetLength("字".repeat(141)).valid);
+  assert.truthy(validateTweetLength("字".repeat(140)).valid);
+  assert.falsy(validateTweetLength("").valid);
+});
+
+suite.run();
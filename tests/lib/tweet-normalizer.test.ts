@@ -0,0 +1,120 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Tweet normalizer: authors and referenced tweets resolved from includes,
+ * metrics defaulted, incomplete tweets skipped, stored suggestions mapped to
+ * the same model
+ */
+
+import { createTestSuite, assert } from "../helpers/test-utils";
+import {
+  normalizeTweets,
+  tweetFromSuggestedRow,
+} from "../../src/lib/tweet-normalizer";
+
+const suite = createTestSuite("Tweet normalizer");
+
+const includes: any = {
+  users: [
+    {
+      id: "1",
+      username: "alice",
+      name: "Alice",
+      verified: false,
+      public_metrics: { followers_count: 120 },
+    },
+    { id: "2", username: "bob", description: "" },
+  ],
+  tweets: [
+    {
+      id: "900",
+      text: "original thought",
+      author_id: "2",
+      created_at: "2026-01-01T00:00:00.000Z",
+      public_metrics: { like_count: 4 },
+    },
+  ],
+};
+
+suite.test("resolves authors and referenced tweets", async () => {
+  const [tweet] = normalizeTweets(
+    [
+      {
+        id: "1000",
+        text: "quoting bob",
+        author_id: "1",
+        created_at: "2026-01-01T01:00:00.000Z",
+        referenced_tweets: [
+          { type: "quoted", id: "900" },
+          { type: "replied_to", id: "404" },
+        ],
+      },
+    ],
+    includes
+  );
+
+  assert.equals(tweet?.author?.username, "alice");
+  assert.equals(tweet?.author?.verified, false, "false is kept");
+  assert.equals(tweet?.author?.public_metrics?.following_count, 0);
+  assert.equals(tweet?.referenced_tweets?.length, 2, "Raw refs kept");
+  assert.equals(tweet?.referenced?.length, 1, "Only refs found in includes");
+  assert.equals(tweet?.referenced?.[0]?.type, "quoted");
+  assert.equals(tweet?.referenced?.[0]?.tweet.author?.username, "bob");
+  assert.equals(tweet?.referenced?.[0]?.tweet.public_metrics?.like_count, 4);
+  assert.equals(
+    tweet?.referenced?.[0]?.tweet.public_metrics?.retweet_count,
+    0,
+    "Metrics defaulted"
+  );
+  assert.falsy(
+    "description" in (tweet?.referenced?.[0]?.tweet.author || {}),
+    "Empty fields dropped"
+  );
+});
+
+suite.test("skips tweets missing required fields", async () => {
+  const skipped: string[] = [];
+  const tweets = normalizeTweets(
+    [
+      { id: "1", text: "no author" },
+      {
+        id: "2",
+        text: "ok",
+        author_id: "9",
+        created_at: "2026-01-01T00:00:00.000Z",
+      },
+    ],
+    undefined,
+    (id) => skipped.push(id)
+  );
+  assert.equals(tweets.length, 1);
+  assert.equals(tweets[0]?.author, undefined, "Unknown author left unset");
+  assert.equals(skipped.join(","), "1");
+});
+
+suite.test("stored suggestions map to the same model", async () => {
+  const tweet = tweetFromSuggestedRow({
+    tweet_id: "900",
+    author_id: "2",
+    author_username: "bob",
+    content: "original thought",
+    created_at: "2026-01-01T00:00:00.000Z",
+    public_metrics: '{"like_count":4}',
+  });
+  assert.equals(tweet?.author?.username, "bob");
+  assert.equals(tweet?.public_metrics?.like_count, 4);
+  assert.equals(tweet?.public_metrics?.quote_count, 0);
+
+  const broken = tweetFromSuggestedRow({
+    tweet_id: "901",
+    author_id: "2",
+    author_username: "bob",
+    content: "bad metrics",
+    created_at: "2026-01-01T00:00:00.000Z",
+    public_metrics: "{not json",
+  });
+  assert.truthy(broken, "Malformed metrics are ignored");
+  assert.equals(broken?.public_metrics, undefined);
+});
+
+suite.run();